@@ -3,13 +3,34 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { AppStatus, ChatMessage } from './types';
-import * as geminiService from './services/geminiService';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { AppStatus, ChatMessage, ChatTree, ImagePart, RagStore, Document, CustomMetadata, ConversationContextOptions, ConversationExport, ConversationExportFormat, ConversationSummary, IngestionFileProgress, GenerationSettings, ExampleQuestionGroup, MessageFeedback, FeedbackEntry } from './types';
+import { RagBackend, RagBackendKind, DEFAULT_CONTEXT_OPTIONS } from './services/ragBackend';
+import { geminiBackend } from './services/geminiService';
+import { localBackend } from './services/localRagService';
 import Spinner from './components/Spinner';
 import WelcomeScreen from './components/WelcomeScreen';
 import ProgressBar from './components/ProgressBar';
 import ChatInterface from './components/ChatInterface';
+import LibraryScreen from './components/LibraryScreen';
+import MaintenanceScreen from './components/MaintenanceScreen';
+import ConversationSidebar from './components/ConversationSidebar';
+import FeedbackScreen from './components/FeedbackScreen';
+import EvaluationScreen from './components/EvaluationScreen';
+import { parseExampleQuestionGroup } from './utils/guards';
+import { createConversationExport, downloadConversation, parseConversationExport, parseChatMessage } from './utils/conversationExport';
+import * as conversationStore from './services/conversationStore';
+import * as feedbackStore from './services/feedbackStore';
+import { GoldenSet, ResponseRecording, runEvaluation, liveAnswerSource, replayAnswerSource } from './services/evaluation';
+import { createSessionStoreDisplayName, listSessionStores, deleteStores, deleteStoreAndData, deleteExpiredSessionStores, loadSessionStoreTtlHours, saveSessionStoreTtlHours } from './services/storeMaintenance';
+import { ingestFiles, IngestionJob, createIngestionJob, saveIngestionJob, loadIngestionJob, clearIngestionJob } from './services/ingestion';
+import { hashFile, checkFile, findDuplicateIssue } from './utils/fileValidation';
+import { classifyError } from './services/ragErrors';
+import { getMessageText, getMessageImages } from './utils/messageParts';
+import { EMPTY_CHAT_TREE, createChatTree, createChatNodeId, getActivePath, getBranch, addChatNode, updateChatMessage, selectChild, selectSibling } from './utils/chatTree';
+import { t, formatList, getLanguage, setLanguage, Language, LANGUAGES, MessageKey } from './utils/i18n';
+import { getDefaultGenerationSettings, loadGenerationSettings, saveGenerationSettings } from './services/generationSettings';
+import { DailyUsage, PriceTable, loadUsageForDay, subscribeToUsage, loadPriceTable, savePriceTable, loadDailyBudget, saveDailyBudget, summarizeUsage, formatCost } from './services/usageTracker';
 
 // DO: Define the AIStudio interface to resolve a type conflict where `window.aistudio` was being redeclared with an anonymous type.
 // FIX: Moved the AIStudio interface definition inside the `declare global` block to resolve a TypeScript type conflict.
@@ -23,32 +44,93 @@ declare global {
     }
 }
 
+const getRagBackend = (kind: RagBackendKind): RagBackend => kind === 'local' ? localBackend : geminiBackend;
+
+const readStoredBackendKind = (): RagBackendKind => localStorage.getItem('ragBackend') === 'local' ? 'local' : 'gemini';
+
+// Title shown for a chat over uploaded files: the file names when there are one or two.
+const formatDocumentName = (fileNames: string[]): string => {
+    if (fileNames.length === 1) return fileNames[0];
+    if (fileNames.length === 2) return formatList(fileNames);
+    return t('app.documentCount', { count: fileNames.length });
+};
+
 const App: React.FC = () => {
     const [status, setStatus] = useState<AppStatus>(AppStatus.Initializing);
+    // Mirrors the i18n module's language so that changing it re-renders the whole tree.
+    const [language, setLanguageState] = useState<Language>(getLanguage);
     const [isAistudioAvailable, setIsAistudioAvailable] = useState(false);
     const [isAistudioKeySelected, setIsAistudioKeySelected] = useState(false);
     const [apiKey, setApiKey] = useState(() => localStorage.getItem('geminiApiKey') || '');
     const [apiKeyError, setApiKeyError] = useState<string | null>(null);
+    // An upload interrupted by a reload or crash, offered for resumption on the welcome screen.
+    const [pendingIngestion, setPendingIngestion] = useState<IngestionJob | null>(loadIngestionJob);
+    const [backendKind, setBackendKind] = useState<RagBackendKind>(() => pendingIngestion?.backendKind ?? readStoredBackendKind());
     const [error, setError] = useState<string | null>(null);
-    const [uploadProgress, setUploadProgress] = useState<{ current: number, total: number, message?: string, fileName?: string } | null>(null);
+    const [uploadProgress, setUploadProgress] = useState<{ current: number, total: number, messageKey?: MessageKey, fileName?: string } | null>(null);
+    const [ingestionFiles, setIngestionFiles] = useState<IngestionFileProgress[] | null>(null);
+    const ingestionAbortControllerRef = useRef<AbortController | null>(null);
+    // Files being added to the open chat's store in the background.
+    const [chatUploads, setChatUploads] = useState<IngestionFileProgress[] | null>(null);
+    // Shown at the top of the chat, e.g. when some files of a batch could not be ingested.
+    const [chatNotice, setChatNotice] = useState<string | null>(null);
+    // Set when the chat's store was deleted elsewhere; the chat stays readable but cannot continue.
+    const [isStoreMissing, setIsStoreMissing] = useState(false);
     const [activeRagStoreName, setActiveRagStoreName] = useState<string | null>(() => localStorage.getItem('ragStoreName'));
-    const [chatHistory, setChatHistory] = useState<ChatMessage[]>(() => {
+    // Stores opened from the library are long-lived and must survive the end of a chat.
+    const [isPersistentStore, setIsPersistentStore] = useState(() => localStorage.getItem('ragStoreIsPersistent') === 'true');
+    const [chatTree, setChatTree] = useState<ChatTree>(EMPTY_CHAT_TREE);
+    const chatNodes = useMemo(() => getActivePath(chatTree), [chatTree]);
+    const chatHistory = useMemo(() => chatNodes.map(node => node.message), [chatNodes]);
+    const chatBranches = useMemo(() => chatNodes.map(node => getBranch(chatTree, node)), [chatTree, chatNodes]);
+    // The history itself lives in IndexedDB; only the id of the open conversation is kept here.
+    const [activeConversationId, setActiveConversationId] = useState<string | null>(() => localStorage.getItem('activeConversationId'));
+    const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+    // The tree as last read from or written to IndexedDB, so unchanged conversations are not saved again.
+    const persistedTreeRef = useRef<ChatTree>(chatTree);
+    const [isQueryLoading, setIsQueryLoading] = useState(false);
+    const queryAbortControllerRef = useRef<AbortController | null>(null);
+    const [exampleQuestions, setExampleQuestions] = useState<ExampleQuestionGroup[]>(() => {
         try {
-            return JSON.parse(localStorage.getItem('chatHistory') || '[]');
+            const stored: unknown = JSON.parse(localStorage.getItem('exampleQuestions') || '[]');
+            if (!Array.isArray(stored)) return [];
+            // Sessions saved before questions were grouped by product stored a flat list.
+            const groups: unknown[] = typeof stored[0] === 'string' ? [{ product: '', questions: stored }] : stored;
+            return groups.map(parseExampleQuestionGroup).filter((group): group is ExampleQuestionGroup => group !== null && group.questions.length > 0);
         } catch (e) {
             return [];
         }
     });
-    const [isQueryLoading, setIsQueryLoading] = useState(false);
-    const [exampleQuestions, setExampleQuestions] = useState<string[]>(() => {
+    const [isLoadingMoreQuestions, setIsLoadingMoreQuestions] = useState(false);
+    const [feedbackEntries, setFeedbackEntries] = useState<FeedbackEntry[]>([]);
+    const [isFeedbackLoading, setIsFeedbackLoading] = useState(false);
+    const [documentName, setDocumentName] = useState<string>(() => localStorage.getItem('documentName') || '');
+    const [metadataFilter, setMetadataFilter] = useState<string>(() => localStorage.getItem('metadataFilter') || '');
+    const [contextOptions, setContextOptions] = useState<ConversationContextOptions>(() => {
         try {
-            return JSON.parse(localStorage.getItem('exampleQuestions') || '[]');
+            return { ...DEFAULT_CONTEXT_OPTIONS, ...JSON.parse(localStorage.getItem('contextOptions') || '{}') };
         } catch (e) {
-            return [];
+            return DEFAULT_CONTEXT_OPTIONS;
         }
     });
-    const [documentName, setDocumentName] = useState<string>(() => localStorage.getItem('documentName') || '');
+    // Settings of the open chat's store; saved per store as they are edited.
+    const [generationSettings, setGenerationSettings] = useState<GenerationSettings>(getDefaultGenerationSettings);
+    const [dailyUsage, setDailyUsage] = useState<DailyUsage>(() => loadUsageForDay());
+    const [priceTable, setPriceTable] = useState<PriceTable>(loadPriceTable);
+    const [dailyBudget, setDailyBudget] = useState<number | null>(loadDailyBudget);
     const [files, setFiles] = useState<File[]>([]);
+    const [ragStores, setRagStores] = useState<RagStore[]>([]);
+    const [selectedStore, setSelectedStore] = useState<RagStore | null>(null);
+    const [documents, setDocuments] = useState<Document[]>([]);
+    const [isStoresLoading, setIsStoresLoading] = useState(false);
+    const [isDocumentsLoading, setIsDocumentsLoading] = useState(false);
+    const [processingFile, setProcessingFile] = useState<string | null>(null);
+    const [sessionStores, setSessionStores] = useState<RagStore[]>([]);
+    const [isSessionStoresLoading, setIsSessionStoresLoading] = useState(false);
+    const [sessionStoreTtlHours, setSessionStoreTtlHours] = useState<number | null>(loadSessionStoreTtlHours);
+    const hasCollectedSessionStoresRef = useRef(false);
+    // An imported transcript is shown read-only and is not tied to any live store.
+    const [importedConversation, setImportedConversation] = useState<ConversationExport | null>(null);
 
     useEffect(() => {
         const isAvailable = !!window.aistudio?.hasSelectedApiKey && !!window.aistudio?.openSelectKey;
@@ -62,20 +144,110 @@ const App: React.FC = () => {
             localStorage.removeItem('geminiApiKey');
         }
     }, [apiKey]);
+
+    useEffect(() => {
+        localStorage.setItem('contextOptions', JSON.stringify(contextOptions));
+    }, [contextOptions]);
+
+    useEffect(() => {
+        localStorage.setItem('ragBackend', backendKind);
+    }, [backendKind]);
+
+    useEffect(() => subscribeToUsage(setDailyUsage), []);
     
     useEffect(() => {
         if (activeRagStoreName) {
             localStorage.setItem('ragStoreName', activeRagStoreName);
+            localStorage.setItem('ragStoreIsPersistent', String(isPersistentStore));
             localStorage.setItem('documentName', documentName);
-            localStorage.setItem('chatHistory', JSON.stringify(chatHistory));
             localStorage.setItem('exampleQuestions', JSON.stringify(exampleQuestions));
+            localStorage.setItem('metadataFilter', metadataFilter);
         } else {
             localStorage.removeItem('ragStoreName');
+            localStorage.removeItem('ragStoreIsPersistent');
             localStorage.removeItem('documentName');
-            localStorage.removeItem('chatHistory');
             localStorage.removeItem('exampleQuestions');
+            localStorage.removeItem('metadataFilter');
+        }
+    }, [activeRagStoreName, isPersistentStore, documentName, exampleQuestions, metadataFilter]);
+
+    useEffect(() => {
+        if (activeConversationId) {
+            localStorage.setItem('activeConversationId', activeConversationId);
+        } else {
+            localStorage.removeItem('activeConversationId');
         }
-    }, [activeRagStoreName, documentName, chatHistory, exampleQuestions]);
+    }, [activeConversationId]);
+
+    useEffect(() => {
+        const restoreConversation = async () => {
+            const ragStoreName = localStorage.getItem('ragStoreName');
+            const legacyHistory = localStorage.getItem('chatHistory');
+            try {
+                // Earlier versions kept a single history in localStorage; move it into IndexedDB once.
+                // The old copy is only removed once the new one is saved, or when there is nothing to move.
+                if (legacyHistory && ragStoreName) {
+                    const stored: unknown = JSON.parse(legacyHistory);
+                    const messages = Array.isArray(stored)
+                        ? stored.map(parseChatMessage).filter((message): message is ChatMessage => message !== null)
+                        : [];
+                    if (messages.length > 0) {
+                        const id = conversationStore.createConversationId();
+                        const tree = createChatTree(messages);
+                        await conversationStore.saveConversation(id, ragStoreName, tree);
+                        localStorage.removeItem('chatHistory');
+                        persistedTreeRef.current = tree;
+                        setChatTree(tree);
+                        setActiveConversationId(id);
+                        return;
+                    }
+                }
+                localStorage.removeItem('chatHistory');
+                const id = localStorage.getItem('activeConversationId');
+                const conversation = id ? await conversationStore.getConversation(id) : null;
+                if (conversation) {
+                    const tree = conversationStore.getConversationTree(conversation);
+                    persistedTreeRef.current = tree;
+                    setChatTree(tree);
+                } else {
+                    setActiveConversationId(null);
+                }
+            } catch (err) {
+                console.error("Impossibile ripristinare la conversazione salvata", err);
+            }
+        };
+        restoreConversation();
+    }, []);
+
+    const refreshConversations = useCallback(async (ragStoreName: string) => {
+        try {
+            setConversations(await conversationStore.listConversations(ragStoreName));
+        } catch (err) {
+            console.error("Impossibile caricare le conversazioni salvate", err);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (activeRagStoreName) {
+            refreshConversations(activeRagStoreName);
+        } else {
+            setConversations([]);
+        }
+    }, [activeRagStoreName, refreshConversations]);
+
+    useEffect(() => {
+        setGenerationSettings(activeRagStoreName ? loadGenerationSettings(activeRagStoreName) : getDefaultGenerationSettings());
+    }, [activeRagStoreName, language]);
+
+    // Saves the open conversation once an answer has finished, not on every streamed token.
+    useEffect(() => {
+        if (!activeRagStoreName || !activeConversationId || isQueryLoading) return;
+        if (chatTree === persistedTreeRef.current) return;
+        persistedTreeRef.current = chatTree;
+        conversationStore.saveConversation(activeConversationId, activeRagStoreName, chatTree)
+            .then(summary => setConversations(prev => [summary, ...prev.filter(c => c.id !== summary.id)]))
+            .catch(err => console.error("Impossibile salvare la conversazione", err));
+    }, [activeRagStoreName, activeConversationId, chatTree, isQueryLoading]);
 
     const checkAistudioApiKey = useCallback(async () => {
         if (isAistudioAvailable) {
@@ -90,6 +262,8 @@ const App: React.FC = () => {
     }, [isAistudioAvailable]);
     
     const isApiKeyConfigured = isAistudioAvailable ? isAistudioKeySelected : apiKey.trim() !== '';
+    const backend = getRagBackend(backendKind);
+    const isBackendReady = !backend.requiresApiKey || isApiKeyConfigured;
 
     useEffect(() => {
         const initialize = async () => {
@@ -97,10 +271,11 @@ const App: React.FC = () => {
             const storedRagStore = localStorage.getItem('ragStoreName');
             // Use a separate variable to check the latest state of isApiKeyConfigured
             const keyConfigured = isAistudioAvailable ? (await window.aistudio?.hasSelectedApiKey()) : (localStorage.getItem('geminiApiKey') || '').trim() !== '';
+            const storedBackend = getRagBackend(readStoredBackendKind());
 
-            if (storedRagStore && keyConfigured) {
+            if (storedRagStore && (keyConfigured || !storedBackend.requiresApiKey)) {
                 try {
-                     geminiService.initialize(isAistudioAvailable ? undefined : apiKey || localStorage.getItem('geminiApiKey')!);
+                     storedBackend.initialize(isAistudioAvailable ? undefined : apiKey || localStorage.getItem('geminiApiKey')!);
                      setStatus(AppStatus.Chatting);
                 } catch(err) {
                      // If init fails, clear session and go to welcome
@@ -114,6 +289,25 @@ const App: React.FC = () => {
         initialize();
     }, [isAistudioAvailable, apiKey]);
 
+    // The open chat's store and an interrupted upload's store must survive any clean-up.
+    const sessionStoreProtectedNames = [activeRagStoreName, pendingIngestion?.ragStoreName].filter((name): name is string => !!name);
+
+    // Enforces the session store TTL once per launch, after the stored API key has been picked up.
+    useEffect(() => {
+        if (status === AppStatus.Initializing || hasCollectedSessionStoresRef.current) return;
+        hasCollectedSessionStoresRef.current = true;
+        if (!sessionStoreTtlHours || !isBackendReady) return;
+
+        try {
+            backend.initialize(isAistudioAvailable ? undefined : apiKey);
+        } catch (err) {
+            console.error("Impossibile inizializzare il backend per la pulizia degli archivi di sessione", err);
+            return;
+        }
+        deleteExpiredSessionStores(backend, sessionStoreTtlHours, sessionStoreProtectedNames)
+            .catch(err => console.error("Pulizia degli archivi di sessione non riuscita", err));
+    }, [status]);
+
 
     useEffect(() => {
         const handleVisibilityChange = () => {
@@ -133,7 +327,15 @@ const App: React.FC = () => {
 
     const handleError = (message: string, err: any) => {
         console.error(message, err);
-        setError(`${message}${err ? `: ${err instanceof Error ? err.message : String(err)}` : ''}`);
+        const error = classifyError(err);
+        if (error.kind === 'auth') {
+            // A rejected key is fixed on the welcome screen, not by retrying.
+            setApiKeyError(error.message);
+            if (isAistudioAvailable) setIsAistudioKeySelected(false);
+            setStatus(AppStatus.Welcome);
+            return;
+        }
+        setError(`${message}: ${error.message}`);
         setStatus(AppStatus.Error);
     };
 
@@ -154,149 +356,790 @@ const App: React.FC = () => {
     };
 
     const handleUploadAndStartChat = async () => {
-        if (!isApiKeyConfigured) {
-            setApiKeyError("È richiesta una Chiave API Gemini per continuare.");
-            throw new Error("È richiesta la Chiave API.");
+        if (!isBackendReady) {
+            setApiKeyError(t('app.apiKeyRequired'));
+            throw new Error(t('app.apiKeyRequired'));
         }
         if (files.length === 0) return;
         
         setApiKeyError(null);
 
         try {
-            geminiService.initialize(isAistudioAvailable ? undefined : apiKey);
+            backend.initialize(isAistudioAvailable ? undefined : apiKey);
         } catch (err) {
-            handleError("Inizializzazione fallita. Assicurati che la tua chiave API sia valida.", err);
+            handleError(t('app.initializationFailed'), err);
             throw err;
         }
+
+        // Only one job is tracked, so a new upload replaces the interrupted one.
+        if (pendingIngestion) discardIngestionJob(pendingIngestion);
         
         setStatus(AppStatus.Uploading);
-        const totalSteps = files.length + 2;
-        setUploadProgress({ current: 0, total: totalSteps, message: "Creazione dell'indice del documento..." });
+        setUploadProgress({ current: 0, total: files.length + 2, messageKey: 'progress.creatingIndex' });
 
+        let job: IngestionJob;
+        let ragStoreName: string | null = null;
         try {
-            const storeName = `chat-session-${Date.now()}`;
-            const ragStoreName = await geminiService.createRagStore(storeName);
-            
-            setUploadProgress({ current: 1, total: totalSteps, message: "Generazione degli incorporamenti..." });
-
-            for (let i = 0; i < files.length; i++) {
-                setUploadProgress(prev => ({ 
-                    ...(prev!),
-                    current: i + 1,
-                    message: "Generazione degli incorporamenti...",
-                    fileName: `(${i + 1}/${files.length}) ${files[i].name}`
-                }));
-                await geminiService.uploadToRagStore(ragStoreName, files[i]);
+            ragStoreName = await backend.createRagStore(createSessionStoreDisplayName());
+            job = await createIngestionJob(backendKind, ragStoreName, files);
+            saveIngestionJob(job);
+        } catch (err) {
+            if (ragStoreName) {
+                backend.deleteRagStore(ragStoreName).catch(deleteErr => {
+                    console.error("Impossibile eliminare l'archivio RAG parziale", deleteErr);
+                });
+            }
+            handleError(t('app.startChatFailed'), err);
+            setUploadProgress(null);
+            throw err;
+        }
+
+        await runChatIngestion(job, files.map((file, jobIndex) => ({ file, jobIndex })));
+    };
+
+    const discardIngestionJob = (job: IngestionJob) => {
+        clearIngestionJob();
+        setPendingIngestion(null);
+        getRagBackend(job.backendKind).deleteRagStore(job.ragStoreName).catch(err => {
+            console.error("Impossibile eliminare l'archivio RAG parziale", err);
+        });
+    };
+
+    /**
+     * Uploads the given files into the job's chat-session store and opens the chat. The job is
+     * saved after every completed file so an interruption can be resumed with `handleResumeIngestion`.
+     */
+    const runChatIngestion = async (initialJob: IngestionJob, entries: { file: File, jobIndex: number }[]) => {
+        const job: IngestionJob = { ...initialJob, files: initialJob.files.map(file => ({ ...file })) };
+        const totalSteps = job.files.length + 2;
+        const alreadyDone = job.files.filter(file => file.done).length;
+        setUploadProgress({ current: 1 + alreadyDone, total: totalSteps, messageKey: 'progress.generatingEmbeddings' });
+
+        const controller = new AbortController();
+        ingestionAbortControllerRef.current = controller;
+        try {
+            const results = await ingestFiles(backend, job.ragStoreName, entries.map(entry => entry.file), {
+                abortSignal: controller.signal,
+                contentHashes: entries.map(entry => job.files[entry.jobIndex].sha256),
+                onProgress: progress => {
+                    setIngestionFiles(progress);
+                    progress.forEach((file, i) => {
+                        if (file.status === 'done') job.files[entries[i].jobIndex].done = true;
+                    });
+                    saveIngestionJob(job);
+                    const completed = progress.filter(file => file.status === 'done' || file.status === 'failed').length;
+                    setUploadProgress(prev => ({ ...(prev!), current: 1 + alreadyDone + completed }));
+                },
+            });
+            ingestionAbortControllerRef.current = null;
+            setIngestionFiles(null);
+
+            if (controller.signal.aborted) {
+                discardIngestionJob(job);
+                setStatus(AppStatus.Welcome);
+                return;
             }
+
+            const ingestedFiles = job.files.filter(file => file.done);
+            const failedFiles = job.files.filter(file => !file.done);
+            if (ingestedFiles.length === 0) {
+                throw new Error(results.find(file => file.error)?.error || t('app.noFileUploaded'));
+            }
+            setChatNotice(failedFiles.length > 0
+                ? t('app.someFilesFailed', { failed: failedFiles.length, total: job.files.length, names: failedFiles.map(file => file.name).join(', ') })
+                : null);
             
-            setUploadProgress({ current: files.length + 1, total: totalSteps, message: "Generazione di suggerimenti...", fileName: "" });
-            const questions = await geminiService.generateExampleQuestions(ragStoreName);
-            setExampleQuestions(questions);
+            setUploadProgress({ current: totalSteps - 1, total: totalSteps, messageKey: 'progress.generatingSuggestions', fileName: "" });
+            await loadExampleQuestions(job.ragStoreName, loadGenerationSettings(job.ragStoreName).model);
 
-            setUploadProgress({ current: totalSteps, total: totalSteps, message: "Tutto pronto!", fileName: "" });
+            setUploadProgress({ current: totalSteps, total: totalSteps, messageKey: 'progress.allSet', fileName: "" });
             
             await new Promise(resolve => setTimeout(resolve, 500)); // Short delay to show "All set!"
 
-            let docName = '';
-            if (files.length === 1) {
-                docName = files[0].name;
-            } else if (files.length === 2) {
-                docName = `${files[0].name} e ${files[1].name}`;
-            } else {
-                docName = `${files.length} documenti`;
-            }
-            setDocumentName(docName);
+            setDocumentName(formatDocumentName(ingestedFiles.map(file => file.name)));
             
-            setChatHistory([]); // Start with a fresh chat history
-            setActiveRagStoreName(ragStoreName);
+            clearIngestionJob();
+            setPendingIngestion(null);
+            startNewConversation();
+            setIsPersistentStore(false);
+            setActiveRagStoreName(job.ragStoreName);
             setStatus(AppStatus.Chatting);
             setFiles([]); // Clear files on success
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message.toLowerCase() : String(err).toLowerCase();
-            if (errorMessage.includes('api key not valid') || errorMessage.includes('requested entity was not found')) {
-                setApiKeyError("La Chiave API Gemini non è valida.");
-                if (isAistudioAvailable) setIsAistudioKeySelected(false);
-                setStatus(AppStatus.Welcome);
-            } else {
-                handleError("Impossibile avviare la sessione di chat", err);
-            }
+            discardIngestionJob(job);
+            handleError(t('app.startChatFailed'), err);
             throw err;
+        } finally {
+            ingestionAbortControllerRef.current = null;
+            setIngestionFiles(null);
+            setUploadProgress(null);
+        }
+    };
+
+    const handleResumeIngestion = async (selectedFiles: File[]) => {
+        const job = pendingIngestion;
+        if (!job) return;
+        if (!isBackendReady) {
+            setApiKeyError(t('app.apiKeyRequired'));
+            throw new Error(t('app.apiKeyRequired'));
+        }
+        setApiKeyError(null);
+
+        try {
+            backend.initialize(isAistudioAvailable ? undefined : apiKey);
+        } catch (err) {
+            handleError(t('app.initializationFailed'), err);
+            throw err;
+        }
+
+        setStatus(AppStatus.Uploading);
+        setUploadProgress({ current: 0, total: job.files.length + 2, messageKey: 'progress.checkingFiles' });
+
+        let resumedJob: IngestionJob;
+        const entries: { file: File, jobIndex: number }[] = [];
+        try {
+            // Files whose upload reached the store before the interruption are not sent again.
+            const storedNames = new Set((await backend.listDocuments(job.ragStoreName)).map(doc => doc.displayName));
+            resumedJob = { ...job, files: job.files.map(file => ({ ...file, done: file.done || storedNames.has(file.name) })) };
+            const hashes = await Promise.all(selectedFiles.map(hashFile));
+            resumedJob.files.forEach((file, jobIndex) => {
+                const match = hashes.indexOf(file.sha256);
+                if (!file.done && match !== -1) entries.push({ file: selectedFiles[match], jobIndex });
+            });
+            saveIngestionJob(resumedJob);
+        } catch (err) {
+            setUploadProgress(null);
+            handleError(t('app.resumeFailed'), err);
+            throw err;
+        }
+
+        await runChatIngestion(resumedJob, entries);
+    };
+
+    const handleDiscardIngestion = () => {
+        if (!pendingIngestion) return;
+        try {
+            getRagBackend(pendingIngestion.backendKind).initialize(isAistudioAvailable ? undefined : apiKey);
+        } catch (err) {
+            // Without a key the partial store cannot be deleted; forget the job anyway.
+            console.error("Impossibile inizializzare il backend per eliminare l'archivio parziale", err);
+        }
+        discardIngestionJob(pendingIngestion);
+    };
+
+    const handleCancelUpload = () => {
+        ingestionAbortControllerRef.current?.abort();
+    };
+
+    const loadRagStores = async () => {
+        setIsStoresLoading(true);
+        try {
+            const stores = await backend.listRagStores();
+            setRagStores(stores);
+        } catch (err) {
+            handleError(t('app.loadStoresFailed'), err);
+        } finally {
+            setIsStoresLoading(false);
+        }
+    };
+
+    const loadDocuments = async (ragStoreName: string) => {
+        setIsDocumentsLoading(true);
+        try {
+            const docs = await backend.listDocuments(ragStoreName);
+            setDocuments(docs);
+        } catch (err) {
+            if (classifyError(err).kind === 'notFound') {
+                // Deleted from another tab or device: drop it from the library instead of failing.
+                setSelectedStore(null);
+                setDocuments([]);
+                await loadRagStores();
+                return;
+            }
+            handleError(t('app.loadDocumentsFailed'), err);
+        } finally {
+            setIsDocumentsLoading(false);
+        }
+    };
+
+    const handleOpenLibrary = async () => {
+        if (!isBackendReady) {
+            setApiKeyError(t('app.apiKeyRequired'));
+            return;
+        }
+        setApiKeyError(null);
+
+        try {
+            backend.initialize(isAistudioAvailable ? undefined : apiKey);
+        } catch (err) {
+            handleError(t('app.initializationFailed'), err);
+            return;
+        }
+
+        setStatus(AppStatus.Library);
+        await loadRagStores();
+    };
+
+    const handleCloseLibrary = () => {
+        setSelectedStore(null);
+        setDocuments([]);
+        setStatus(AppStatus.Welcome);
+    };
+
+    const handleSelectStore = (store: RagStore) => {
+        setSelectedStore(store);
+        setDocuments([]);
+        loadDocuments(store.name);
+    };
+
+    const handleCreateStore = async (displayName: string) => {
+        setIsStoresLoading(true);
+        try {
+            const ragStoreName = await backend.createRagStore(displayName);
+            await loadRagStores();
+            handleSelectStore({ name: ragStoreName, displayName });
+        } catch (err) {
+            handleError(t('app.createStoreFailed'), err);
+        } finally {
+            setIsStoresLoading(false);
+        }
+    };
+
+    const handleDeleteStore = async (ragStoreName: string) => {
+        const store = ragStores.find(s => s.name === ragStoreName);
+        if (!window.confirm(t('app.confirmDeleteStore', { name: store?.displayName || ragStoreName }))) return;
+
+        setIsStoresLoading(true);
+        try {
+            await deleteStoreAndData(backend, ragStoreName);
+            if (selectedStore?.name === ragStoreName) {
+                setSelectedStore(null);
+                setDocuments([]);
+            }
+            await loadRagStores();
+        } catch (err) {
+            handleError(t('app.deleteStoreFailed'), err);
+        } finally {
+            setIsStoresLoading(false);
+        }
+    };
+
+    const handleUploadDocument = async (file: File, metadata: CustomMetadata[]) => {
+        if (!selectedStore) return;
+        setProcessingFile(file.name);
+        try {
+            await backend.uploadToRagStore(selectedStore.name, file, metadata);
+            await loadDocuments(selectedStore.name);
+        } catch (err) {
+            handleError(t('app.uploadFileFailed', { name: file.name }), err);
+        } finally {
+            setProcessingFile(null);
+        }
+    };
+
+    const handleDeleteDocument = async (documentName: string) => {
+        if (!selectedStore) return;
+        const doc = documents.find(d => d.name === documentName);
+        if (!window.confirm(t('app.confirmDeleteDocument', { name: doc?.displayName || documentName }))) return;
+
+        setIsDocumentsLoading(true);
+        try {
+            await backend.deleteDocument(documentName);
+            await loadDocuments(selectedStore.name);
+        } catch (err) {
+            handleError(t('app.deleteDocumentFailed'), err);
+        } finally {
+            setIsDocumentsLoading(false);
+        }
+    };
+
+    const loadSessionStores = async () => {
+        setIsSessionStoresLoading(true);
+        try {
+            setSessionStores(await listSessionStores(backend));
+        } catch (err) {
+            handleError(t('app.loadSessionStoresFailed'), err);
+        } finally {
+            setIsSessionStoresLoading(false);
+        }
+    };
+
+    const handleOpenMaintenance = async () => {
+        setStatus(AppStatus.Maintenance);
+        await loadSessionStores();
+    };
+
+    const handleCloseMaintenance = () => {
+        setSessionStores([]);
+        setStatus(AppStatus.Library);
+        loadRagStores();
+    };
+
+    const handleDeleteSessionStores = async (storeNames: string[]) => {
+        setIsSessionStoresLoading(true);
+        try {
+            const failed = await deleteStores(backend, storeNames);
+            if (selectedStore && storeNames.includes(selectedStore.name) && !failed.includes(selectedStore.name)) {
+                setSelectedStore(null);
+                setDocuments([]);
+            }
+            if (failed.length > 0) {
+                window.alert(t('app.deleteSessionStoresFailed', { count: failed.length }));
+            }
+        } finally {
+            setIsSessionStoresLoading(false);
+        }
+        await loadSessionStores();
+    };
+
+    const loadFeedback = async () => {
+        setIsFeedbackLoading(true);
+        try {
+            setFeedbackEntries(await feedbackStore.listFeedback());
+        } catch (err) {
+            handleError(t('app.loadFeedbackFailed'), err);
+        } finally {
+            setIsFeedbackLoading(false);
+        }
+    };
+
+    const handleOpenFeedback = async () => {
+        setStatus(AppStatus.Feedback);
+        await loadFeedback();
+    };
+
+    const handleCloseFeedback = () => {
+        setFeedbackEntries([]);
+        setStatus(AppStatus.Welcome);
+    };
+
+    const handleDeleteFeedback = async (id: string) => {
+        try {
+            await feedbackStore.deleteFeedback(id);
+            setFeedbackEntries(prev => prev.filter(entry => entry.id !== id));
+        } catch (err) {
+            handleError(t('app.deleteFeedbackFailed'), err);
+        }
+    };
+
+    const handleRunEvaluation = (storeName: string, goldenSet: GoldenSet, recording: ResponseRecording | null, onProgress: (done: number, total: number) => void, abortSignal: AbortSignal) => {
+        const settings = loadGenerationSettings(storeName);
+        const model = backend.kind === 'gemini' ? settings.model : undefined;
+        if (recording) {
+            return runEvaluation(goldenSet, replayAnswerSource(recording), { storeName, backend: backend.kind, model, mode: 'replay' }, onProgress);
+        }
+        return runEvaluation(goldenSet, liveAnswerSource(backend, storeName, settings, abortSignal), { storeName, backend: backend.kind, model, mode: 'live' }, onProgress);
+    };
+
+    const handleSessionStoreTtlHoursChange = (hours: number | null) => {
+        setSessionStoreTtlHours(hours);
+        saveSessionStoreTtlHours(hours);
+    };
+
+    const handleStartLibraryChat = async () => {
+        if (!selectedStore) return;
+
+        setStatus(AppStatus.Uploading);
+        setUploadProgress({ current: 0, total: 1, messageKey: 'progress.generatingSuggestions', fileName: selectedStore.displayName });
+
+        try {
+            await loadExampleQuestions(selectedStore.name, loadGenerationSettings(selectedStore.name).model);
+            setUploadProgress({ current: 1, total: 1, messageKey: 'progress.allSet', fileName: "" });
+
+            await new Promise(resolve => setTimeout(resolve, 500)); // Short delay to show "All set!"
+
+            setDocumentName(selectedStore.displayName);
+            startNewConversation();
+            setIsPersistentStore(true);
+            setActiveRagStoreName(selectedStore.name);
+            setStatus(AppStatus.Chatting);
+        } catch (err) {
+            handleError(t('app.startChatFailed'), err);
         } finally {
             setUploadProgress(null);
         }
     };
 
     const handleEndChat = () => {
-        if (activeRagStoreName) {
-            geminiService.deleteRagStore(activeRagStoreName).catch(err => {
+        const returnToLibrary = isPersistentStore;
+        if (activeRagStoreName && !isPersistentStore) {
+            deleteStoreAndData(backend, activeRagStoreName).catch(err => {
                 console.error("Impossibile eliminare l'archivio RAG in background", err);
             });
         }
         setActiveRagStoreName(null);
-        setChatHistory([]);
+        setIsPersistentStore(false);
+        setImportedConversation(null);
+        setChatNotice(null);
+        setIsStoreMissing(false);
+        startNewConversation();
         setExampleQuestions([]);
         setDocumentName('');
+        setMetadataFilter('');
         setFiles([]);
-        setStatus(AppStatus.Welcome);
+        if (returnToLibrary) {
+            setStatus(AppStatus.Library);
+            loadRagStores();
+            if (selectedStore) loadDocuments(selectedStore.name);
+        } else {
+            setStatus(AppStatus.Welcome);
+        }
     };
 
     const handleClearChat = () => {
-        setChatHistory([]);
+        setChatTree(EMPTY_CHAT_TREE);
     };
 
-    const handleDownloadChat = () => {
-        const formattedHistory = chatHistory
-            .map(message => {
-                const prefix = message.role === 'user' ? 'Tu' : 'Modello';
-                return `${prefix}:\n${message.parts[0].text}\n`;
-            })
-            .join('\n---\n\n');
-        
-        const blob = new Blob([formattedHistory], { type: 'text/plain;charset=utf-8' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        const docNameCleaned = documentName.replace(/[^a-z0-9]/gi, '_').toLowerCase();
-        link.download = `conversazione_${docNameCleaned}.txt`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-    };
-
-    const handleSendMessage = async (message: string) => {
+    const startNewConversation = () => {
+        persistedTreeRef.current = EMPTY_CHAT_TREE;
+        setChatTree(EMPTY_CHAT_TREE);
+        setActiveConversationId(null);
+    };
+
+    const handleSelectConversation = async (id: string) => {
+        try {
+            const conversation = await conversationStore.getConversation(id);
+            if (!conversation) {
+                if (activeRagStoreName) refreshConversations(activeRagStoreName);
+                return;
+            }
+            const tree = conversationStore.getConversationTree(conversation);
+            persistedTreeRef.current = tree;
+            setChatTree(tree);
+            setActiveConversationId(id);
+        } catch (err) {
+            handleError(t('app.openConversationFailed'), err);
+        }
+    };
+
+    const handleRenameConversation = async (id: string, title: string) => {
+        try {
+            await conversationStore.renameConversation(id, title);
+            setConversations(prev => prev.map(c => c.id === id ? { ...c, title } : c));
+        } catch (err) {
+            handleError(t('app.renameConversationFailed'), err);
+        }
+    };
+
+    const handleDeleteConversation = async (id: string) => {
+        const conversation = conversations.find(c => c.id === id);
+        if (!window.confirm(t('app.confirmDeleteConversation', { title: conversation?.title || id }))) return;
+        try {
+            await conversationStore.deleteConversation(id);
+            setConversations(prev => prev.filter(c => c.id !== id));
+            if (id === activeConversationId) startNewConversation();
+        } catch (err) {
+            handleError(t('app.deleteConversationFailed'), err);
+        }
+    };
+
+    const handleDownloadChat = async (format: ConversationExportFormat) => {
+        if (importedConversation) {
+            downloadConversation({ ...importedConversation, exportedAt: new Date().toISOString(), messages: chatHistory, tree: chatTree }, format);
+            return;
+        }
+
+        let documentNames: string[] = [];
+        if (activeRagStoreName) {
+            try {
+                documentNames = (await backend.listDocuments(activeRagStoreName)).map(doc => doc.displayName);
+            } catch (err) {
+                // The document list is informative only; export the conversation without it.
+                console.error("Impossibile elencare i documenti per l'esportazione", err);
+            }
+        }
+        downloadConversation(createConversationExport(documentName, activeRagStoreName, documentNames, chatTree), format);
+    };
+
+    const handleImportConversation = async (file: File) => {
+        const conversation = parseConversationExport(await file.text());
+        setImportedConversation(conversation);
+        setChatTree(conversation.tree || createChatTree(conversation.messages));
+        setDocumentName(conversation.title);
+        setExampleQuestions([]);
+        setStatus(AppStatus.Chatting);
+    };
+
+    const handleAddDocuments = async (newFiles: File[]) => {
+        if (!activeRagStoreName || chatUploads) return;
+        const ragStoreName = activeRagStoreName;
+        setChatNotice(null);
+        setChatUploads(newFiles.map(file => ({ name: file.name, size: file.size, status: 'queued', attempt: 0 })));
+
+        try {
+            const existingDocuments = await backend.listDocuments(ragStoreName);
+            const checks = await Promise.all(newFiles.map(checkFile));
+            const rejected: string[] = [];
+            const accepted: { file: File, sha256: string }[] = [];
+            newFiles.forEach((file, i) => {
+                const { error, sha256 } = checks[i];
+                const duplicateIssue = sha256 ? findDuplicateIssue(sha256, existingDocuments, accepted.map(other => ({ name: other.file.name, sha256: other.sha256 }))) : null;
+                if (error || !sha256) {
+                    rejected.push(`${file.name}: ${error}`);
+                } else if (duplicateIssue) {
+                    rejected.push(`${file.name}: ${duplicateIssue}`);
+                } else {
+                    accepted.push({ file, sha256 });
+                }
+            });
+
+            const results = await ingestFiles(backend, ragStoreName, accepted.map(entry => entry.file), {
+                contentHashes: accepted.map(entry => entry.sha256),
+                onProgress: setChatUploads,
+            });
+            results.filter(file => file.status !== 'done').forEach(file => rejected.push(`${file.name}: ${file.error || t('app.uploadNotCompleted')}`));
+
+            if (results.some(file => file.status === 'done')) {
+                const documents = await backend.listDocuments(ragStoreName);
+                if (!isPersistentStore) {
+                    setDocumentName(formatDocumentName(documents.map(doc => doc.displayName)));
+                }
+                await loadExampleQuestions(ragStoreName, generationSettings.model);
+            }
+            if (rejected.length > 0) {
+                setChatNotice(t('app.addDocumentsRejected', { count: rejected.length, details: rejected.join('; ') }));
+            }
+        } catch (err) {
+            console.error("Impossibile aggiungere i documenti alla chat", err);
+            setChatNotice(t('app.addDocumentsFailed', { message: classifyError(err).message }));
+        } finally {
+            setChatUploads(null);
+        }
+    };
+
+    // Suggestions are a convenience: when they cannot be generated the chat still opens, with a
+    // notice saying why instead of an empty list that looks like there is nothing to suggest.
+    const loadExampleQuestions = async (ragStoreName: string, model: string) => {
+        try {
+            setExampleQuestions(await backend.generateExampleQuestions(ragStoreName, { model }));
+        } catch (err) {
+            console.error("Impossibile generare le domande di esempio", err);
+            setExampleQuestions([]);
+            const message = t('app.exampleQuestionsFailed', { message: classifyError(err).message });
+            setChatNotice(notice => notice ? `${notice} ${message}` : message);
+        }
+    };
+
+    const handleMoreExampleQuestions = async () => {
+        if (!activeRagStoreName || isLoadingMoreQuestions) return;
+        setIsLoadingMoreQuestions(true);
+        try {
+            const groups = await backend.generateExampleQuestions(activeRagStoreName, {
+                model: generationSettings.model,
+                exclude: exampleQuestions.flatMap(group => group.questions),
+            });
+            if (groups.length > 0) {
+                setExampleQuestions(groups);
+            } else {
+                setChatNotice(t('app.noMoreExampleQuestions'));
+            }
+        } catch (err) {
+            console.error("Impossibile generare altre domande di esempio", err);
+            setChatNotice(classifyError(err).message);
+        } finally {
+            setIsLoadingMoreQuestions(false);
+        }
+    };
+
+    const handleGenerationSettingsChange = (settings: GenerationSettings) => {
+        setGenerationSettings(settings);
+        if (activeRagStoreName) saveGenerationSettings(activeRagStoreName, settings);
+    };
+
+    const handleLanguageChange = (newLanguage: Language) => {
+        setLanguage(newLanguage);
+        setLanguageState(newLanguage);
+    };
+
+    const handlePriceTableChange = (prices: PriceTable) => {
+        setPriceTable(prices);
+        savePriceTable(prices);
+    };
+
+    const handleDailyBudgetChange = (budget: number | null) => {
+        setDailyBudget(budget);
+        saveDailyBudget(budget);
+    };
+
+    // The budget is soft: once today's estimated cost reaches it, each question asks for confirmation.
+    const confirmWithinBudget = (): boolean => {
+        if (dailyBudget === null) return true;
+        const { cost } = summarizeUsage(loadUsageForDay(), priceTable);
+        if (cost < dailyBudget) return true;
+        return window.confirm(t('app.budgetReached', { cost: formatCost(cost), budget: formatCost(dailyBudget) }));
+    };
+
+    /**
+     * Answers the question node `questionId` of `tree`, with the messages before it as context. The
+     * answer becomes a new child of the question, so earlier answers stay reachable as siblings.
+     */
+    const answerQuestion = async (tree: ChatTree, questionId: string) => {
         if (!activeRagStoreName) return;
+        if (backend.requiresApiKey && !confirmWithinBudget()) return;
+        if (!activeConversationId) {
+            setActiveConversationId(conversationStore.createConversationId());
+        }
 
-        const userMessage: ChatMessage = { role: 'user', parts: [{ text: message }] };
-        setChatHistory(prev => [...prev, userMessage]);
+        const path = getActivePath(tree);
+        const questionIndex = path.findIndex(node => node.id === questionId);
+        if (questionIndex === -1) return;
+        const question = path[questionIndex].message;
+        const message = getMessageText(question);
+        const images = getMessageImages(question);
+        const previousHistory = path.slice(0, questionIndex).map(node => node.message);
+
+        // Until its first token the answer is selected but absent, which ends the shown path at the question.
+        const answerId = createChatNodeId();
+        setChatTree(selectChild(tree, questionId, answerId));
         setIsQueryLoading(true);
 
+        const controller = new AbortController();
+        queryAbortControllerRef.current = controller;
+
+        // The model message is added on the first streamed token and replaced in place afterwards.
+        let hasModelMessage = false;
+        let streamedText = '';
+        let modelTimestamp: string | undefined;
+        const upsertModelMessage = (modelMessage: ChatMessage) => {
+            const isUpdate = hasModelMessage;
+            hasModelMessage = true;
+            modelTimestamp ??= new Date().toISOString();
+            const timestamped = { ...modelMessage, timestamp: modelTimestamp };
+            setChatTree(prev => isUpdate
+                ? updateChatMessage(prev, answerId, () => timestamped)
+                : addChatNode(prev, { id: answerId, parentId: questionId, message: timestamped }));
+        };
+
         try {
-            const result = await geminiService.fileSearch(activeRagStoreName, message);
-            const modelMessage: ChatMessage = {
+            const result = await backend.fileSearchStream(
+                activeRagStoreName,
+                message,
+                text => {
+                    streamedText = text;
+                    upsertModelMessage({ role: 'model', parts: [{ text }] });
+                },
+                {
+                    metadataFilter,
+                    history: previousHistory,
+                    images,
+                    context: contextOptions,
+                    generation: generationSettings,
+                    abortSignal: controller.signal,
+                },
+            );
+            upsertModelMessage({
                 role: 'model',
                 parts: [{ text: result.text }],
-                groundingChunks: result.groundingChunks
-            };
-            setChatHistory(prev => [...prev, modelMessage]);
+                groundingChunks: result.groundingChunks,
+                groundingSupports: result.groundingSupports,
+                usage: result.usage,
+                model: result.model,
+            });
         } catch (err) {
-            const errorMessage: ChatMessage = {
+            if (controller.signal.aborted) {
+                upsertModelMessage({ role: 'model', parts: [{ text: streamedText }], interrupted: true });
+                return;
+            }
+            console.error("Impossibile ottenere una risposta", err);
+            const error = classifyError(err);
+            if (error.kind === 'notFound') setIsStoreMissing(true);
+            if (error.kind === 'auth') {
+                // The key is replaced from the failed answer; the welcome screen shows why if the chat is left.
+                setApiKeyError(error.message);
+                if (isAistudioAvailable) setIsAistudioKeySelected(false);
+            }
+            upsertModelMessage({
                 role: 'model',
-                parts: [{ text: "Spiacente, ho riscontrato un errore. Riprova." }]
-            };
-            setChatHistory(prev => [...prev, errorMessage]);
-            handleError("Impossibile ottenere una risposta", err);
+                parts: [{ text: streamedText }],
+                error: { kind: error.kind, message: error.message },
+            });
         } finally {
+            queryAbortControllerRef.current = null;
             setIsQueryLoading(false);
         }
     };
+
+    /** Asks `message` as a new child of `parentId`; an edited question is asked under the original's parent. */
+    const askQuestion = (message: string, parentId: string | null, images: ImagePart[] = []) => {
+        const questionId = createChatNodeId();
+        const userMessage: ChatMessage = { role: 'user', parts: [{ text: message }, ...images], timestamp: new Date().toISOString() };
+        answerQuestion(addChatNode(chatTree, { id: questionId, parentId, message: userMessage }), questionId);
+    };
+
+    const handleSendMessage = (message: string, images?: ImagePart[]) => askQuestion(message, chatNodes[chatNodes.length - 1]?.id ?? null, images);
+
+    const handleEditMessage = (messageIndex: number, message: string) => {
+        const node = chatNodes[messageIndex];
+        if (node?.message.role !== 'user') return;
+        // The photos of the original question go with the edited text.
+        askQuestion(message, node.parentId, getMessageImages(node.message));
+    };
+
+    const handleRegenerateAnswer = (messageIndex: number) => {
+        const node = chatNodes[messageIndex];
+        if (node?.message.role !== 'model' || !node.parentId) return;
+        answerQuestion(chatTree, node.parentId);
+    };
+
+    const handleRetryLastMessage = () => handleRegenerateAnswer(chatNodes.length - 1);
+
+    const handleReplaceApiKey = async (newApiKey?: string) => {
+        if (isAistudioAvailable) {
+            await handleSelectKey();
+        } else if (newApiKey) {
+            setApiKey(newApiKey);
+        } else {
+            return;
+        }
+        try {
+            backend.initialize(isAistudioAvailable ? undefined : newApiKey);
+        } catch (err) {
+            console.error("Impossibile inizializzare il backend con la nuova chiave API", err);
+            setChatNotice(classifyError(err).message);
+            return;
+        }
+        setApiKeyError(null);
+        handleRetryLastMessage();
+    };
+
+    const handleSwitchBranch = (messageIndex: number, offset: number) => {
+        const node = chatNodes[messageIndex];
+        if (node) setChatTree(prev => selectSibling(prev, node.id, offset));
+    };
+
+    // The rating is kept on the message, so it shows again when the conversation is reopened, and
+    // copied to the feedback log together with the question and sources it refers to.
+    const handleAnswerFeedback = (messageIndex: number, feedback: Omit<MessageFeedback, 'id'>) => {
+        const node = chatNodes[messageIndex];
+        const answer = node?.message;
+        if (!activeRagStoreName || answer?.role !== 'model') return;
+        const question = chatHistory.slice(0, messageIndex).reverse().find(message => message.role === 'user');
+        const rated: MessageFeedback = { ...feedback, id: answer.feedback?.id || feedbackStore.createFeedbackId() };
+        setChatTree(prev => updateChatMessage(prev, node.id, message => ({ ...message, feedback: rated })));
+        feedbackStore.saveFeedback({
+            ...rated,
+            storeName: activeRagStoreName,
+            conversationId: activeConversationId,
+            question: question ? getMessageText(question) : '',
+            answer: getMessageText(answer),
+            groundingChunks: answer.groundingChunks || [],
+            model: answer.model,
+        }).catch(err => {
+            console.error("Impossibile salvare il feedback", err);
+            setChatNotice(t('app.saveFeedbackFailed'));
+        });
+    };
+
+    const handleStopGeneration = () => {
+        queryAbortControllerRef.current?.abort();
+    };
     
     const renderContent = () => {
         switch(status) {
             case AppStatus.Initializing:
                 return (
                     <div className="flex items-center justify-center h-full">
-                        <Spinner /> <span className="ml-4 text-xl">Inizializzazione...</span>
+                        <Spinner /> <span className="ml-4 text-xl">{t('app.initializing')}</span>
                     </div>
                 );
             case AppStatus.Welcome:
@@ -305,49 +1148,150 @@ const App: React.FC = () => {
                     apiKeyError={apiKeyError} 
                     files={files} 
                     setFiles={setFiles} 
-                    isApiKeySelected={isApiKeyConfigured} 
+                    isApiKeySelected={isBackendReady} 
                     onSelectKey={handleSelectKey} 
                     isAistudioAvailable={isAistudioAvailable}
                     apiKey={apiKey}
                     setApiKey={setApiKey}
+                    onOpenLibrary={handleOpenLibrary}
+                    backendKind={backendKind}
+                    setBackendKind={setBackendKind}
+                    onImportConversation={handleImportConversation}
+                    pendingIngestion={pendingIngestion}
+                    onResumeIngestion={handleResumeIngestion}
+                    onDiscardIngestion={handleDiscardIngestion}
+                    onOpenFeedback={handleOpenFeedback}
+                />;
+            case AppStatus.Library:
+                return <LibraryScreen
+                    stores={ragStores}
+                    selectedStore={selectedStore}
+                    documents={documents}
+                    isStoresLoading={isStoresLoading}
+                    isDocumentsLoading={isDocumentsLoading}
+                    processingFile={processingFile}
+                    onCreateStore={handleCreateStore}
+                    onSelectStore={handleSelectStore}
+                    onDeleteStore={handleDeleteStore}
+                    onRefreshStores={loadRagStores}
+                    onUploadDocument={handleUploadDocument}
+                    onDeleteDocument={handleDeleteDocument}
+                    onStartChat={handleStartLibraryChat}
+                    onOpenMaintenance={handleOpenMaintenance}
+                    onOpenEvaluation={() => setStatus(AppStatus.Evaluation)}
+                    onBack={handleCloseLibrary}
+                />;
+            case AppStatus.Maintenance:
+                return <MaintenanceScreen
+                    stores={sessionStores}
+                    isLoading={isSessionStoresLoading}
+                    protectedStoreNames={sessionStoreProtectedNames}
+                    ttlHours={sessionStoreTtlHours}
+                    onTtlHoursChange={handleSessionStoreTtlHoursChange}
+                    onDeleteStores={handleDeleteSessionStores}
+                    onRefresh={loadSessionStores}
+                    onBack={handleCloseMaintenance}
+                />;
+            case AppStatus.Feedback:
+                return <FeedbackScreen
+                    entries={feedbackEntries}
+                    isLoading={isFeedbackLoading}
+                    onDelete={handleDeleteFeedback}
+                    onRefresh={loadFeedback}
+                    onBack={handleCloseFeedback}
+                />;
+            case AppStatus.Evaluation:
+                if (!selectedStore) return null;
+                return <EvaluationScreen
+                    store={selectedStore}
+                    onRun={handleRunEvaluation}
+                    onBack={() => setStatus(AppStatus.Library)}
                 />;
             case AppStatus.Uploading:
                 let icon = null;
-                if (uploadProgress?.message === "Creazione dell'indice del documento...") {
+                if (uploadProgress?.messageKey === 'progress.creatingIndex') {
                     icon = <img src="https://services.google.com/fh/files/misc/applet-upload.png" alt="Uploading files icon" className="h-80 w-80 rounded-lg object-cover" />;
-                } else if (uploadProgress?.message === "Generazione degli incorporamenti...") {
+                } else if (uploadProgress?.messageKey === 'progress.generatingEmbeddings') {
                     icon = <img src="https://services.google.com/fh/files/misc/applet-creating-embeddings_2.png" alt="Creating embeddings icon" className="h-240 w-240 rounded-lg object-cover" />;
-                } else if (uploadProgress?.message === "Generazione di suggerimenti...") {
+                } else if (uploadProgress?.messageKey === 'progress.generatingSuggestions') {
                     icon = <img src="https://services.google.com/fh/files/misc/applet-suggestions_2.png" alt="Generating suggestions icon" className="h-240 w-240 rounded-lg object-cover" />;
-                } else if (uploadProgress?.message === "Tutto pronto!") {
+                } else if (uploadProgress?.messageKey === 'progress.allSet') {
                     icon = <img src="https://services.google.com/fh/files/misc/applet-completion_2.png" alt="Completion icon" className="h-240 w-240 rounded-lg object-cover" />;
                 }
 
                 return <ProgressBar 
                     progress={uploadProgress?.current || 0} 
                     total={uploadProgress?.total || 1} 
-                    message={uploadProgress?.message || "Preparazione della tua chat..."} 
+                    message={t(uploadProgress?.messageKey || 'progress.preparingChat')} 
                     fileName={uploadProgress?.fileName}
                     icon={icon}
+                    files={ingestionFiles || undefined}
+                    onCancel={ingestionFiles ? handleCancelUpload : undefined}
                 />;
             case AppStatus.Chatting:
-                return <ChatInterface 
-                    documentName={documentName}
-                    history={chatHistory}
-                    isQueryLoading={isQueryLoading}
-                    onSendMessage={handleSendMessage}
-                    onNewChat={handleEndChat}
-                    exampleQuestions={exampleQuestions}
-                    onClearChat={handleClearChat}
-                    onDownloadChat={handleDownloadChat}
-                />;
+                return (
+                    <div className="flex flex-grow min-h-0">
+                        {!importedConversation && (
+                            <ConversationSidebar
+                                conversations={conversations}
+                                activeConversationId={activeConversationId}
+                                isBusy={isQueryLoading}
+                                onSelect={handleSelectConversation}
+                                onNew={startNewConversation}
+                                onRename={handleRenameConversation}
+                                onDelete={handleDeleteConversation}
+                            />
+                        )}
+                        <div className="flex-grow flex flex-col min-w-0">
+                            <ChatInterface
+                                documentName={documentName}
+                                history={chatHistory}
+                                branches={chatBranches}
+                                onSwitchBranch={handleSwitchBranch}
+                                onEditMessage={handleEditMessage}
+                                onRegenerateAnswer={handleRegenerateAnswer}
+                                isQueryLoading={isQueryLoading}
+                                onSendMessage={handleSendMessage}
+                                canAttachImages={backend.supportsImages}
+                                onStopGeneration={handleStopGeneration}
+                                onNewChat={handleEndChat}
+                                exampleQuestions={exampleQuestions}
+                                onMoreExampleQuestions={handleMoreExampleQuestions}
+                                isLoadingMoreQuestions={isLoadingMoreQuestions}
+                                onClearChat={handleClearChat}
+                                onDownloadChat={handleDownloadChat}
+                                isReadOnly={!!importedConversation || isStoreMissing}
+                                readOnlyReason={isStoreMissing ? t('app.storeMissing') : undefined}
+                                metadataFilter={metadataFilter}
+                                onMetadataFilterChange={setMetadataFilter}
+                                contextOptions={contextOptions}
+                                onContextOptionsChange={setContextOptions}
+                                onAddDocuments={handleAddDocuments}
+                                documentUploads={chatUploads}
+                                notice={chatNotice}
+                                onDismissNotice={() => setChatNotice(null)}
+                                onRetryMessage={handleRetryLastMessage}
+                                onReplaceApiKey={handleReplaceApiKey}
+                                isAistudioAvailable={isAistudioAvailable}
+                                onAnswerFeedback={handleAnswerFeedback}
+                                dailyUsage={dailyUsage}
+                                prices={priceTable}
+                                onPricesChange={handlePriceTableChange}
+                                dailyBudget={dailyBudget}
+                                onDailyBudgetChange={handleDailyBudgetChange}
+                                generationSettings={backend.kind === 'gemini' ? generationSettings : undefined}
+                                onGenerationSettingsChange={handleGenerationSettingsChange}
+                            />
+                        </div>
+                    </div>
+                );
             case AppStatus.Error:
                  return (
                     <div className="flex flex-col items-center justify-center h-full bg-red-900/50 text-red-300">
-                        <h1 className="text-3xl font-bold mb-4">Errore dell'applicazione</h1>
+                        <h1 className="text-3xl font-bold mb-4">{t('app.errorTitle')}</h1>
                         <p className="max-w-md text-center mb-4">{error}</p>
-                        <button onClick={clearError} className="px-4 py-2 rounded-md bg-hitech-surface hover:bg-hitech-surface-hover transition-colors" title="Return to the welcome screen">
-                           Riprova
+                        <button onClick={clearError} className="px-4 py-2 rounded-md bg-hitech-surface hover:bg-hitech-surface-hover transition-colors" title={t('app.errorRetryTitle')}>
+                           {t('app.errorRetry')}
                         </button>
                     </div>
                 );
@@ -357,11 +1301,19 @@ const App: React.FC = () => {
                     apiKeyError={apiKeyError} 
                     files={files} 
                     setFiles={setFiles} 
-                    isApiKeySelected={isApiKeyConfigured} 
+                    isApiKeySelected={isBackendReady} 
                     onSelectKey={handleSelectKey} 
                     isAistudioAvailable={isAistudioAvailable}
                     apiKey={apiKey}
                     setApiKey={setApiKey}
+                    onOpenLibrary={handleOpenLibrary}
+                    backendKind={backendKind}
+                    setBackendKind={setBackendKind}
+                    onImportConversation={handleImportConversation}
+                    pendingIngestion={pendingIngestion}
+                    onResumeIngestion={handleResumeIngestion}
+                    onDiscardIngestion={handleDiscardIngestion}
+                    onOpenFeedback={handleOpenFeedback}
                 />;
         }
     }
@@ -371,8 +1323,16 @@ const App: React.FC = () => {
             <main className="flex-grow flex flex-col">
                 {renderContent()}
             </main>
-            <footer className="text-center p-4 text-sm text-hitech-text-secondary border-t border-hitech-border">
+            <footer className="flex items-center justify-center gap-4 p-4 text-sm text-hitech-text-secondary border-t border-hitech-border">
                 <a href="https://www.theround.it" target="_blank" rel="noopener noreferrer" className="hover:text-hitech-accent-hover transition-colors">©2025 THE ROUND</a>
+                <select
+                    value={language}
+                    onChange={(e) => handleLanguageChange(e.target.value as Language)}
+                    className="bg-hitech-surface border border-hitech-border rounded-md py-1 px-2 focus:outline-none focus:ring-2 focus:ring-hitech-accent text-hitech-text-primary"
+                    aria-label={t('app.language')}
+                >
+                    {LANGUAGES.map(({ code, label }) => <option key={code} value={code}>{label}</option>)}
+                </select>
             </footer>
         </div>
     );
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { AnswerRating, MessageFeedback } from '../types';
+import ThumbUpIcon from './icons/ThumbUpIcon';
+import ThumbDownIcon from './icons/ThumbDownIcon';
+import { t } from '../utils/i18n';
+
+interface AnswerFeedbackProps {
+    feedback?: MessageFeedback;
+    onChange: (feedback: Omit<MessageFeedback, 'id'>) => void;
+}
+
+const AnswerFeedback: React.FC<AnswerFeedbackProps> = ({ feedback, onChange }) => {
+    const [isDetailsOpen, setIsDetailsOpen] = useState(false);
+    const [comment, setComment] = useState(feedback?.comment || '');
+    const [wrongSource, setWrongSource] = useState(!!feedback?.wrongSource);
+
+    // The rating is saved straight away; comment and source flag are an optional second step.
+    const handleRate = (rating: AnswerRating) => {
+        onChange({ rating, comment: feedback?.comment, wrongSource: feedback?.wrongSource });
+        setIsDetailsOpen(true);
+    };
+
+    const handleSaveDetails = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!feedback) return;
+        onChange({ rating: feedback.rating, comment: comment.trim() || undefined, wrongSource });
+        setIsDetailsOpen(false);
+    };
+
+    const ratingButtonClassName = (rating: AnswerRating) => `p-1 rounded-full transition-colors ${
+        feedback?.rating === rating
+            ? 'text-hitech-accent'
+            : 'text-hitech-text-secondary hover:text-hitech-text-primary'
+    }`;
+
+    return (
+        <div className="mt-2 text-xs text-hitech-text-secondary">
+            <div className="flex items-center space-x-1">
+                <button
+                    onClick={() => handleRate('up')}
+                    className={ratingButtonClassName('up')}
+                    aria-label={t('feedback.rateUp')}
+                    aria-pressed={feedback?.rating === 'up'}
+                    title={t('feedback.rateUp')}
+                >
+                    <ThumbUpIcon />
+                </button>
+                <button
+                    onClick={() => handleRate('down')}
+                    className={ratingButtonClassName('down')}
+                    aria-label={t('feedback.rateDown')}
+                    aria-pressed={feedback?.rating === 'down'}
+                    title={t('feedback.rateDown')}
+                >
+                    <ThumbDownIcon />
+                </button>
+                {feedback && !isDetailsOpen && (
+                    <button onClick={() => setIsDetailsOpen(true)} className="ml-1 hover:text-hitech-text-primary transition-colors">
+                        {feedback.comment || feedback.wrongSource ? t('feedback.editDetails') : t('feedback.addDetails')}
+                    </button>
+                )}
+            </div>
+            {isDetailsOpen && feedback && (
+                <form onSubmit={handleSaveDetails} className="mt-2 space-y-2">
+                    <textarea
+                        value={comment}
+                        onChange={(e) => setComment(e.target.value)}
+                        rows={2}
+                        placeholder={t('feedback.commentPlaceholder')}
+                        className="w-full resize-y bg-hitech-dark border border-hitech-border rounded-md py-1 px-2 text-hitech-text-primary focus:outline-none focus:ring-2 focus:ring-hitech-accent"
+                        aria-label={t('feedback.comment')}
+                    />
+                    <div className="flex items-center justify-between gap-3">
+                        <label className="flex items-center space-x-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={wrongSource}
+                                onChange={(e) => setWrongSource(e.target.checked)}
+                                className="accent-hitech-accent"
+                            />
+                            <span title={t('feedback.wrongSourceTitle')}>{t('feedback.wrongSource')}</span>
+                        </label>
+                        <div className="flex space-x-2">
+                            <button type="button" onClick={() => setIsDetailsOpen(false)} className="px-3 py-1 rounded-full hover:text-hitech-text-primary transition-colors">
+                                {t('feedback.close')}
+                            </button>
+                            <button type="submit" className="px-3 py-1 rounded-full bg-hitech-surface-hover hover:bg-hitech-border text-hitech-text-primary transition-colors">
+                                {t('feedback.save')}
+                            </button>
+                        </div>
+                    </div>
+                </form>
+            )}
+        </div>
+    );
+};
+
+export default AnswerFeedback;
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { canvasToBlob } from '../utils/images';
+import { t } from '../utils/i18n';
+import Spinner from './Spinner';
+
+interface CameraCaptureProps {
+    onCapture: (photo: Blob) => void;
+    onClose: () => void;
+    // Replaces "Cancel" when the parent keeps the camera open for several photos.
+    closeLabel?: string;
+}
+
+// Shows the rear camera, when there is one, and takes a photo of the full frame.
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose, closeLabel }) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const [isReady, setIsReady] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let stream: MediaStream | null = null;
+        let isCancelled = false;
+        if (!navigator.mediaDevices?.getUserMedia) {
+            setError(t('camera.unsupported'));
+            return;
+        }
+        navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false })
+            .then(mediaStream => {
+                if (isCancelled) {
+                    mediaStream.getTracks().forEach(track => track.stop());
+                    return;
+                }
+                stream = mediaStream;
+                if (videoRef.current) videoRef.current.srcObject = mediaStream;
+            })
+            .catch(err => {
+                console.error("Impossibile accedere alla fotocamera", err);
+                setError(err?.name === 'NotAllowedError' ? t('camera.denied') : t('camera.unavailable'));
+            });
+        return () => {
+            isCancelled = true;
+            stream?.getTracks().forEach(track => track.stop());
+        };
+    }, []);
+
+    const handleCapture = async () => {
+        const video = videoRef.current;
+        if (!video || !video.videoWidth) return;
+        const canvas = document.createElement('canvas');
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        canvas.getContext('2d')!.drawImage(video, 0, 0);
+        onCapture(await canvasToBlob(canvas, 'image/jpeg', 0.92));
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4"
+            onClick={onClose}
+            role="dialog"
+            aria-modal="true"
+            aria-label={t('camera.title')}
+        >
+            <div className="bg-hitech-surface p-4 rounded-lg shadow-xl w-full max-w-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+                {error ? (
+                    <p className="py-12 text-center text-red-300" role="alert">{error}</p>
+                ) : (
+                    <div className="relative bg-black rounded-md overflow-hidden flex items-center justify-center min-h-[12rem]">
+                        <video
+                            ref={videoRef}
+                            autoPlay
+                            playsInline
+                            muted
+                            onLoadedMetadata={() => setIsReady(true)}
+                            className="w-full max-h-[70vh] object-contain"
+                        />
+                        {!isReady && <div className="absolute"><Spinner /></div>}
+                    </div>
+                )}
+                <div className="flex justify-end space-x-3 mt-4">
+                    <button onClick={onClose} className="px-6 py-2 rounded-md bg-hitech-surface-hover hover:bg-hitech-border transition-colors">
+                        {closeLabel || t('camera.cancel')}
+                    </button>
+                    <button
+                        onClick={handleCapture}
+                        disabled={!isReady || !!error}
+                        className="px-6 py-2 rounded-md bg-hitech-accent hover:bg-hitech-accent-hover text-hitech-dark font-semibold transition-colors disabled:bg-hitech-border disabled:cursor-not-allowed"
+                    >
+                        {t('camera.capture')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CameraCapture;
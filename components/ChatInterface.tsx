@@ -3,103 +3,187 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState, useEffect, useRef } from 'react';
-import { ChatMessage } from '../types';
+import { ChatMessage, ImagePart, ConversationContextOptions, ConversationExportFormat, IngestionFileProgress, RagErrorKind, GenerationSettings, ExampleQuestionGroup, MessageFeedback } from '../types';
+import { insertCitationMarkers } from '../utils/citations';
+import { renderMarkdown, escapeHtml } from '../utils/markdown';
+import { groupSourcesByDocument, getSourceTitle, getSourceLocation } from '../utils/sources';
 import TypingIndicator from './TypingIndicator';
 import SendIcon from './icons/SendIcon';
 import RefreshIcon from './icons/RefreshIcon';
 import ClearChatIcon from './icons/ClearChatIcon';
 import DownloadChatIcon from './icons/DownloadChatIcon';
+import FilterIcon from './icons/FilterIcon';
+import StopIcon from './icons/StopIcon';
+import UploadIcon from './icons/UploadIcon';
+import CameraIcon from './icons/CameraIcon';
+import MetadataFilterBuilder from './MetadataFilterBuilder';
+import ContextOptionsPanel from './ContextOptionsPanel';
+import { INGESTION_STATUS_LABELS } from './ProgressBar';
+import UsagePanel from './UsagePanel';
+import GenerationSettingsPanel from './GenerationSettingsPanel';
+import AnswerFeedback from './AnswerFeedback';
+import CameraCapture from './CameraCapture';
+import { DailyUsage, PriceTable, usageOfMessages, summarizeUsage, totalTokens, estimateCost, formatCost } from '../services/usageTracker';
+import { ACCEPTED_FILE_TYPES } from '../utils/fileValidation';
+import { MessageBranch } from '../utils/chatTree';
+import { getMessageText, getMessageImages, toDataUrl } from '../utils/messageParts';
+import { imageToPart } from '../utils/images';
+import { t } from '../utils/i18n';
 
 interface ChatInterfaceProps {
     documentName: string;
     history: ChatMessage[];
+    /** Position of each message of `history` among its versions. */
+    branches?: MessageBranch[];
+    onSwitchBranch?: (messageIndex: number, offset: number) => void;
+    /** Asks an edited version of the question at `messageIndex`; the original stays as a branch. */
+    onEditMessage?: (messageIndex: number, message: string) => void;
+    /** Asks for a new answer in place of the one at `messageIndex`; the old one stays as a branch. */
+    onRegenerateAnswer?: (messageIndex: number) => void;
     isQueryLoading: boolean;
-    onSendMessage: (message: string) => void;
+    onSendMessage: (message: string, images?: ImagePart[]) => void;
+    /** Whether photos can be attached to questions; the local backend cannot read them. */
+    canAttachImages?: boolean;
+    onStopGeneration: () => void;
     onNewChat: () => void;
-    exampleQuestions: string[];
+    exampleQuestions: ExampleQuestionGroup[];
+    /** Replaces the suggestions with new ones, different from those shown. */
+    onMoreExampleQuestions?: () => void;
+    isLoadingMoreQuestions?: boolean;
     onClearChat: () => void;
-    onDownloadChat: () => void;
+    onDownloadChat: (format: ConversationExportFormat) => void;
+    metadataFilter: string;
+    onMetadataFilterChange: (filter: string) => void;
+    contextOptions: ConversationContextOptions;
+    onContextOptionsChange: (options: ConversationContextOptions) => void;
+    /** Imported conversations can be read and exported again, but not continued. */
+    isReadOnly?: boolean;
+    readOnlyReason?: string;
+    onAddDocuments?: (files: File[]) => void;
+    // Progress of documents being added to the session; null when none are.
+    documentUploads?: IngestionFileProgress[] | null;
+    notice?: string | null;
+    onDismissNotice?: () => void;
+    /** Asks the last question again after its answer failed. */
+    onRetryMessage?: () => void;
+    /** Replaces a rejected API key and asks the last question again; no key is passed when AI Studio selects it. */
+    onReplaceApiKey?: (apiKey?: string) => void;
+    isAistudioAvailable?: boolean;
+    /** Rates the model answer at `messageIndex` in `history`. */
+    onAnswerFeedback?: (messageIndex: number, feedback: Omit<MessageFeedback, 'id'>) => void;
+    dailyUsage: DailyUsage;
+    prices: PriceTable;
+    onPricesChange: (prices: PriceTable) => void;
+    dailyBudget: number | null;
+    onDailyBudgetChange: (budget: number | null) => void;
+    // Omitted for backends that do not call a model.
+    generationSettings?: GenerationSettings;
+    onGenerationSettingsChange?: (settings: GenerationSettings) => void;
 }
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ documentName, history, isQueryLoading, onSendMessage, onNewChat, exampleQuestions, onClearChat, onDownloadChat }) => {
+const MAX_ATTACHED_IMAGES = 3;
+
+// Retrying cannot help when the answer was blocked or the API key was rejected; a rejected key is
+// replaced from the failed answer instead, which then retries.
+const NON_RETRYABLE_ERRORS: RagErrorKind[] = ['safety', 'auth'];
+
+const EXPORT_FORMATS: { format: ConversationExportFormat, label: string }[] = [
+    { format: 'markdown', label: 'Markdown (.md)' },
+    { format: 'html', label: 'HTML (.html)' },
+    { format: 'json', label: 'JSON (.json)' },
+];
+
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ documentName, history, branches, onSwitchBranch, onEditMessage, onRegenerateAnswer, isQueryLoading, onSendMessage, canAttachImages = false, onStopGeneration, onNewChat, exampleQuestions, onMoreExampleQuestions, isLoadingMoreQuestions = false, onClearChat, onDownloadChat, metadataFilter, onMetadataFilterChange, contextOptions, onContextOptionsChange, isReadOnly = false, readOnlyReason, onAddDocuments, documentUploads, notice, onDismissNotice, onRetryMessage, onReplaceApiKey, isAistudioAvailable = false, onAnswerFeedback, dailyUsage, prices, onPricesChange, dailyBudget, onDailyBudgetChange, generationSettings, onGenerationSettingsChange }) => {
     const [query, setQuery] = useState('');
-    const [modalContent, setModalContent] = useState<string | null>(null);
+    const [isFilterOpen, setIsFilterOpen] = useState(false);
+    const [isContextOptionsOpen, setIsContextOptionsOpen] = useState(false);
+    const [isUsageOpen, setIsUsageOpen] = useState(false);
+    const [isGenerationSettingsOpen, setIsGenerationSettingsOpen] = useState(false);
+    const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+    const [modalContent, setModalContent] = useState<{ index: number, text: string, title: string, location?: string } | null>(null);
+    const [editing, setEditing] = useState<{ index: number, text: string } | null>(null);
+    const [attachedImages, setAttachedImages] = useState<ImagePart[]>([]);
+    const [isAttachMenuOpen, setIsAttachMenuOpen] = useState(false);
+    const [isCameraOpen, setIsCameraOpen] = useState(false);
+    const [imageError, setImageError] = useState<string | null>(null);
+    const [replacementKey, setReplacementKey] = useState('');
     const chatEndRef = useRef<HTMLDivElement>(null);
     
-    const renderMarkdown = (text: string) => {
-        if (!text) return { __html: '' };
-
-        const lines = text.split('\n');
-        let html = '';
-        let listType: 'ul' | 'ol' | null = null;
-        let paraBuffer = '';
-
-        function flushPara() {
-            if (paraBuffer) {
-                html += `<p class="my-2">${paraBuffer}</p>`;
-                paraBuffer = '';
-            }
-        }
+    const renderCitation = (chunkIndices: number[]) => chunkIndices.map(index =>
+        `<sup><button type="button" data-chunk-index="${index}" class="mx-0.5 px-1 rounded bg-hitech-accent/20 text-hitech-accent-hover hover:bg-hitech-accent/40 font-semibold" title="${escapeHtml(t('chat.openSource', { index: index + 1 }))}">${index + 1}</button></sup>`
+    ).join('');
 
-        function flushList() {
-            if (listType) {
-                html += `</${listType}>`;
-                listType = null;
-            }
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (query.trim()) {
+            onSendMessage(query, attachedImages);
+            setQuery('');
+            setAttachedImages([]);
         }
+    };
 
-        for (const rawLine of lines) {
-            const line = rawLine
-                .replace(/\*\*(.*?)\*\*|__(.*?)__/g, '<strong>$1$2</strong>')
-                .replace(/\*(.*?)\*|_(.*?)_/g, '<em>$1$2</em>')
-                .replace(/`([^`]+)`/g, '<code class="bg-hitech-surface/50 px-1 py-0.5 rounded-sm font-mono text-sm">$1</code>');
-
-            const isOl = line.match(/^\s*\d+\.\s(.*)/);
-            const isUl = line.match(/^\s*[\*\-]\s(.*)/);
-
-            if (isOl) {
-                flushPara();
-                if (listType !== 'ol') {
-                    flushList();
-                    html += '<ol class="list-decimal list-inside my-2 pl-5 space-y-1">';
-                    listType = 'ol';
-                }
-                html += `<li>${isOl[1]}</li>`;
-            } else if (isUl) {
-                flushPara();
-                if (listType !== 'ul') {
-                    flushList();
-                    html += '<ul class="list-disc list-inside my-2 pl-5 space-y-1">';
-                    listType = 'ul';
-                }
-                html += `<li>${isUl[1]}</li>`;
-            } else {
-                flushList();
-                if (line.trim() === '') {
-                    flushPara();
-                } else {
-                    paraBuffer += (paraBuffer ? '<br/>' : '') + line;
-                }
-            }
+    const handleAttachImages = async (photos: Blob[]) => {
+        setImageError(null);
+        const room = MAX_ATTACHED_IMAGES - attachedImages.length;
+        if (photos.length > room) setImageError(t('chat.tooManyImages', { max: MAX_ATTACHED_IMAGES }));
+        try {
+            const images = await Promise.all(photos.slice(0, Math.max(room, 0)).map(imageToPart));
+            setAttachedImages(prev => [...prev, ...images].slice(0, MAX_ATTACHED_IMAGES));
+        } catch (err) {
+            setImageError(err instanceof Error ? err.message : String(err));
         }
+    };
 
-        flushPara();
-        flushList();
-
-        return { __html: html };
+    const handleImageFilesChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from<File>(e.target.files || []);
+        e.target.value = '';
+        setIsAttachMenuOpen(false);
+        if (files.length > 0) handleAttachImages(files);
     };
 
+    const handleCameraCapture = (photo: Blob) => {
+        setIsCameraOpen(false);
+        handleAttachImages([photo]);
+    };
 
-    const handleSubmit = (e: React.FormEvent) => {
+    const handleEditSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        if (query.trim()) {
-            onSendMessage(query);
-            setQuery('');
+        if (editing && editing.text.trim()) {
+            onEditMessage?.(editing.index, editing.text);
+            setEditing(null);
+        }
+    };
+
+    const handleSwitchBranch = (index: number, offset: number) => {
+        setEditing(null);
+        onSwitchBranch?.(index, offset);
+    };
+
+    const handleSourceClick = (message: ChatMessage, index: number) => {
+        const chunk = message.groundingChunks?.[index];
+        const text = chunk?.retrievedContext?.text;
+        if (chunk && text) {
+            setModalContent({ index, text, title: getSourceTitle(chunk), location: getSourceLocation(chunk) });
+        }
+    };
+
+    // Citations are rendered as HTML, so their clicks are picked up by delegation on the bubble.
+    const handleCitationClick = (message: ChatMessage, e: React.MouseEvent<HTMLDivElement>) => {
+        const citation = (e.target as HTMLElement).closest<HTMLElement>('[data-chunk-index]');
+        if (citation) {
+            handleSourceClick(message, Number(citation.dataset.chunkIndex));
         }
     };
 
-    const handleSourceClick = (text: string) => {
-        setModalContent(text);
+    const handleAddDocumentsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        e.target.value = '';
+        if (files.length > 0) onAddDocuments?.(files);
+    };
+
+    const handleExport = (format: ConversationExportFormat) => {
+        setIsExportMenuOpen(false);
+        onDownloadChat(format);
     };
 
     const closeModal = () => {
@@ -110,70 +194,337 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ documentName, history, is
         chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [history, isQueryLoading]);
 
+    const conversationUsage = usageOfMessages(history);
+    const conversationSummary = summarizeUsage(conversationUsage, prices);
+    const todaySummary = summarizeUsage(dailyUsage, prices);
+    const messageCost = (message: ChatMessage) => message.usage && message.model ? estimateCost(message.usage, message.model, prices) : null;
+
+    // While streaming, the last model message is the in-progress answer.
+    const isStreaming = isQueryLoading && history.length > 0 && history[history.length - 1].role === 'model';
+
+    const renderMessageActions = (message: ChatMessage, index: number) => {
+        const branch = branches?.[index];
+        const hasBranches = !!branch && branch.count > 1 && !!onSwitchBranch;
+        const canEdit = message.role === 'user' && !!onEditMessage && !isReadOnly && editing?.index !== index;
+        const canRegenerate = message.role === 'model' && !!onRegenerateAnswer && !isReadOnly && !(isQueryLoading && index === history.length - 1);
+        if (!hasBranches && !canEdit && !canRegenerate) return null;
+        const actionClassName = "px-1 hover:text-hitech-text-primary transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+        return (
+            <div className="mt-1 flex items-center space-x-2 text-xs text-hitech-text-secondary">
+                {hasBranches && (
+                    <span className="flex items-center">
+                        <button
+                            onClick={() => handleSwitchBranch(index, -1)}
+                            disabled={isQueryLoading || branch.index === 0}
+                            className={actionClassName}
+                            aria-label={t('chat.previousVersion')}
+                            title={t('chat.previousVersion')}
+                        >
+                            ‹
+                        </button>
+                        <span title={t('chat.versionTitle', { index: branch.index + 1, count: branch.count })}>{branch.index + 1}/{branch.count}</span>
+                        <button
+                            onClick={() => handleSwitchBranch(index, 1)}
+                            disabled={isQueryLoading || branch.index === branch.count - 1}
+                            className={actionClassName}
+                            aria-label={t('chat.nextVersion')}
+                            title={t('chat.nextVersion')}
+                        >
+                            ›
+                        </button>
+                    </span>
+                )}
+                {canEdit && (
+                    <button onClick={() => setEditing({ index, text: getMessageText(message) })} disabled={isQueryLoading} className={actionClassName} title={t('chat.editTitle')}>
+                        {t('chat.edit')}
+                    </button>
+                )}
+                {canRegenerate && (
+                    <button onClick={() => onRegenerateAnswer!(index)} disabled={isQueryLoading} className={actionClassName} title={t('chat.regenerateTitle')}>
+                        {t('chat.regenerate')}
+                    </button>
+                )}
+            </div>
+        );
+    };
+
     return (
         <div className="flex flex-col h-full relative">
-            <header className="absolute top-0 left-0 right-0 p-4 bg-hitech-dark/80 backdrop-blur-sm z-10 flex justify-between items-center border-b border-hitech-border">
+            <header className="absolute top-0 left-0 right-0 p-4 bg-hitech-dark/80 backdrop-blur-sm z-10 flex flex-col border-b border-hitech-border">
                 <div className="w-full max-w-4xl mx-auto flex justify-between items-center px-4">
-                    <h1 className="text-2xl font-bold text-hitech-text-primary truncate" title="Chatta con i tuoi documenti">Chatta con i tuoi documenti</h1>
+                    <h1 className="text-2xl font-bold text-hitech-text-primary truncate" title={t('chat.title')}>{t('chat.title')}</h1>
                     <div className="flex items-center space-x-2 flex-shrink-0">
+                        {!isReadOnly && (
                         <button
-                            onClick={onDownloadChat}
-                            className="flex items-center px-4 py-2 bg-hitech-surface hover:bg-hitech-surface-hover rounded-full text-hitech-text-primary font-semibold transition-colors"
-                            title="Scarica conversazione"
+                            onClick={() => setIsFilterOpen(open => !open)}
+                            className={`flex items-center px-4 py-2 rounded-full font-semibold transition-colors ${
+                                metadataFilter
+                                ? 'bg-hitech-accent/20 text-hitech-accent-hover hover:bg-hitech-accent/30'
+                                : 'bg-hitech-surface hover:bg-hitech-surface-hover text-hitech-text-primary'
+                            }`}
+                            title={metadataFilter ? t('chat.activeFilter', { filter: metadataFilter }) : t('chat.filterTitle')}
                         >
-                            <DownloadChatIcon />
-                            <span className="ml-2 hidden sm:inline">Scarica</span>
+                            <FilterIcon />
+                            <span className="ml-2 hidden sm:inline">{t('chat.filter')}</span>
                         </button>
+                        )}
+                        {!isReadOnly && onAddDocuments && (
+                            <>
+                                <input id="chat-add-documents" type="file" multiple className="hidden" onChange={handleAddDocumentsChange} accept={ACCEPTED_FILE_TYPES} disabled={!!documentUploads} />
+                                <label
+                                    htmlFor="chat-add-documents"
+                                    className={`flex items-center px-4 py-2 bg-hitech-surface rounded-full text-hitech-text-primary font-semibold transition-colors ${documentUploads ? 'opacity-50 cursor-not-allowed' : 'hover:bg-hitech-surface-hover cursor-pointer'}`}
+                                    title={t('chat.addDocumentsTitle')}
+                                >
+                                    <UploadIcon />
+                                    <span className="ml-2 hidden sm:inline">{t('chat.addDocuments')}</span>
+                                </label>
+                            </>
+                        )}
+                        <div className="relative">
+                            <button
+                                onClick={() => setIsExportMenuOpen(open => !open)}
+                                disabled={isQueryLoading || history.length === 0}
+                                className="flex items-center px-4 py-2 bg-hitech-surface hover:bg-hitech-surface-hover rounded-full text-hitech-text-primary font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                title={t('chat.downloadTitle')}
+                                aria-haspopup="menu"
+                                aria-expanded={isExportMenuOpen}
+                            >
+                                <DownloadChatIcon />
+                                <span className="ml-2 hidden sm:inline">{t('chat.download')}</span>
+                            </button>
+                            {isExportMenuOpen && (
+                                <div role="menu" className="absolute right-0 mt-2 w-44 bg-hitech-surface border border-hitech-border rounded-lg shadow-xl py-1 z-20">
+                                    {EXPORT_FORMATS.map(({ format, label }) => (
+                                        <button
+                                            key={format}
+                                            role="menuitem"
+                                            onClick={() => handleExport(format)}
+                                            className="block w-full text-left px-4 py-2 text-sm text-hitech-text-primary hover:bg-hitech-surface-hover transition-colors"
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                        {!isReadOnly && (
                          <button
                             onClick={onClearChat}
-                            className="flex items-center px-4 py-2 bg-hitech-surface hover:bg-hitech-surface-hover rounded-full text-hitech-text-primary font-semibold transition-colors"
-                            title="Pulisci la chat"
+                            disabled={isQueryLoading}
+                            className="flex items-center px-4 py-2 bg-hitech-surface hover:bg-hitech-surface-hover rounded-full text-hitech-text-primary font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            title={t('chat.clearTitle')}
                         >
                             <ClearChatIcon />
-                            <span className="ml-2 hidden sm:inline">Pulisci</span>
+                            <span className="ml-2 hidden sm:inline">{t('chat.clear')}</span>
                         </button>
+                        )}
                         <button
                             onClick={onNewChat}
-                            className="flex items-center px-4 py-2 bg-hitech-accent hover:bg-hitech-accent-hover rounded-full text-hitech-dark font-semibold transition-colors"
-                            title="Termina la chat attuale e iniziane una nuova"
+                            disabled={isQueryLoading || !!documentUploads}
+                            className="flex items-center px-4 py-2 bg-hitech-accent hover:bg-hitech-accent-hover rounded-full text-hitech-dark font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            title={isReadOnly ? t('chat.closeTitle') : t('chat.newChatTitle')}
                         >
                             <RefreshIcon />
-                            <span className="ml-2 hidden sm:inline">Nuova Chat</span>
+                            <span className="ml-2 hidden sm:inline">{isReadOnly ? t('chat.close') : t('chat.newChat')}</span>
                         </button>
                     </div>
                 </div>
+                {documentUploads && (
+                    <div className="w-full max-w-4xl mx-auto px-4 mt-2 text-xs text-hitech-text-secondary truncate" role="status">
+                        {t('chat.addingDocuments', { done: documentUploads.filter(file => file.status === 'done').length, total: documentUploads.length })}{' '}
+                        {documentUploads.map(file => `${file.name} (${t(INGESTION_STATUS_LABELS[file.status].labelKey).toLowerCase()})`).join(', ')}
+                    </div>
+                )}
+                {metadataFilter && !isFilterOpen && !isReadOnly && (
+                    <div className="w-full max-w-4xl mx-auto px-4 mt-2 text-xs text-hitech-text-secondary truncate" title={metadataFilter}>
+                        {t('chat.activeFilterLabel')} <span className="font-mono text-hitech-accent-hover">{metadataFilter}</span>
+                    </div>
+                )}
+                {isFilterOpen && (
+                    <MetadataFilterBuilder
+                        activeFilter={metadataFilter}
+                        onApply={onMetadataFilterChange}
+                        onClose={() => setIsFilterOpen(false)}
+                    />
+                )}
             </header>
 
             <div className="flex-grow pt-24 pb-32 overflow-y-auto px-4">
                 <div className="w-full max-w-4xl mx-auto space-y-6">
+                    {notice && (
+                        <div className="flex items-start justify-between gap-3 px-4 py-3 rounded-lg bg-yellow-500/10 border border-yellow-500/40 text-sm text-yellow-200" role="status">
+                            <p>{notice}</p>
+                            {onDismissNotice && (
+                                <button onClick={onDismissNotice} className="flex-shrink-0 font-semibold hover:text-yellow-100" title={t('chat.dismissNotice')}>
+                                    {t('chat.close')}
+                                </button>
+                            )}
+                        </div>
+                    )}
                     {history.length === 0 && exampleQuestions.length > 0 && (
                         <div className="rounded-lg animate-fade-slide-in">
-                            <h2 className="text-lg font-semibold mb-4 text-hitech-text-secondary text-center">Ecco alcuni suggerimenti per iniziare:</h2>
-                            <div className="flex overflow-x-auto space-x-3 pb-3 -mx-4 px-4 suggestions-scrollbar">
-                                {exampleQuestions.slice(0, 5).map((q, i) => (
+                            <h2 className="text-lg font-semibold mb-4 text-hitech-text-secondary text-center">{t('chat.suggestions')}</h2>
+                            <div className="space-y-4">
+                                {exampleQuestions.map((group, groupIndex) => (
+                                    <div key={groupIndex}>
+                                        {group.product && <h3 className="text-sm font-semibold mb-2 text-hitech-text-secondary">{group.product}</h3>}
+                                        <div className="flex overflow-x-auto space-x-3 pb-3 -mx-4 px-4 suggestions-scrollbar">
+                                            {group.questions.map((q, i) => (
+                                                <button
+                                                    key={i}
+                                                    onClick={() => onSendMessage(q)}
+                                                    className="text-sm text-hitech-text-primary bg-hitech-surface hover:bg-hitech-surface-hover transition-colors px-4 py-2 rounded-full flex-shrink-0 whitespace-nowrap"
+                                                >
+                                                    {q}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                            {onMoreExampleQuestions && !isReadOnly && (
+                                <div className="text-center">
                                     <button
-                                        key={i}
-                                        onClick={() => onSendMessage(q)}
-                                        className="text-sm text-hitech-text-primary bg-hitech-surface hover:bg-hitech-surface-hover transition-colors px-4 py-2 rounded-full flex-shrink-0 whitespace-nowrap"
+                                        onClick={onMoreExampleQuestions}
+                                        disabled={isLoadingMoreQuestions}
+                                        className="inline-flex items-center space-x-2 text-sm text-hitech-text-secondary hover:text-hitech-accent-hover transition-colors disabled:opacity-50 disabled:cursor-wait"
+                                        title={t('chat.moreSuggestionsTitle')}
                                     >
-                                        {q}
+                                        <RefreshIcon />
+                                        <span>{isLoadingMoreQuestions ? t('chat.loadingSuggestions') : t('chat.moreSuggestions')}</span>
                                     </button>
-                                ))}
-                            </div>
+                                </div>
+                            )}
                         </div>
                     )}
                     {history.map((message, index) => (
-                        <div key={index} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'} animate-fade-slide-in`}>
+                        <div key={index} className={`flex flex-col ${message.role === 'user' ? 'items-end' : 'items-start'} animate-fade-slide-in`}>
                             <div className={`max-w-xl lg:max-w-2xl px-5 py-3 rounded-2xl ${
                                 message.role === 'user' 
                                 ? 'bg-hitech-accent text-hitech-dark' 
                                 : 'bg-hitech-surface text-hitech-text-primary border border-hitech-border'
                             }`}>
-                                <div dangerouslySetInnerHTML={renderMarkdown(message.parts[0].text)} />
+                                {getMessageImages(message).length > 0 && (
+                                    <div className="flex flex-wrap justify-end gap-2 mb-2">
+                                        {getMessageImages(message).map((image, imageIndex) => (
+                                            <img key={imageIndex} src={toDataUrl(image)} alt={t('chat.attachedImage')} className="max-h-40 rounded-lg" />
+                                        ))}
+                                    </div>
+                                )}
+                                {editing?.index === index ? (
+                                    <form onSubmit={handleEditSubmit} className="space-y-2">
+                                        <textarea
+                                            value={editing.text}
+                                            onChange={(e) => setEditing({ index, text: e.target.value })}
+                                            rows={3}
+                                            autoFocus
+                                            className="w-full sm:w-96 resize-y bg-hitech-dark border border-hitech-border rounded-md py-1 px-2 text-hitech-text-primary focus:outline-none focus:ring-2 focus:ring-hitech-accent"
+                                            aria-label={t('chat.editLabel')}
+                                        />
+                                        <div className="flex justify-end space-x-2 text-sm">
+                                            <button type="button" onClick={() => setEditing(null)} className="px-3 py-1 rounded-full hover:bg-hitech-accent-hover transition-colors">
+                                                {t('chat.cancelEdit')}
+                                            </button>
+                                            <button type="submit" disabled={!editing.text.trim() || isQueryLoading} className="px-3 py-1 rounded-full bg-hitech-dark text-hitech-text-primary hover:bg-hitech-surface transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+                                                {t('chat.sendEdit')}
+                                            </button>
+                                        </div>
+                                    </form>
+                                ) : (
+                                <div
+                                    onClick={(e) => handleCitationClick(message, e)}
+                                    dangerouslySetInnerHTML={{ __html: renderMarkdown(
+                                        message.groundingSupports?.length
+                                            ? insertCitationMarkers(getMessageText(message), message.groundingSupports)
+                                            : getMessageText(message),
+                                        { renderCitation }
+                                    ) }}
+                                />
+                                )}
+                                {message.role === 'model' && groupSourcesByDocument(message.groundingChunks).length > 0 && (
+                                    <div className="mt-3 pt-2 border-t border-hitech-border/50 space-y-1 text-xs text-hitech-text-secondary">
+                                        <span className="font-semibold">{t('chat.sources')}</span>
+                                        {groupSourcesByDocument(message.groundingChunks).map(group => (
+                                            <div key={group.title} className="flex flex-wrap items-center gap-1.5">
+                                                <span className="truncate max-w-xs text-hitech-text-primary/80" title={group.title}>{group.title}</span>
+                                                {group.sources.map(source => (
+                                                    <button
+                                                        key={source.index}
+                                                        onClick={() => handleSourceClick(message, source.index)}
+                                                        className="px-2 py-0.5 rounded-full bg-hitech-surface-hover hover:bg-hitech-border transition-colors"
+                                                        title={`${t('chat.openSource', { index: source.index + 1 })}${source.location ? ` (${source.location})` : ''}`}
+                                                    >
+                                                        {source.index + 1}{source.location && <span className="ml-1 opacity-70">{source.location}</span>}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+                                {isStreaming && index === history.length - 1 && (
+                                    <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-hitech-text-primary/60 animate-pulse" aria-hidden="true" />
+                                )}
+                                {message.interrupted && (
+                                    <p className="mt-2 text-xs italic text-hitech-text-secondary">{t('chat.interrupted')}</p>
+                                )}
+                                {message.usage && (
+                                    <p
+                                        className="mt-2 text-xs text-hitech-text-secondary"
+                                        title={t('chat.usageBreakdown', { prompt: message.usage.promptTokens, tool: message.usage.toolUsePromptTokens, candidates: message.usage.candidatesTokens, thoughts: message.usage.thoughtsTokens })}
+                                    >
+                                        {t('chat.tokens', { count: totalTokens(message.usage) })}
+                                        {messageCost(message) !== null && ` · ~${formatCost(messageCost(message)!)}`}
+                                    </p>
+                                )}
+                                {message.role === 'model' && !message.error && onAnswerFeedback && !isReadOnly && !(isQueryLoading && index === history.length - 1) && (
+                                    <AnswerFeedback
+                                        key={message.timestamp}
+                                        feedback={message.feedback}
+                                        onChange={(feedback) => onAnswerFeedback(index, feedback)}
+                                    />
+                                )}
+                                {message.error && (
+                                    <div className="mt-2 flex items-center gap-3 text-sm text-red-300" role="alert">
+                                        <p>{message.error.message}</p>
+                                        {onRetryMessage && !isReadOnly && !isQueryLoading && index === history.length - 1 && !NON_RETRYABLE_ERRORS.includes(message.error.kind) && (
+                                            <button onClick={onRetryMessage} className="flex-shrink-0 px-3 py-1 rounded-full bg-hitech-surface-hover hover:bg-hitech-border text-hitech-text-primary transition-colors" title={t('chat.retryTitle')}>
+                                                {t('chat.retry')}
+                                            </button>
+                                        )}
+                                        {onReplaceApiKey && !isReadOnly && !isQueryLoading && index === history.length - 1 && message.error.kind === 'auth' && (isAistudioAvailable ? (
+                                            <button onClick={() => onReplaceApiKey()} className="flex-shrink-0 px-3 py-1 rounded-full bg-hitech-surface-hover hover:bg-hitech-border text-hitech-text-primary transition-colors">
+                                                {t('chat.selectAnotherKey')}
+                                            </button>
+                                        ) : (
+                                            <form
+                                                className="flex items-center gap-2"
+                                                onSubmit={(e) => {
+                                                    e.preventDefault();
+                                                    onReplaceApiKey(replacementKey.trim());
+                                                    setReplacementKey('');
+                                                }}
+                                            >
+                                                <input
+                                                    type="password"
+                                                    value={replacementKey}
+                                                    onChange={(e) => setReplacementKey(e.target.value)}
+                                                    placeholder={t('chat.replacementKeyPlaceholder')}
+                                                    aria-label={t('welcome.apiKeyLabel')}
+                                                    className="bg-hitech-dark border border-hitech-border rounded-full py-1 px-3 focus:outline-none focus:ring-2 focus:ring-hitech-accent text-hitech-text-primary"
+                                                />
+                                                <button type="submit" disabled={!replacementKey.trim()} className="flex-shrink-0 px-3 py-1 rounded-full bg-hitech-surface-hover hover:bg-hitech-border text-hitech-text-primary transition-colors disabled:opacity-50">
+                                                    {t('chat.useKeyAndRetry')}
+                                                </button>
+                                            </form>
+                                        ))}
+                                    </div>
+                                )}
                             </div>
+                            {renderMessageActions(message, index)}
                         </div>
                     ))}
-                    {isQueryLoading && (
+                    {isQueryLoading && !isStreaming && (
                         <div className="flex justify-start animate-fade-slide-in">
                             <div className="max-w-xl lg:max-w-2xl px-5 py-3 rounded-2xl bg-hitech-surface border border-hitech-border flex items-center">
                                 <TypingIndicator />
@@ -185,23 +536,137 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ documentName, history, is
             </div>
 
             <div className="absolute bottom-0 left-0 right-0 p-4 bg-hitech-dark/80 backdrop-blur-sm">
+                 {isReadOnly ? (
+                 <p className="max-w-4xl mx-auto text-center text-sm text-hitech-text-secondary py-3">
+                     {readOnlyReason ?? t('chat.importedReadOnly')}
+                 </p>
+                 ) : (
                  <div className="max-w-4xl mx-auto">
+                     {isContextOptionsOpen && (
+                        <ContextOptionsPanel options={contextOptions} onChange={onContextOptionsChange} />
+                     )}
+                     {isGenerationSettingsOpen && generationSettings && onGenerationSettingsChange && (
+                        <GenerationSettingsPanel settings={generationSettings} onChange={onGenerationSettingsChange} />
+                     )}
+                     {isUsageOpen && (
+                        <UsagePanel
+                            conversation={conversationSummary}
+                            today={todaySummary}
+                            models={[...Object.keys(conversationUsage), ...Object.keys(dailyUsage)]}
+                            prices={prices}
+                            onPricesChange={onPricesChange}
+                            dailyBudget={dailyBudget}
+                            onDailyBudgetChange={onDailyBudgetChange}
+                        />
+                     )}
+                     {(attachedImages.length > 0 || imageError) && (
+                        <div className="flex flex-wrap items-center gap-2 mb-2">
+                            {attachedImages.map((image, index) => (
+                                <div key={index} className="relative">
+                                    <img src={toDataUrl(image)} alt={t('chat.attachedImage')} className="h-16 w-16 object-cover rounded-md border border-hitech-border" />
+                                    <button
+                                        type="button"
+                                        onClick={() => setAttachedImages(prev => prev.filter((_, i) => i !== index))}
+                                        className="absolute -top-2 -right-2 h-5 w-5 flex items-center justify-center rounded-full bg-hitech-surface-hover hover:bg-hitech-border text-xs"
+                                        aria-label={t('chat.removeImage')}
+                                        title={t('chat.removeImage')}
+                                    >
+                                        ×
+                                    </button>
+                                </div>
+                            ))}
+                            {imageError && <p className="text-xs text-red-300" role="alert">{imageError}</p>}
+                        </div>
+                     )}
                      <form onSubmit={handleSubmit} className="flex items-center space-x-3">
+                        {canAttachImages && (
+                        <div className="relative">
+                            <button
+                                type="button"
+                                onClick={() => setIsAttachMenuOpen(open => !open)}
+                                disabled={isQueryLoading || attachedImages.length >= MAX_ATTACHED_IMAGES}
+                                className="p-3 bg-hitech-surface hover:bg-hitech-surface-hover rounded-full text-hitech-text-primary transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                title={t('chat.attachImageTitle')}
+                                aria-label={t('chat.attachImageTitle')}
+                                aria-haspopup="menu"
+                                aria-expanded={isAttachMenuOpen}
+                            >
+                                <CameraIcon />
+                            </button>
+                            {isAttachMenuOpen && (
+                                <div role="menu" className="absolute left-0 bottom-full mb-2 w-48 bg-hitech-surface border border-hitech-border rounded-lg shadow-xl py-1 z-20">
+                                    <label role="menuitem" className="block w-full text-left px-4 py-2 text-sm text-hitech-text-primary hover:bg-hitech-surface-hover transition-colors cursor-pointer">
+                                        {t('chat.chooseImage')}
+                                        <input type="file" accept="image/*" multiple onChange={handleImageFilesChange} className="hidden" />
+                                    </label>
+                                    <button
+                                        type="button"
+                                        role="menuitem"
+                                        onClick={() => { setIsAttachMenuOpen(false); setIsCameraOpen(true); }}
+                                        className="block w-full text-left px-4 py-2 text-sm text-hitech-text-primary hover:bg-hitech-surface-hover transition-colors"
+                                    >
+                                        {t('chat.takePhoto')}
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                        )}
                         <input
                             type="text"
                             value={query}
                             onChange={(e) => setQuery(e.target.value)}
-                            placeholder="Fai una domanda sui manuali..."
+                            placeholder={attachedImages.length > 0 ? t('chat.placeholderWithImage') : t('chat.placeholder')}
                             className="flex-grow bg-hitech-surface border border-hitech-border rounded-full py-3 px-5 focus:outline-none focus:ring-2 focus:ring-hitech-accent text-hitech-text-primary"
                             disabled={isQueryLoading}
                         />
-                        <button type="submit" disabled={isQueryLoading || !query.trim()} className="p-3 bg-hitech-accent hover:bg-hitech-accent-hover rounded-full text-hitech-dark disabled:bg-hitech-border transition-colors" title="Invia messaggio">
-                            <SendIcon />
-                        </button>
+                        {isQueryLoading ? (
+                            <button type="button" onClick={onStopGeneration} className="p-3 bg-red-500 hover:bg-red-400 rounded-full text-hitech-dark transition-colors" title={t('chat.stopTitle')}>
+                                <StopIcon />
+                            </button>
+                        ) : (
+                            <button type="submit" disabled={!query.trim()} className="p-3 bg-hitech-accent hover:bg-hitech-accent-hover rounded-full text-hitech-dark disabled:bg-hitech-border transition-colors" title={t('chat.sendTitle')}>
+                                <SendIcon />
+                            </button>
+                        )}
                     </form>
+                    <div className="mt-2 flex justify-center gap-4">
+                        <button
+                            type="button"
+                            onClick={() => setIsContextOptionsOpen(open => !open)}
+                            className="text-xs text-hitech-text-secondary hover:text-hitech-accent-hover transition-colors"
+                            title={t('chat.contextTitle')}
+                        >
+                            {contextOptions.maxTurns > 0
+                                ? `${t('chat.contextTurns', { count: contextOptions.maxTurns })}${contextOptions.rewriteQuery ? t('chat.contextRewrite') : ''}`
+                                : t('chat.contextNone')}
+                        </button>
+                        {generationSettings && onGenerationSettingsChange && (
+                            <button
+                                type="button"
+                                onClick={() => setIsGenerationSettingsOpen(open => !open)}
+                                className="text-xs text-hitech-text-secondary hover:text-hitech-accent-hover transition-colors"
+                                title={t('chat.modelTitle')}
+                            >
+                                {t('chat.model', { model: generationSettings.model })}
+                            </button>
+                        )}
+                        <button
+                            type="button"
+                            onClick={() => setIsUsageOpen(open => !open)}
+                            className={`text-xs transition-colors hover:text-hitech-accent-hover ${dailyBudget !== null && todaySummary.cost >= dailyBudget ? 'text-red-300' : 'text-hitech-text-secondary'}`}
+                            title={t('chat.usageTitle')}
+                        >
+                            {t('chat.usage', { tokens: conversationSummary.tokens, cost: formatCost(todaySummary.cost) })}
+                        </button>
+                    </div>
                 </div>
+                 )}
             </div>
 
+            {isCameraOpen && (
+                <CameraCapture onCapture={handleCameraCapture} onClose={() => setIsCameraOpen(false)} />
+            )}
+
             {modalContent !== null && (
                 <div 
                     className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" 
@@ -211,15 +676,18 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ documentName, history, is
                     aria-labelledby="source-modal-title"
                 >
                     <div className="bg-hitech-surface p-6 rounded-lg shadow-xl w-full max-w-2xl max-h-[80vh] flex flex-col" onClick={e => e.stopPropagation()}>
-                        <h3 id="source-modal-title" className="text-xl font-bold mb-4">Testo della Fonte</h3>
+                        <h3 id="source-modal-title" className="text-xl font-bold">{t('chat.source', { index: modalContent.index + 1 })}</h3>
+                        <p className="text-sm text-hitech-text-secondary mb-4 truncate" title={modalContent.title}>
+                            {modalContent.title}{modalContent.location && ` · ${modalContent.location}`}
+                        </p>
                         <div 
                             className="flex-grow overflow-y-auto pr-4 text-hitech-text-secondary border-t border-b border-hitech-border py-4"
-                            dangerouslySetInnerHTML={renderMarkdown(modalContent || '')}
+                            dangerouslySetInnerHTML={{ __html: renderMarkdown(modalContent.text) }}
                         >
                         </div>
                         <div className="flex justify-end mt-6">
-                            <button onClick={closeModal} className="px-6 py-2 rounded-md bg-hitech-accent hover:bg-hitech-accent-hover text-hitech-dark font-semibold transition-colors" title="Chiudi la vista della fonte">
-                                Chiudi
+                            <button onClick={closeModal} className="px-6 py-2 rounded-md bg-hitech-accent hover:bg-hitech-accent-hover text-hitech-dark font-semibold transition-colors" title={t('chat.closeSourceTitle')}>
+                                {t('chat.close')}
                             </button>
                         </div>
                     </div>
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { ConversationContextOptions } from '../types';
+import { t } from '../utils/i18n';
+
+interface ContextOptionsPanelProps {
+    options: ConversationContextOptions;
+    onChange: (options: ConversationContextOptions) => void;
+}
+
+const ContextOptionsPanel: React.FC<ContextOptionsPanelProps> = ({ options, onChange }) => {
+    const handleNumberChange = (field: 'maxTurns' | 'maxTokens', value: string) => {
+        const parsed = parseInt(value, 10);
+        onChange({ ...options, [field]: isNaN(parsed) ? 0 : Math.max(0, parsed) });
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-x-6 gap-y-2 mb-3 px-4 py-3 bg-hitech-surface border border-hitech-border rounded-lg text-sm text-hitech-text-secondary">
+            <label className="flex items-center space-x-2">
+                <span>{t('context.maxTurns')}</span>
+                <input
+                    type="number"
+                    min={0}
+                    max={50}
+                    value={options.maxTurns}
+                    onChange={(e) => handleNumberChange('maxTurns', e.target.value)}
+                    className="w-16 bg-hitech-dark border border-hitech-border rounded-md py-1 px-2 focus:outline-none focus:ring-2 focus:ring-hitech-accent text-hitech-text-primary"
+                    title={t('context.maxTurnsTitle')}
+                />
+            </label>
+            <label className="flex items-center space-x-2">
+                <span>{t('context.maxTokens')}</span>
+                <input
+                    type="number"
+                    min={0}
+                    step={500}
+                    value={options.maxTokens}
+                    onChange={(e) => handleNumberChange('maxTokens', e.target.value)}
+                    className="w-24 bg-hitech-dark border border-hitech-border rounded-md py-1 px-2 focus:outline-none focus:ring-2 focus:ring-hitech-accent text-hitech-text-primary"
+                    title={t('context.maxTokensTitle')}
+                />
+            </label>
+            <label className="flex items-center space-x-2 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={options.rewriteQuery}
+                    onChange={(e) => onChange({ ...options, rewriteQuery: e.target.checked })}
+                    className="accent-hitech-accent"
+                />
+                <span title={t('context.rewriteQueryTitle')}>{t('context.rewriteQuery')}</span>
+            </label>
+        </div>
+    );
+};
+
+export default ContextOptionsPanel;
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { ConversationSummary } from '../types';
+import PlusIcon from './icons/PlusIcon';
+import TrashIcon from './icons/TrashIcon';
+import PencilIcon from './icons/PencilIcon';
+import { t, formatDateTime } from '../utils/i18n';
+
+interface ConversationSidebarProps {
+    conversations: ConversationSummary[];
+    activeConversationId: string | null;
+    // Switching is disabled while an answer is streaming into the active conversation.
+    isBusy: boolean;
+    onSelect: (id: string) => void;
+    onNew: () => void;
+    onRename: (id: string, title: string) => void;
+    onDelete: (id: string) => void;
+}
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({ conversations, activeConversationId, isBusy, onSelect, onNew, onRename, onDelete }) => {
+    const [searchTerm, setSearchTerm] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editingTitle, setEditingTitle] = useState('');
+
+    const startRename = (conversation: ConversationSummary) => {
+        setEditingId(conversation.id);
+        setEditingTitle(conversation.title);
+    };
+
+    const handleConfirmRename = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (editingId && editingTitle.trim()) {
+            onRename(editingId, editingTitle.trim());
+        }
+        setEditingId(null);
+    };
+
+    const filteredConversations = conversations.filter(conversation =>
+        conversation.title.toLowerCase().includes(searchTerm.toLowerCase())
+    );
+
+    return (
+        <aside className="hidden md:flex flex-col w-72 flex-shrink-0 border-r border-hitech-border bg-hitech-dark p-4 pt-24">
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-lg font-bold">{t('conversations.title')}</h2>
+                <button
+                    onClick={onNew}
+                    disabled={isBusy}
+                    className="p-2 bg-hitech-accent hover:bg-hitech-accent-hover rounded-full text-hitech-dark transition-colors disabled:bg-hitech-border"
+                    aria-label={t('conversations.new')}
+                    title={t('conversations.newTitle')}
+                >
+                    <PlusIcon />
+                </button>
+            </div>
+
+            <input
+                type="text"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                placeholder={t('conversations.search')}
+                className="w-full bg-hitech-surface border border-hitech-border rounded-md py-2 px-3 mb-4 text-sm focus:outline-none focus:ring-2 focus:ring-hitech-accent"
+            />
+
+            {filteredConversations.length === 0 ? (
+                <p className="text-sm text-center text-hitech-text-secondary mt-4">
+                    {conversations.length > 0 ? t('conversations.noMatches') : t('conversations.empty')}
+                </p>
+            ) : (
+                <ul className="space-y-1 overflow-y-auto">
+                    {filteredConversations.map(conversation => (
+                        <li key={conversation.id} className="flex items-center group">
+                            {editingId === conversation.id ? (
+                                <form onSubmit={handleConfirmRename} className="w-full">
+                                    <input
+                                        type="text"
+                                        value={editingTitle}
+                                        onChange={(e) => setEditingTitle(e.target.value)}
+                                        onBlur={handleConfirmRename}
+                                        onKeyDown={(e) => { if (e.key === 'Escape') setEditingId(null); }}
+                                        className="w-full bg-hitech-dark border border-hitech-accent rounded-md py-2 px-3 text-sm focus:outline-none"
+                                        aria-label={t('conversations.renameInput')}
+                                        autoFocus
+                                    />
+                                </form>
+                            ) : (
+                                <>
+                                    <button
+                                        onClick={() => onSelect(conversation.id)}
+                                        disabled={isBusy}
+                                        className={`flex-grow min-w-0 text-left px-3 py-2 rounded-md text-sm transition-colors disabled:cursor-not-allowed ${
+                                            conversation.id === activeConversationId
+                                                ? 'bg-hitech-accent text-hitech-dark font-semibold'
+                                                : 'bg-hitech-surface hover:bg-hitech-surface-hover'
+                                        }`}
+                                        title={conversation.title}
+                                    >
+                                        <span className="block truncate">{conversation.title}</span>
+                                        <span className="block text-xs opacity-70">
+                                            {formatDateTime(conversation.updatedAt, { dateStyle: 'short', timeStyle: 'short' })}{t('conversations.messageCount', { count: conversation.messageCount })}
+                                            {conversation.tokenCount > 0 && t('conversations.tokenCount', { count: conversation.tokenCount })}
+                                        </span>
+                                    </button>
+                                    <button
+                                        onClick={() => startRename(conversation)}
+                                        className="ml-1 p-1 text-hitech-text-secondary hover:text-hitech-text-primary rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                                        aria-label={t('conversations.rename', { name: conversation.title })}
+                                        title={t('conversations.renameTitle')}
+                                    >
+                                        <PencilIcon />
+                                    </button>
+                                    <button
+                                        onClick={() => onDelete(conversation.id)}
+                                        disabled={isBusy && conversation.id === activeConversationId}
+                                        className="p-1 text-red-400 hover:text-red-300 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                                        aria-label={t('conversations.delete', { name: conversation.title })}
+                                        title={t('conversations.deleteTitle')}
+                                    >
+                                        <TrashIcon />
+                                    </button>
+                                </>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </aside>
+    );
+};
+
+export default ConversationSidebar;
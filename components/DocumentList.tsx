@@ -2,12 +2,43 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { RagStore, Document, CustomMetadata } from '../types';
 import Spinner from './Spinner';
 import UploadIcon from './icons/UploadIcon';
 import TrashIcon from './icons/TrashIcon';
 import PlusIcon from './icons/PlusIcon';
+import { checkFile, FileCheck, findDuplicateIssue, ACCEPTED_FILE_TYPES, CONTENT_HASH_METADATA_KEY } from '../utils/fileValidation';
+import { t } from '../utils/i18n';
+
+type MetadataValueType = 'string' | 'stringList' | 'numeric';
+
+interface MetadataRow {
+    key: string;
+    value: string;
+    type: MetadataValueType;
+}
+
+const emptyMetadataRow = (): MetadataRow => ({ key: '', value: '', type: 'string' });
+
+const toCustomMetadata = (row: MetadataRow): CustomMetadata => {
+    const key = row.key.trim();
+    const value = row.value.trim();
+    switch (row.type) {
+        case 'numeric':
+            return { key, numericValue: Number(value) };
+        case 'stringList':
+            return { key, stringListValue: value.split(',').map(v => v.trim()).filter(v => v !== '') };
+        default:
+            return { key, stringValue: value };
+    }
+};
+
+const formatMetadataValue = (meta: CustomMetadata): string => {
+    if (meta.stringListValue) return meta.stringListValue.join(', ');
+    if (meta.numericValue !== undefined) return String(meta.numericValue);
+    return meta.stringValue || '';
+};
 
 interface DocumentListProps {
     selectedStore: RagStore | null;
@@ -22,7 +53,20 @@ const DocumentList: React.FC<DocumentListProps> = ({ selectedStore, documents, i
     const fileInputRef = useRef<HTMLInputElement>(null);
     const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
     const [selectedFile, setSelectedFile] = useState<File | null>(null);
-    const [metadata, setMetadata] = useState<{ key: string, value: string }[]>([{ key: '', value: '' }]);
+    const [metadata, setMetadata] = useState<MetadataRow[]>([emptyMetadataRow()]);
+    const [fileCheck, setFileCheck] = useState<FileCheck | null>(null);
+
+    useEffect(() => {
+        setFileCheck(null);
+        if (!selectedFile) return;
+        let cancelled = false;
+        checkFile(selectedFile).then(check => {
+            if (!cancelled) setFileCheck(check);
+        });
+        return () => { cancelled = true; };
+    }, [selectedFile]);
+
+    const fileIssue = fileCheck?.error || (fileCheck?.sha256 ? findDuplicateIssue(fileCheck.sha256, documents) : null);
 
     const handleUploadClick = () => {
         setIsUploadModalOpen(true);
@@ -31,7 +75,7 @@ const DocumentList: React.FC<DocumentListProps> = ({ selectedStore, documents, i
     const handleModalClose = () => {
         setIsUploadModalOpen(false);
         setSelectedFile(null);
-        setMetadata([{ key: '', value: '' }]);
+        setMetadata([emptyMetadataRow()]);
     };
 
     const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -43,12 +87,18 @@ const DocumentList: React.FC<DocumentListProps> = ({ selectedStore, documents, i
 
     const handleMetadataChange = (index: number, field: 'key' | 'value', text: string) => {
         const newMetadata = [...metadata];
-        newMetadata[index][field] = text;
+        newMetadata[index] = { ...newMetadata[index], [field]: text };
+        setMetadata(newMetadata);
+    };
+
+    const handleMetadataTypeChange = (index: number, type: MetadataValueType) => {
+        const newMetadata = [...metadata];
+        newMetadata[index] = { ...newMetadata[index], type };
         setMetadata(newMetadata);
     };
 
     const addMetadataRow = () => {
-        setMetadata([...metadata, { key: '', value: '' }]);
+        setMetadata([...metadata, emptyMetadataRow()]);
     };
 
     const removeMetadataRow = (index: number) => {
@@ -56,11 +106,16 @@ const DocumentList: React.FC<DocumentListProps> = ({ selectedStore, documents, i
         setMetadata(newMetadata);
     };
 
+    const hasInvalidMetadata = metadata.some(m =>
+        m.key.trim() !== '' && m.type === 'numeric' && (m.value.trim() === '' || isNaN(Number(m.value)))
+    );
+
     const handleConfirmUpload = () => {
-        if (!selectedFile) return;
+        if (!selectedFile || !fileCheck?.sha256 || fileIssue || hasInvalidMetadata) return;
         const formattedMetadata: CustomMetadata[] = metadata
-            .filter(m => m.key.trim() !== '')
-            .map(m => ({ key: m.key.trim(), stringValue: m.value.trim() }));
+            .filter(m => m.key.trim() !== '' && m.key.trim() !== CONTENT_HASH_METADATA_KEY)
+            .map(toCustomMetadata);
+        formattedMetadata.push({ key: CONTENT_HASH_METADATA_KEY, stringValue: fileCheck.sha256 });
         onUpload(selectedFile, formattedMetadata);
         handleModalClose();
     };
@@ -68,8 +123,8 @@ const DocumentList: React.FC<DocumentListProps> = ({ selectedStore, documents, i
     if (!selectedStore) {
         return (
             <div className="flex flex-col h-full items-center justify-center text-center text-hitech-text-secondary">
-                <p className="text-lg">Seleziona un Archivio RAG</p>
-                <p>per visualizzare e gestire i suoi documenti.</p>
+                <p className="text-lg">{t('documents.selectStore')}</p>
+                <p>{t('documents.selectStoreHint')}</p>
             </div>
         );
     }
@@ -77,13 +132,13 @@ const DocumentList: React.FC<DocumentListProps> = ({ selectedStore, documents, i
     return (
         <div className="flex flex-col h-full">
             <div className="flex justify-between items-center mb-4">
-                <h2 className="text-xl font-bold truncate" title={selectedStore.displayName}>Documenti</h2>
+                <h2 className="text-xl font-bold truncate" title={selectedStore.displayName}>{t('documents.title')}</h2>
                 <button
                     onClick={handleUploadClick}
                     className="p-2 bg-hitech-accent hover:bg-hitech-accent-hover rounded-full text-hitech-dark transition-colors disabled:bg-hitech-border disabled:cursor-not-allowed"
                     disabled={!!processingFile}
-                    aria-label="Carica documento"
-                    title="Carica un nuovo documento in questo archivio"
+                    aria-label={t('documents.upload')}
+                    title={t('documents.uploadTitle')}
                 >
                     <UploadIcon />
                 </button>
@@ -92,44 +147,51 @@ const DocumentList: React.FC<DocumentListProps> = ({ selectedStore, documents, i
             {isUploadModalOpen && (
                 <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" role="dialog" aria-modal="true" aria-labelledby="upload-doc-title">
                     <div className="bg-hitech-surface p-6 rounded-lg shadow-xl w-full max-w-lg">
-                        <h3 id="upload-doc-title" className="text-xl font-bold mb-4">Carica Documento</h3>
+                        <h3 id="upload-doc-title" className="text-xl font-bold mb-4">{t('documents.uploadDialogTitle')}</h3>
                         
                         <div className="mb-4">
-                            <label htmlFor="file-upload" className="block text-sm font-medium text-hitech-text-secondary mb-2">File</label>
+                            <label htmlFor="file-upload" className="block text-sm font-medium text-hitech-text-secondary mb-2">{t('documents.file')}</label>
                             <input
                                 id="file-upload"
                                 type="file"
                                 ref={fileInputRef}
                                 onChange={handleFileChange}
+                                accept={ACCEPTED_FILE_TYPES}
                                 className="w-full text-sm text-hitech-text-primary file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-hitech-accent file:text-hitech-dark hover:file:bg-hitech-accent-hover"
                             />
-                            {selectedFile && <p className="text-sm mt-2 text-hitech-text-secondary/70">Selezionato: {selectedFile.name}</p>}
+                            {selectedFile && <p className="text-sm mt-2 text-hitech-text-secondary/70">{t('documents.selected', { name: selectedFile.name })}{!fileCheck && t('documents.checking')}</p>}
+                            {fileIssue && <p className="text-sm mt-2 text-red-400">{fileIssue}</p>}
                         </div>
 
                         <div className="mb-4">
-                            <h4 className="text-sm font-medium text-hitech-text-secondary mb-2">Metadati Personalizzati (opzionale)</h4>
+                            <h4 className="text-sm font-medium text-hitech-text-secondary mb-2">{t('documents.customMetadata')}</h4>
                             <div className="space-y-2 max-h-48 overflow-y-auto pr-2">
                                 {metadata.map((item, index) => (
                                     <div key={index} className="flex items-center space-x-2">
-                                        <input type="text" placeholder="Chiave" value={item.key} onChange={(e) => handleMetadataChange(index, 'key', e.target.value)} className="w-1/2 bg-hitech-dark border border-hitech-border rounded-md py-1 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-hitech-accent" />
-                                        <input type="text" placeholder="Valore" value={item.value} onChange={(e) => handleMetadataChange(index, 'value', e.target.value)} className="w-1/2 bg-hitech-dark border border-hitech-border rounded-md py-1 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-hitech-accent" />
-                                        <button onClick={() => removeMetadataRow(index)} className="p-1 text-red-400 hover:text-red-300 rounded-full" aria-label="Rimuovi riga metadati" title="Rimuovi riga metadati">
+                                        <input type="text" placeholder={t('documents.metadataKey')} value={item.key} onChange={(e) => handleMetadataChange(index, 'key', e.target.value)} className="w-1/3 bg-hitech-dark border border-hitech-border rounded-md py-1 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-hitech-accent" />
+                                        <select value={item.type} onChange={(e) => handleMetadataTypeChange(index, e.target.value as MetadataValueType)} className="bg-hitech-dark border border-hitech-border rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-2 focus:ring-hitech-accent" aria-label={t('documents.valueType')} title={t('documents.valueType')}>
+                                            <option value="string">{t('documents.typeString')}</option>
+                                            <option value="stringList">{t('documents.typeList')}</option>
+                                            <option value="numeric">{t('documents.typeNumber')}</option>
+                                        </select>
+                                        <input type={item.type === 'numeric' ? 'number' : 'text'} placeholder={item.type === 'stringList' ? t('documents.listValuePlaceholder') : t('documents.valuePlaceholder')} value={item.value} onChange={(e) => handleMetadataChange(index, 'value', e.target.value)} className="w-1/3 flex-grow bg-hitech-dark border border-hitech-border rounded-md py-1 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-hitech-accent" />
+                                        <button onClick={() => removeMetadataRow(index)} className="p-1 text-red-400 hover:text-red-300 rounded-full" aria-label={t('documents.removeMetadataRow')} title={t('documents.removeMetadataRow')}>
                                             <TrashIcon />
                                         </button>
                                     </div>
                                 ))}
                             </div>
-                            <button onClick={addMetadataRow} className="mt-2 flex items-center text-sm text-hitech-accent hover:text-hitech-accent-hover" title="Aggiungi un altro campo metadati">
-                                <PlusIcon /> <span className="ml-1">Aggiungi Metadati</span>
+                            <button onClick={addMetadataRow} className="mt-2 flex items-center text-sm text-hitech-accent hover:text-hitech-accent-hover" title={t('documents.addMetadataTitle')}>
+                                <PlusIcon /> <span className="ml-1">{t('documents.addMetadata')}</span>
                             </button>
                         </div>
                         
                         <div className="flex justify-end space-x-2 mt-6">
-                            <button type="button" onClick={handleModalClose} className="px-4 py-2 rounded-md bg-hitech-surface-hover hover:bg-hitech-border transition-colors" title="Annulla caricamento">
-                                Annulla
+                            <button type="button" onClick={handleModalClose} className="px-4 py-2 rounded-md bg-hitech-surface-hover hover:bg-hitech-border transition-colors" title={t('documents.cancelUploadTitle')}>
+                                {t('documents.cancel')}
                             </button>
-                            <button type="button" onClick={handleConfirmUpload} disabled={!selectedFile} className="px-4 py-2 rounded-md bg-hitech-accent hover:bg-hitech-accent-hover text-hitech-dark font-semibold transition-colors disabled:bg-hitech-border/50 disabled:cursor-not-allowed" title="Carica file selezionato">
-                                Carica
+                            <button type="button" onClick={handleConfirmUpload} disabled={!selectedFile || !fileCheck || !!fileIssue || hasInvalidMetadata} className="px-4 py-2 rounded-md bg-hitech-accent hover:bg-hitech-accent-hover text-hitech-dark font-semibold transition-colors disabled:bg-hitech-border/50 disabled:cursor-not-allowed" title={t('documents.confirmUploadTitle')}>
+                                {t('documents.confirmUpload')}
                             </button>
                         </div>
                     </div>
@@ -139,7 +201,7 @@ const DocumentList: React.FC<DocumentListProps> = ({ selectedStore, documents, i
             {processingFile && (
                 <div className="mb-4 p-3 bg-hitech-surface rounded-md flex items-center">
                     <Spinner />
-                    <span className="ml-3">Elaborazione: {processingFile}...</span>
+                    <span className="ml-3">{t('documents.processing', { name: processingFile })}</span>
                 </div>
             )}
             {isLoading && !documents.length ? (
@@ -148,40 +210,42 @@ const DocumentList: React.FC<DocumentListProps> = ({ selectedStore, documents, i
                 </div>
             ) : documents.length === 0 && !processingFile ? (
                 <div className="flex-grow flex items-center justify-center text-center text-hitech-text-secondary">
-                    <p>Nessun documento trovato. <br /> Clicca sull'icona di caricamento per aggiungerne uno.</p>
+                    <p>{t('documents.empty')} <br /> {t('documents.emptyHint')}</p>
                 </div>
             ) : (
                 <ul className="space-y-2 overflow-y-auto">
-                    {documents.map((doc) => (
-                        <li key={doc.name} className="p-3 bg-hitech-surface rounded-md group">
-                             <div className="flex items-center justify-between">
-                                <span className="truncate font-medium" title={doc.displayName}>{doc.displayName}</span>
-                                <button 
-                                    onClick={() => onDelete(doc.name)}
-                                    className="ml-2 p-1 text-red-400 hover:text-red-300 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
-                                    aria-label={`Elimina ${doc.displayName}`}
-                                    title={`Elimina ${doc.displayName}`}
-                                >
-                                <TrashIcon />
-                                </button>
-                            </div>
-                             {doc.customMetadata && doc.customMetadata.length > 0 && (
-                                <div className="mt-2 pt-2 border-t border-hitech-border/50 text-xs">
-                                    <h4 className="font-semibold text-hitech-text-secondary mb-1">Metadati:</h4>
-                                    <dl className="space-y-1">
-                                        {doc.customMetadata.map((meta, index) => (
-                                            meta.key && (
+                    {documents.map((doc) => {
+                        // The content hash is bookkeeping for duplicate detection, not something to show.
+                        const visibleMetadata = (doc.customMetadata || []).filter(meta => meta.key && meta.key !== CONTENT_HASH_METADATA_KEY);
+                        return (
+                            <li key={doc.name} className="p-3 bg-hitech-surface rounded-md group">
+                                 <div className="flex items-center justify-between">
+                                    <span className="truncate font-medium" title={doc.displayName}>{doc.displayName}</span>
+                                    <button 
+                                        onClick={() => onDelete(doc.name)}
+                                        className="ml-2 p-1 text-red-400 hover:text-red-300 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                                        aria-label={t('documents.delete', { name: doc.displayName })}
+                                        title={t('documents.delete', { name: doc.displayName })}
+                                    >
+                                    <TrashIcon />
+                                    </button>
+                                </div>
+                                 {visibleMetadata.length > 0 && (
+                                    <div className="mt-2 pt-2 border-t border-hitech-border/50 text-xs">
+                                        <h4 className="font-semibold text-hitech-text-secondary mb-1">{t('documents.metadata')}</h4>
+                                        <dl className="space-y-1">
+                                            {visibleMetadata.map((meta, index) => (
                                                 <div key={index} className="flex">
                                                     <dt className="w-1/3 font-medium text-hitech-text-secondary/80 truncate pr-2" title={meta.key}>{meta.key}</dt>
-                                                    <dd className="w-2/3 text-hitech-text-secondary truncate" title={meta.stringValue}>{meta.stringValue}</dd>
+                                                    <dd className="w-2/3 text-hitech-text-secondary truncate" title={formatMetadataValue(meta)}>{formatMetadataValue(meta)}</dd>
                                                 </div>
-                                            )
-                                        ))}
-                                    </dl>
-                                </div>
-                            )}
-                        </li>
-                    ))}
+                                            ))}
+                                        </dl>
+                                    </div>
+                                )}
+                            </li>
+                        );
+                    })}
                 </ul>
             )}
         </div>
@@ -0,0 +1,273 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useRef } from 'react';
+import { RagStore } from '../types';
+import { GoldenSet, ResponseRecording, EvaluationRun, EvaluationReport, EvaluationSummary, parseGoldenSet, parseRecording, parseReport } from '../services/evaluation';
+import { downloadFile } from '../utils/download';
+import { t, formatNumber, formatDateTime, MessageKey } from '../utils/i18n';
+import Spinner from './Spinner';
+
+interface EvaluationScreenProps {
+    store: RagStore;
+    onRun: (storeName: string, goldenSet: GoldenSet, recording: ResponseRecording | null, onProgress: (done: number, total: number) => void, abortSignal: AbortSignal) => Promise<EvaluationRun>;
+    onBack: () => void;
+}
+
+type SummaryMetric = { key: keyof EvaluationSummary, labelKey: MessageKey, format: (value: number) => string, higherIsBetter: boolean };
+
+const formatPercent = (value: number) => formatNumber(value, { style: 'percent', maximumFractionDigits: 1 });
+const formatMs = (value: number) => t('evaluation.milliseconds', { ms: Math.round(value) });
+
+const SUMMARY_METRICS: SummaryMetric[] = [
+    { key: 'retrievalHitRate', labelKey: 'evaluation.retrievalHitRate', format: formatPercent, higherIsBetter: true },
+    { key: 'keywordCoverage', labelKey: 'evaluation.keywordCoverage', format: formatPercent, higherIsBetter: true },
+    { key: 'meanLatencyMs', labelKey: 'evaluation.meanLatency', format: formatMs, higherIsBetter: false },
+    { key: 'p95LatencyMs', labelKey: 'evaluation.p95Latency', format: formatMs, higherIsBetter: false },
+    { key: 'errors', labelKey: 'evaluation.errors', format: value => formatNumber(value), higherIsBetter: false },
+];
+
+function readFile<T>(file: File, parse: (json: string) => T, onParsed: (value: T) => void, onError: (message: string) => void): void {
+    file.text()
+        .then(json => onParsed(parse(json)))
+        .catch(err => onError(err instanceof Error ? err.message : String(err)));
+}
+
+const fileInputClassName = "w-full text-sm text-hitech-text-primary file:mr-4 file:py-1 file:px-3 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-hitech-surface-hover file:text-hitech-text-primary hover:file:bg-hitech-border";
+
+const EvaluationScreen: React.FC<EvaluationScreenProps> = ({ store, onRun, onBack }) => {
+    const [goldenSet, setGoldenSet] = useState<GoldenSet | null>(null);
+    const [recording, setRecording] = useState<ResponseRecording | null>(null);
+    const [useRecording, setUseRecording] = useState(false);
+    const [baseline, setBaseline] = useState<EvaluationReport | null>(null);
+    const [run, setRun] = useState<EvaluationRun | null>(null);
+    const [progress, setProgress] = useState<{ done: number, total: number } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    const isRunning = progress !== null;
+    const canRun = !!goldenSet && (!useRecording || !!recording) && !isRunning;
+
+    const handleRun = async () => {
+        if (!goldenSet) return;
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setError(null);
+        setRun(null);
+        setProgress({ done: 0, total: goldenSet.questions.length });
+        try {
+            setRun(await onRun(store.name, goldenSet, useRecording ? recording : null, (done, total) => setProgress({ done, total }), controller.signal));
+        } catch (err) {
+            if (!controller.signal.aborted) setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            abortControllerRef.current = null;
+            setProgress(null);
+        }
+    };
+
+    const handleDownloadReport = () => {
+        if (!run) return;
+        downloadFile(JSON.stringify(run.report, null, 2), `evaluation_${run.report.startedAt.slice(0, 19).replace(/\D/g, '')}.json`, 'application/json');
+    };
+
+    const handleDownloadRecording = () => {
+        if (!run?.recording) return;
+        downloadFile(JSON.stringify(run.recording, null, 2), `recording_${run.recording.recordedAt.slice(0, 19).replace(/\D/g, '')}.json`, 'application/json');
+    };
+
+    const renderDelta = (metric: SummaryMetric, current: number | null, previous: number | null) => {
+        if (current === null || previous === null || current === previous) return null;
+        const isBetter = (current > previous) === metric.higherIsBetter;
+        const sign = current > previous ? '+' : '−';
+        return <span className={isBetter ? 'text-green-400' : 'text-red-400'}>{sign}{metric.format(Math.abs(current - previous))}</span>;
+    };
+
+    return (
+        <div className="flex flex-col h-full p-4 sm:p-6 lg:p-8">
+            <div className="w-full max-w-5xl mx-auto flex flex-col flex-grow min-h-0">
+                <div className="flex items-center space-x-4 mb-6 min-w-0">
+                    <button
+                        onClick={onBack}
+                        disabled={isRunning}
+                        className="px-4 py-2 bg-hitech-surface hover:bg-hitech-surface-hover rounded-full text-hitech-text-primary font-semibold transition-colors flex-shrink-0 disabled:opacity-50"
+                        title={t('evaluation.backTitle')}
+                    >
+                        {t('evaluation.back')}
+                    </button>
+                    <h1 className="text-3xl font-bold truncate" title={store.name}>{t('evaluation.title', { name: store.displayName })}</h1>
+                </div>
+
+                <section className="bg-hitech-surface/50 border border-hitech-border rounded-lg p-4 mb-6 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                    <div>
+                        <label htmlFor="golden-set" className="block font-medium text-hitech-text-secondary mb-2">{t('evaluation.goldenSet')}</label>
+                        <input
+                            id="golden-set"
+                            type="file"
+                            accept=".json,application/json"
+                            disabled={isRunning}
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                setGoldenSet(null);
+                                if (file) readFile(file, json => parseGoldenSet(json, file.name.replace(/\.json$/i, '')), setGoldenSet, setError);
+                            }}
+                            className={fileInputClassName}
+                        />
+                        <p className="mt-2 text-xs text-hitech-text-secondary">
+                            {goldenSet ? t('evaluation.goldenSetLoaded', { name: goldenSet.name, count: goldenSet.questions.length }) : t('evaluation.goldenSetHint')}
+                        </p>
+                    </div>
+                    <div>
+                        <span className="block font-medium text-hitech-text-secondary mb-2">{t('evaluation.mode')}</span>
+                        <label className="flex items-center space-x-2 mb-1 cursor-pointer">
+                            <input type="radio" checked={!useRecording} onChange={() => setUseRecording(false)} disabled={isRunning} className="accent-hitech-accent" />
+                            <span title={t('evaluation.modeLiveTitle')}>{t('evaluation.modeLive')}</span>
+                        </label>
+                        <label className="flex items-center space-x-2 mb-2 cursor-pointer">
+                            <input type="radio" checked={useRecording} onChange={() => setUseRecording(true)} disabled={isRunning} className="accent-hitech-accent" />
+                            <span title={t('evaluation.modeReplayTitle')}>{t('evaluation.modeReplay')}</span>
+                        </label>
+                        {useRecording && (
+                            <input
+                                type="file"
+                                accept=".json,application/json"
+                                disabled={isRunning}
+                                aria-label={t('evaluation.recordingFile')}
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0];
+                                    setRecording(null);
+                                    if (file) readFile(file, parseRecording, setRecording, setError);
+                                }}
+                                className={fileInputClassName}
+                            />
+                        )}
+                    </div>
+                    <div>
+                        <label htmlFor="baseline-report" className="block font-medium text-hitech-text-secondary mb-2">{t('evaluation.baseline')}</label>
+                        <input
+                            id="baseline-report"
+                            type="file"
+                            accept=".json,application/json"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                setBaseline(null);
+                                if (file) readFile(file, parseReport, setBaseline, setError);
+                            }}
+                            className={fileInputClassName}
+                        />
+                        {baseline && (
+                            <p className="mt-2 text-xs text-hitech-text-secondary">
+                                {t('evaluation.baselineLoaded', { name: baseline.goldenSet, date: formatDateTime(baseline.startedAt, { dateStyle: 'short', timeStyle: 'short' }) })}
+                            </p>
+                        )}
+                    </div>
+                </section>
+
+                <div className="flex flex-wrap items-center gap-3 mb-4">
+                    {isRunning ? (
+                        <button
+                            onClick={() => abortControllerRef.current?.abort()}
+                            className="px-6 py-2 rounded-full bg-red-500 hover:bg-red-400 text-hitech-dark font-semibold transition-colors"
+                        >
+                            {t('evaluation.stop')}
+                        </button>
+                    ) : (
+                        <button
+                            onClick={handleRun}
+                            disabled={!canRun}
+                            className="px-6 py-2 rounded-full bg-hitech-accent hover:bg-hitech-accent-hover text-hitech-dark font-semibold transition-colors disabled:bg-hitech-border/50 disabled:cursor-not-allowed"
+                        >
+                            {t('evaluation.run')}
+                        </button>
+                    )}
+                    {progress && (
+                        <span className="flex items-center text-sm text-hitech-text-secondary">
+                            <Spinner />
+                            <span className="ml-2">{t('evaluation.progress', { done: progress.done, total: progress.total })}</span>
+                        </span>
+                    )}
+                    {run && (
+                        <>
+                            <button onClick={handleDownloadReport} className="px-4 py-2 rounded-md bg-hitech-surface hover:bg-hitech-surface-hover text-sm transition-colors" title={t('evaluation.downloadReportTitle')}>
+                                {t('evaluation.downloadReport')}
+                            </button>
+                            {run.recording && (
+                                <button onClick={handleDownloadRecording} className="px-4 py-2 rounded-md bg-hitech-surface hover:bg-hitech-surface-hover text-sm transition-colors" title={t('evaluation.downloadRecordingTitle')}>
+                                    {t('evaluation.downloadRecording')}
+                                </button>
+                            )}
+                        </>
+                    )}
+                </div>
+
+                {error && <p className="mb-4 text-sm text-red-400" role="alert">{error}</p>}
+
+                {run && (
+                    <div className="flex flex-col min-h-0 overflow-y-auto space-y-6">
+                        <table className="text-sm w-full max-w-xl">
+                            <thead>
+                                <tr className="text-left text-hitech-text-secondary">
+                                    <th className="pr-4 py-1 font-semibold">{t('evaluation.metric')}</th>
+                                    <th className="pr-4 py-1 font-semibold">{t('evaluation.thisRun')}</th>
+                                    {baseline && <th className="pr-4 py-1 font-semibold">{t('evaluation.baselineColumn')}</th>}
+                                    {baseline && <th className="py-1 font-semibold">{t('evaluation.delta')}</th>}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {SUMMARY_METRICS.map(metric => {
+                                    const current = run.report.summary[metric.key];
+                                    const previous = baseline ? baseline.summary[metric.key] : null;
+                                    return (
+                                        <tr key={metric.key}>
+                                            <td className="pr-4 py-1 text-hitech-text-secondary">{t(metric.labelKey)}</td>
+                                            <td className="pr-4 py-1">{current === null ? '–' : metric.format(current)}</td>
+                                            {baseline && <td className="pr-4 py-1">{previous === null ? '–' : metric.format(previous)}</td>}
+                                            {baseline && <td className="py-1">{renderDelta(metric, current, previous)}</td>}
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+
+                        <table className="text-xs w-full">
+                            <thead>
+                                <tr className="text-left text-hitech-text-secondary border-b border-hitech-border">
+                                    <th className="pr-4 py-2 font-semibold">{t('evaluation.question')}</th>
+                                    <th className="pr-4 py-2 font-semibold">{t('evaluation.retrieval')}</th>
+                                    <th className="pr-4 py-2 font-semibold">{t('evaluation.keywords')}</th>
+                                    <th className="py-2 font-semibold text-right">{t('evaluation.latency')}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {run.report.cases.map((evaluationCase, index) => (
+                                    <tr key={index} className="border-b border-hitech-border/50 align-top">
+                                        <td className="pr-4 py-2">
+                                            <p className="text-hitech-text-primary">{evaluationCase.question}</p>
+                                            {evaluationCase.error && <p className="text-red-400 mt-1">{evaluationCase.error}</p>}
+                                        </td>
+                                        <td className="pr-4 py-2" title={t('evaluation.retrievedDocuments', { names: evaluationCase.retrievedDocuments.join(', ') || '–' })}>
+                                            {evaluationCase.retrievalHit === null ? '–' : evaluationCase.retrievalHit
+                                                ? <span className="text-green-400">{t('evaluation.hit')}</span>
+                                                : <span className="text-red-400">{t('evaluation.miss')}</span>}
+                                        </td>
+                                        <td
+                                            className="pr-4 py-2"
+                                            title={evaluationCase.expectedKeywords.filter(k => !evaluationCase.matchedKeywords.includes(k)).length > 0
+                                                ? t('evaluation.missingKeywords', { keywords: evaluationCase.expectedKeywords.filter(k => !evaluationCase.matchedKeywords.includes(k)).join(', ') })
+                                                : undefined}
+                                        >
+                                            {evaluationCase.keywordCoverage === null ? '–' : `${formatPercent(evaluationCase.keywordCoverage)} (${evaluationCase.matchedKeywords.length}/${evaluationCase.expectedKeywords.length})`}
+                                        </td>
+                                        <td className="py-2 text-right">{evaluationCase.latencyMs === null ? '–' : formatMs(evaluationCase.latencyMs)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default EvaluationScreen;
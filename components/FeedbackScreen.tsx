@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { FeedbackEntry, FeedbackExportFormat } from '../types';
+import { groupSourcesByDocument } from '../utils/sources';
+import { downloadFeedback } from '../utils/feedbackExport';
+import Spinner from './Spinner';
+import RefreshIcon from './icons/RefreshIcon';
+import TrashIcon from './icons/TrashIcon';
+import ThumbUpIcon from './icons/ThumbUpIcon';
+import ThumbDownIcon from './icons/ThumbDownIcon';
+import { t, formatDateTime, MessageKey } from '../utils/i18n';
+
+type FeedbackFilter = 'all' | 'up' | 'down' | 'wrongSource';
+
+const FILTERS: { value: FeedbackFilter, labelKey: MessageKey }[] = [
+    { value: 'all', labelKey: 'feedback.filterAll' },
+    { value: 'down', labelKey: 'feedback.filterDown' },
+    { value: 'up', labelKey: 'feedback.filterUp' },
+    { value: 'wrongSource', labelKey: 'feedback.filterWrongSource' },
+];
+
+const matchesFilter = (entry: FeedbackEntry, filter: FeedbackFilter): boolean => {
+    if (filter === 'all') return true;
+    if (filter === 'wrongSource') return !!entry.wrongSource;
+    return entry.rating === filter;
+};
+
+interface FeedbackScreenProps {
+    entries: FeedbackEntry[];
+    isLoading: boolean;
+    onDelete: (id: string) => void;
+    onRefresh: () => void;
+    onBack: () => void;
+}
+
+const FeedbackScreen: React.FC<FeedbackScreenProps> = ({ entries, isLoading, onDelete, onRefresh, onBack }) => {
+    const [filter, setFilter] = useState<FeedbackFilter>('down');
+
+    const filteredEntries = entries.filter(entry => matchesFilter(entry, filter));
+
+    const handleExport = (format: FeedbackExportFormat) => {
+        downloadFeedback(filteredEntries, format);
+    };
+
+    const handleDelete = (entry: FeedbackEntry) => {
+        if (window.confirm(t('feedback.confirmDelete'))) onDelete(entry.id);
+    };
+
+    return (
+        <div className="flex flex-col h-full p-4 sm:p-6 lg:p-8">
+            <div className="w-full max-w-4xl mx-auto flex flex-col flex-grow min-h-0">
+                <div className="flex justify-between items-center mb-6">
+                    <div className="flex items-center space-x-4 min-w-0">
+                        <button
+                            onClick={onBack}
+                            className="px-4 py-2 bg-hitech-surface hover:bg-hitech-surface-hover rounded-full text-hitech-text-primary font-semibold transition-colors flex-shrink-0"
+                            title={t('feedback.backTitle')}
+                        >
+                            {t('feedback.back')}
+                        </button>
+                        <h1 className="text-3xl font-bold truncate">{t('feedback.title')}</h1>
+                    </div>
+                    <button
+                        onClick={onRefresh}
+                        disabled={isLoading}
+                        className="p-2 bg-hitech-surface hover:bg-hitech-surface-hover rounded-full text-hitech-text-primary transition-colors disabled:bg-hitech-border"
+                        aria-label={t('feedback.refresh')}
+                        title={t('feedback.refresh')}
+                    >
+                        <RefreshIcon />
+                    </button>
+                </div>
+
+                <div className="flex flex-wrap justify-between items-center gap-3 mb-4 text-sm">
+                    <label className="flex items-center space-x-2">
+                        <span>{t('feedback.show')}</span>
+                        <select
+                            value={filter}
+                            onChange={(e) => setFilter(e.target.value as FeedbackFilter)}
+                            className="bg-hitech-dark border border-hitech-border rounded-md py-1 px-2 focus:outline-none focus:ring-2 focus:ring-hitech-accent"
+                        >
+                            {FILTERS.map(({ value, labelKey }) => (
+                                <option key={value} value={value}>
+                                    {t(labelKey)} ({entries.filter(entry => matchesFilter(entry, value)).length})
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                    <div className="flex items-center space-x-2">
+                        <span className="text-hitech-text-secondary">{t('feedback.export')}</span>
+                        {(['csv', 'json'] as FeedbackExportFormat[]).map(format => (
+                            <button
+                                key={format}
+                                onClick={() => handleExport(format)}
+                                disabled={filteredEntries.length === 0}
+                                className="px-3 py-1 rounded-md bg-hitech-surface hover:bg-hitech-surface-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                title={t('feedback.exportTitle', { count: filteredEntries.length })}
+                            >
+                                {format.toUpperCase()}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {isLoading && entries.length === 0 ? (
+                    <div className="flex-grow flex items-center justify-center">
+                        <Spinner />
+                    </div>
+                ) : filteredEntries.length === 0 ? (
+                    <p className="flex-grow flex items-center justify-center text-hitech-text-secondary text-center">
+                        {entries.length > 0 ? t('feedback.noMatches') : t('feedback.empty')}
+                    </p>
+                ) : (
+                    <ul className="space-y-3 overflow-y-auto">
+                        {filteredEntries.map(entry => (
+                            <li key={entry.id} className="p-4 bg-hitech-surface rounded-lg border border-hitech-border text-sm group">
+                                <div className="flex items-start justify-between gap-3">
+                                    <div className="flex items-center space-x-2 text-xs text-hitech-text-secondary min-w-0">
+                                        <span className={entry.rating === 'up' ? 'text-hitech-accent' : 'text-red-400'} title={entry.rating === 'up' ? t('feedback.filterUp') : t('feedback.filterDown')}>
+                                            {entry.rating === 'up' ? <ThumbUpIcon /> : <ThumbDownIcon />}
+                                        </span>
+                                        <span>{formatDateTime(entry.updatedAt, { dateStyle: 'short', timeStyle: 'short' })}</span>
+                                        <span className="truncate font-mono" title={entry.storeName}>{entry.storeName}</span>
+                                        {entry.wrongSource && (
+                                            <span className="flex-shrink-0 px-2 py-0.5 rounded-full bg-red-500/20 text-red-300">{t('feedback.wrongSource')}</span>
+                                        )}
+                                    </div>
+                                    <button
+                                        onClick={() => handleDelete(entry)}
+                                        className="p-1 text-red-400 hover:text-red-300 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                                        aria-label={t('feedback.delete')}
+                                        title={t('feedback.delete')}
+                                    >
+                                        <TrashIcon />
+                                    </button>
+                                </div>
+                                <p className="mt-2 font-semibold text-hitech-text-primary">{entry.question}</p>
+                                {entry.comment && <p className="mt-2 italic text-hitech-text-secondary">“{entry.comment}”</p>}
+                                <details className="mt-2">
+                                    <summary className="cursor-pointer text-xs text-hitech-text-secondary hover:text-hitech-text-primary">{t('feedback.answerAndSources')}</summary>
+                                    <p className="mt-2 whitespace-pre-wrap text-hitech-text-primary/90">{entry.answer}</p>
+                                    {entry.groundingChunks.length > 0 && (
+                                        <ul className="mt-2 pt-2 border-t border-hitech-border/50 space-y-1 text-xs text-hitech-text-secondary">
+                                            {groupSourcesByDocument(entry.groundingChunks).map(group => (
+                                                <li key={group.title}>
+                                                    <span className="text-hitech-text-primary/80">{group.title}</span>
+                                                    {group.sources.map(source => ` [${source.index + 1}]${source.location ? ` ${source.location}` : ''}`).join('')}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                </details>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default FeedbackScreen;
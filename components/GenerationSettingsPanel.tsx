@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { GenerationSettings } from '../types';
+import { AVAILABLE_MODELS, getDefaultGenerationSettings } from '../services/generationSettings';
+import { t } from '../utils/i18n';
+
+interface GenerationSettingsPanelProps {
+    settings: GenerationSettings;
+    onChange: (settings: GenerationSettings) => void;
+}
+
+const inputClassName = "bg-hitech-dark border border-hitech-border rounded-md py-1 px-2 focus:outline-none focus:ring-2 focus:ring-hitech-accent text-hitech-text-primary";
+
+const GenerationSettingsPanel: React.FC<GenerationSettingsPanelProps> = ({ settings, onChange }) => {
+    // An empty field leaves the parameter to the model's default.
+    const handleOptionalNumberChange = (field: 'temperature' | 'maxOutputTokens', value: string) => {
+        const parsed = field === 'temperature' ? parseFloat(value) : parseInt(value, 10);
+        const isUnset = isNaN(parsed) || (field === 'maxOutputTokens' && parsed < 1);
+        onChange({ ...settings, [field]: isUnset ? undefined : Math.max(0, parsed) });
+    };
+
+    const models = AVAILABLE_MODELS.includes(settings.model) ? AVAILABLE_MODELS : [settings.model, ...AVAILABLE_MODELS];
+
+    return (
+        <div className="mb-3 px-4 py-3 bg-hitech-surface border border-hitech-border rounded-lg text-sm text-hitech-text-secondary space-y-3">
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+                <label className="flex items-center space-x-2">
+                    <span>{t('generation.model')}</span>
+                    <select
+                        value={settings.model}
+                        onChange={(e) => onChange({ ...settings, model: e.target.value })}
+                        className={inputClassName}
+                    >
+                        {models.map(model => <option key={model} value={model}>{model}</option>)}
+                    </select>
+                </label>
+                <label className="flex items-center space-x-2">
+                    <span>{t('generation.temperature')}</span>
+                    <input
+                        type="number"
+                        min={0}
+                        max={2}
+                        step={0.1}
+                        value={settings.temperature ?? ''}
+                        placeholder={t('generation.defaultValue')}
+                        onChange={(e) => handleOptionalNumberChange('temperature', e.target.value)}
+                        className={`w-24 ${inputClassName}`}
+                        title={t('generation.temperatureTitle')}
+                    />
+                </label>
+                <label className="flex items-center space-x-2">
+                    <span>{t('generation.maxOutputTokens')}</span>
+                    <input
+                        type="number"
+                        min={1}
+                        step={256}
+                        value={settings.maxOutputTokens ?? ''}
+                        placeholder={t('generation.defaultValues')}
+                        onChange={(e) => handleOptionalNumberChange('maxOutputTokens', e.target.value)}
+                        className={`w-28 ${inputClassName}`}
+                        title={t('generation.maxOutputTokensTitle')}
+                    />
+                </label>
+            </div>
+            <label className="block">
+                <span className="block mb-1">{t('generation.systemInstruction')}</span>
+                <textarea
+                    value={settings.systemInstruction}
+                    onChange={(e) => onChange({ ...settings, systemInstruction: e.target.value })}
+                    rows={3}
+                    className={`w-full resize-y ${inputClassName}`}
+                    placeholder={t('generation.systemInstructionPlaceholder')}
+                />
+            </label>
+            <div className="text-right">
+                <button
+                    type="button"
+                    onClick={() => onChange(getDefaultGenerationSettings())}
+                    className="text-xs hover:text-hitech-accent-hover transition-colors"
+                    title={t('generation.resetTitle')}
+                >
+                    {t('generation.reset')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default GenerationSettingsPanel;
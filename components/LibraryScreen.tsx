@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { RagStore, Document, CustomMetadata } from '../types';
+import RagStoreList from './RagStoreList';
+import DocumentList from './DocumentList';
+import { t } from '../utils/i18n';
+
+interface LibraryScreenProps {
+    stores: RagStore[];
+    selectedStore: RagStore | null;
+    documents: Document[];
+    isStoresLoading: boolean;
+    isDocumentsLoading: boolean;
+    processingFile: string | null;
+    onCreateStore: (displayName: string) => void;
+    onSelectStore: (store: RagStore) => void;
+    onDeleteStore: (storeName: string) => void;
+    onRefreshStores: () => void;
+    onUploadDocument: (file: File, metadata: CustomMetadata[]) => void;
+    onDeleteDocument: (docName: string) => void;
+    onStartChat: () => void;
+    onOpenMaintenance: () => void;
+    onOpenEvaluation: () => void;
+    onBack: () => void;
+}
+
+const LibraryScreen: React.FC<LibraryScreenProps> = ({
+    stores,
+    selectedStore,
+    documents,
+    isStoresLoading,
+    isDocumentsLoading,
+    processingFile,
+    onCreateStore,
+    onSelectStore,
+    onDeleteStore,
+    onRefreshStores,
+    onUploadDocument,
+    onDeleteDocument,
+    onStartChat,
+    onOpenMaintenance,
+    onOpenEvaluation,
+    onBack,
+}) => {
+    const canStartChat = !!selectedStore && documents.length > 0 && !processingFile;
+
+    return (
+        <div className="flex flex-col h-full p-4 sm:p-6 lg:p-8">
+            <div className="w-full max-w-6xl mx-auto flex flex-col flex-grow">
+                <div className="flex justify-between items-center mb-6">
+                    <div className="flex items-center space-x-4 min-w-0">
+                        <button
+                            onClick={onBack}
+                            className="px-4 py-2 bg-hitech-surface hover:bg-hitech-surface-hover rounded-full text-hitech-text-primary font-semibold transition-colors flex-shrink-0"
+                            title={t('library.backTitle')}
+                        >
+                            {t('library.back')}
+                        </button>
+                        <h1 className="text-3xl font-bold truncate">{t('library.title')}</h1>
+                    </div>
+                    <div className="flex items-center space-x-2 flex-shrink-0">
+                        <button
+                            onClick={onOpenMaintenance}
+                            className="px-4 py-2 bg-hitech-surface hover:bg-hitech-surface-hover rounded-full text-hitech-text-primary font-semibold transition-colors"
+                            title={t('library.maintenanceTitle')}
+                        >
+                            {t('library.maintenance')}
+                        </button>
+                        <button
+                            onClick={onOpenEvaluation}
+                            disabled={!selectedStore || !!processingFile}
+                            className="px-4 py-2 bg-hitech-surface hover:bg-hitech-surface-hover rounded-full text-hitech-text-primary font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            title={selectedStore ? t('library.evaluationTitle', { name: selectedStore.displayName }) : t('library.evaluationDisabled')}
+                        >
+                            {t('library.evaluation')}
+                        </button>
+                        <button
+                            onClick={onStartChat}
+                            disabled={!canStartChat}
+                            className="px-6 py-2 rounded-full bg-hitech-accent hover:bg-hitech-accent-hover text-hitech-dark font-semibold transition-colors disabled:bg-hitech-border/50 disabled:cursor-not-allowed flex-shrink-0"
+                            title={canStartChat ? t('library.startChatTitle', { name: selectedStore!.displayName }) : t('library.startChatDisabled')}
+                        >
+                            {t('library.startChat')}
+                        </button>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 flex-grow min-h-[60vh]">
+                    <section className="bg-hitech-surface/50 border border-hitech-border rounded-lg p-4 flex flex-col min-h-0">
+                        <RagStoreList
+                            stores={stores}
+                            selectedStore={selectedStore}
+                            isLoading={isStoresLoading}
+                            onCreate={onCreateStore}
+                            onSelect={onSelectStore}
+                            onDelete={onDeleteStore}
+                            onRefresh={onRefreshStores}
+                        />
+                    </section>
+                    <section className="bg-hitech-surface/50 border border-hitech-border rounded-lg p-4 flex flex-col min-h-0">
+                        <DocumentList
+                            selectedStore={selectedStore}
+                            documents={documents}
+                            isLoading={isDocumentsLoading}
+                            processingFile={processingFile}
+                            onUpload={onUploadDocument}
+                            onDelete={onDeleteDocument}
+                        />
+                    </section>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LibraryScreen;
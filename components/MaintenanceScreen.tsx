@@ -0,0 +1,185 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { RagStore } from '../types';
+import { getSessionStoreCreatedAt } from '../services/storeMaintenance';
+import Spinner from './Spinner';
+import RefreshIcon from './icons/RefreshIcon';
+import { t } from '../utils/i18n';
+
+interface MaintenanceScreenProps {
+    stores: RagStore[];
+    isLoading: boolean;
+    // Stores in use by the open chat or an interrupted upload; they cannot be selected.
+    protectedStoreNames: string[];
+    ttlHours: number | null;
+    onTtlHoursChange: (hours: number | null) => void;
+    onDeleteStores: (storeNames: string[]) => Promise<void>;
+    onRefresh: () => void;
+    onBack: () => void;
+}
+
+const DEFAULT_TTL_HOURS = 24;
+
+function formatAge(createdAt: Date | null): string {
+    if (!createdAt) return t('maintenance.ageUnknown');
+    const hours = Math.floor((Date.now() - createdAt.getTime()) / (60 * 60 * 1000));
+    if (hours < 1) return t('maintenance.ageUnderAnHour');
+    if (hours < 48) return t('maintenance.ageHours', { count: hours });
+    return t('maintenance.ageDays', { count: Math.floor(hours / 24) });
+}
+
+const MaintenanceScreen: React.FC<MaintenanceScreenProps> = ({ stores, isLoading, protectedStoreNames, ttlHours, onTtlHoursChange, onDeleteStores, onRefresh, onBack }) => {
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [ttlInput, setTtlInput] = useState(String(ttlHours ?? DEFAULT_TTL_HOURS));
+
+    const selectableStores = stores.filter(store => !protectedStoreNames.includes(store.name));
+
+    // Drop selections for stores that disappeared after a refresh or deletion.
+    useEffect(() => {
+        setSelected(prev => new Set(Array.from(prev).filter(name => stores.some(store => store.name === name))));
+    }, [stores]);
+
+    const toggleStore = (storeName: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(storeName)) next.delete(storeName);
+            else next.add(storeName);
+            return next;
+        });
+    };
+
+    const toggleAll = () => {
+        setSelected(selected.size === selectableStores.length ? new Set() : new Set(selectableStores.map(store => store.name)));
+    };
+
+    const handleDeleteSelected = async () => {
+        if (!window.confirm(t('maintenance.confirmDelete', { count: selected.size }))) return;
+        await onDeleteStores(Array.from(selected));
+    };
+
+    const handleTtlToggle = (enabled: boolean) => {
+        onTtlHoursChange(enabled ? Math.max(1, Number(ttlInput) || DEFAULT_TTL_HOURS) : null);
+    };
+
+    const handleTtlInputChange = (value: string) => {
+        setTtlInput(value);
+        const hours = Number(value);
+        if (ttlHours !== null && hours > 0) onTtlHoursChange(hours);
+    };
+
+    return (
+        <div className="flex flex-col h-full p-4 sm:p-6 lg:p-8">
+            <div className="w-full max-w-4xl mx-auto flex flex-col flex-grow">
+                <div className="flex justify-between items-center mb-6">
+                    <div className="flex items-center space-x-4 min-w-0">
+                        <button
+                            onClick={onBack}
+                            className="px-4 py-2 bg-hitech-surface hover:bg-hitech-surface-hover rounded-full text-hitech-text-primary font-semibold transition-colors flex-shrink-0"
+                            title={t('maintenance.backTitle')}
+                        >
+                            {t('maintenance.back')}
+                        </button>
+                        <h1 className="text-3xl font-bold truncate">{t('maintenance.title')}</h1>
+                    </div>
+                    <button
+                        onClick={onRefresh}
+                        disabled={isLoading}
+                        className="p-2 bg-hitech-surface hover:bg-hitech-surface-hover rounded-full text-hitech-text-primary transition-colors disabled:bg-hitech-border"
+                        aria-label={t('maintenance.refresh')}
+                        title={t('maintenance.refreshTitle')}
+                    >
+                        <RefreshIcon />
+                    </button>
+                </div>
+
+                <p className="text-sm text-hitech-text-secondary mb-4">
+                    {t('maintenance.intro')}
+                </p>
+
+                <section className="bg-hitech-surface/50 border border-hitech-border rounded-lg p-4 mb-6">
+                    <label className="flex items-center space-x-3 text-sm">
+                        <input
+                            type="checkbox"
+                            checked={ttlHours !== null}
+                            onChange={(e) => handleTtlToggle(e.target.checked)}
+                            className="h-4 w-4 accent-hitech-accent"
+                        />
+                        <span>{t('maintenance.ttlLabel')}</span>
+                        <input
+                            type="number"
+                            min={1}
+                            value={ttlInput}
+                            onChange={(e) => handleTtlInputChange(e.target.value)}
+                            className="w-20 bg-hitech-dark border border-hitech-border rounded-md py-1 px-2 focus:outline-none focus:ring-2 focus:ring-hitech-accent"
+                            aria-label={t('maintenance.ttlInput')}
+                        />
+                        <span>{t('maintenance.hours')}</span>
+                    </label>
+                </section>
+
+                <section className="bg-hitech-surface/50 border border-hitech-border rounded-lg p-4 flex flex-col flex-grow min-h-0">
+                    <div className="flex justify-between items-center mb-4">
+                        <label className="flex items-center space-x-2 text-sm">
+                            <input
+                                type="checkbox"
+                                checked={selectableStores.length > 0 && selected.size === selectableStores.length}
+                                onChange={toggleAll}
+                                disabled={selectableStores.length === 0}
+                                className="h-4 w-4 accent-hitech-accent"
+                            />
+                            <span>{t('maintenance.selectAll', { count: stores.length })}</span>
+                        </label>
+                        <button
+                            onClick={handleDeleteSelected}
+                            disabled={selected.size === 0 || isLoading}
+                            className="px-4 py-2 rounded-md bg-red-500 hover:bg-red-400 text-hitech-dark font-semibold transition-colors disabled:bg-hitech-border/50 disabled:cursor-not-allowed"
+                            title={t('maintenance.deleteSelectedTitle')}
+                        >
+                            {t('maintenance.deleteSelected', { count: selected.size })}
+                        </button>
+                    </div>
+
+                    {isLoading && stores.length === 0 ? (
+                        <div className="flex-grow flex items-center justify-center">
+                            <Spinner />
+                        </div>
+                    ) : stores.length === 0 ? (
+                        <p className="flex-grow flex items-center justify-center text-hitech-text-secondary">{t('maintenance.empty')}</p>
+                    ) : (
+                        <ul className="space-y-2 overflow-y-auto">
+                            {stores.map(store => {
+                                const isProtected = protectedStoreNames.includes(store.name);
+                                return (
+                                    <li key={store.name}>
+                                        <label className={`flex items-center justify-between p-3 rounded-md bg-hitech-surface ${isProtected ? 'opacity-60' : 'hover:bg-hitech-surface-hover cursor-pointer'}`}>
+                                            <span className="flex items-center space-x-3 min-w-0">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={selected.has(store.name)}
+                                                    onChange={() => toggleStore(store.name)}
+                                                    disabled={isProtected}
+                                                    className="h-4 w-4 accent-hitech-accent"
+                                                />
+                                                <span className="truncate" title={store.name}>{store.displayName}</span>
+                                            </span>
+                                            <span className="flex-shrink-0 text-xs text-hitech-text-secondary ml-4">
+                                                {isProtected ? t('maintenance.inUse') : ''}
+                                                {t('maintenance.age', { age: formatAge(getSessionStoreCreatedAt(store)) })}
+                                                {store.documentCount !== undefined && t('maintenance.documentCount', { count: store.documentCount })}
+                                            </span>
+                                        </label>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </section>
+            </div>
+        </div>
+    );
+};
+
+export default MaintenanceScreen;
@@ -0,0 +1,309 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { CropBox, Rotation, NO_CROP, rotateQuarter, transformImage, canvasToBlob } from '../utils/images';
+import { createImagePdf, PdfImagePage } from '../utils/pdf';
+import { t } from '../utils/i18n';
+import CameraCapture from './CameraCapture';
+import CameraIcon from './icons/CameraIcon';
+import TrashIcon from './icons/TrashIcon';
+import Spinner from './Spinner';
+import PageEditor from './PageEditor';
+
+interface ManualScannerProps {
+    // Photos to start from, e.g. image files dropped on the upload area.
+    initialPhotos?: File[];
+    onCreate: (pdf: File) => void;
+    onClose: () => void;
+}
+
+interface ScannedPage {
+    id: string;
+    photo: Blob;
+    rotation: Rotation;
+    crop: CropBox;
+    thumbnailUrl: string;
+}
+
+const THUMBNAIL_SIDE = 320;
+// Sharp enough to read small print on a photographed page while keeping each page a few hundred KB.
+const PDF_PAGE_SIDE = 2000;
+
+// Characters that are not allowed in file names on common systems; the name becomes the document's display name.
+const UNSAFE_FILE_NAME_CHARACTERS = /[\\/:*?"<>|]+/g;
+
+function toPdfFileName(title: string): string {
+    return `${title.trim().replace(/\.pdf$/i, '').replace(UNSAFE_FILE_NAME_CHARACTERS, '-')}.pdf`;
+}
+
+async function renderThumbnail(photo: Blob, rotation: Rotation, crop: CropBox): Promise<string> {
+    const canvas = await transformImage(photo, rotation, crop, THUMBNAIL_SIDE);
+    return URL.createObjectURL(await canvasToBlob(canvas));
+}
+
+// Turns photos of a paper manual, taken with the camera or picked from the device, into a single
+// PDF with one page per photo.
+const ManualScanner: React.FC<ManualScannerProps> = ({ initialPhotos, onCreate, onClose }) => {
+    const [pages, setPages] = useState<ScannedPage[]>([]);
+    const [title, setTitle] = useState('');
+    const [isCameraOpen, setIsCameraOpen] = useState(false);
+    const [editingPageId, setEditingPageId] = useState<string | null>(null);
+    const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+    const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+    const [isCreating, setIsCreating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    // Every thumbnail URL created so far; those no page shows any more are revoked.
+    const thumbnailUrlsRef = useRef(new Set<string>());
+
+    useEffect(() => {
+        const inUse = new Set(pages.map(page => page.thumbnailUrl));
+        thumbnailUrlsRef.current.forEach(url => {
+            if (inUse.has(url)) return;
+            URL.revokeObjectURL(url);
+            thumbnailUrlsRef.current.delete(url);
+        });
+    }, [pages]);
+
+    useEffect(() => () => thumbnailUrlsRef.current.forEach(url => URL.revokeObjectURL(url)), []);
+
+    const addPhotos = async (photos: Blob[]) => {
+        setError(null);
+        for (const photo of photos) {
+            if (!photo.type.startsWith('image/')) {
+                setError(t('scanner.notAnImage', { name: photo instanceof File ? photo.name : '' }));
+                continue;
+            }
+            try {
+                const thumbnailUrl = await renderThumbnail(photo, 0, NO_CROP);
+                thumbnailUrlsRef.current.add(thumbnailUrl);
+                const id = `page-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+                setPages(prev => [...prev, { id, photo, rotation: 0, crop: NO_CROP, thumbnailUrl }]);
+            } catch (err) {
+                console.error("Impossibile leggere la foto della pagina", err);
+                setError(err instanceof Error ? err.message : t('images.unreadable'));
+            }
+        }
+    };
+
+    // StrictMode runs mount effects twice; the ref keeps the initial photos from being added twice.
+    const hasAddedInitialPhotosRef = useRef(false);
+    useEffect(() => {
+        if (hasAddedInitialPhotosRef.current || !initialPhotos?.length) return;
+        hasAddedInitialPhotosRef.current = true;
+        addPhotos(initialPhotos);
+    }, [initialPhotos]);
+
+    const updatePage = async (id: string, rotation: Rotation, crop: CropBox) => {
+        const page = pages.find(candidate => candidate.id === id);
+        if (!page) return;
+        try {
+            const thumbnailUrl = await renderThumbnail(page.photo, rotation, crop);
+            thumbnailUrlsRef.current.add(thumbnailUrl);
+            setPages(prev => prev.map(candidate => candidate.id === id ? { ...candidate, rotation, crop, thumbnailUrl } : candidate));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : t('images.unreadable'));
+        }
+    };
+
+    const movePage = (from: number, to: number) => {
+        if (to < 0 || to >= pages.length || from === to) return;
+        setPages(prev => {
+            const next = [...prev];
+            const [moved] = next.splice(from, 1);
+            next.splice(to, 0, moved);
+            return next;
+        });
+    };
+
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from<File>(event.target.files || []);
+        event.target.value = '';
+        addPhotos(files);
+    };
+
+    // Dragging a thumbnail reorders the pages; dropping image files from outside adds them.
+    const handleDragOver = (event: React.DragEvent<HTMLElement>) => {
+        event.preventDefault();
+        if (draggedIndex === null && !isDraggingFiles) setIsDraggingFiles(true);
+    };
+
+    const handleDrop = (event: React.DragEvent<HTMLElement>, targetIndex?: number) => {
+        event.preventDefault();
+        event.stopPropagation();
+        setIsDraggingFiles(false);
+        if (draggedIndex !== null) {
+            movePage(draggedIndex, targetIndex ?? pages.length - 1);
+            setDraggedIndex(null);
+        } else if (event.dataTransfer.files?.length) {
+            addPhotos(Array.from<File>(event.dataTransfer.files));
+        }
+    };
+
+    const handleCreate = async () => {
+        setIsCreating(true);
+        setError(null);
+        try {
+            const pdfPages: PdfImagePage[] = [];
+            for (const page of pages) {
+                const canvas = await transformImage(page.photo, page.rotation, page.crop, PDF_PAGE_SIDE);
+                pdfPages.push({ jpeg: await canvasToBlob(canvas), width: canvas.width, height: canvas.height });
+            }
+            const pdf = await createImagePdf(pdfPages);
+            onCreate(new File([pdf], toPdfFileName(title), { type: 'application/pdf' }));
+        } catch (err) {
+            console.error("Creazione del PDF non riuscita", err);
+            setError(err instanceof Error ? err.message : t('scanner.createFailed'));
+            setIsCreating(false);
+        }
+    };
+
+    const editingIndex = pages.findIndex(page => page.id === editingPageId);
+    const editingPage = pages[editingIndex];
+    const hasTitle = title.replace(UNSAFE_FILE_NAME_CHARACTERS, '').trim() !== '';
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-40 p-4" role="dialog" aria-modal="true" aria-labelledby="scanner-title">
+            <div className="bg-hitech-surface p-6 rounded-lg shadow-xl w-full max-w-3xl max-h-full flex flex-col text-left">
+                <h3 id="scanner-title" className="text-xl font-bold mb-1">{t('scanner.title')}</h3>
+                <p className="text-sm text-hitech-text-secondary mb-4">{t('scanner.description')}</p>
+
+                <label htmlFor="scanner-document-title" className="block text-sm font-medium text-hitech-text-secondary mb-2">{t('scanner.documentTitle')}</label>
+                <input
+                    id="scanner-document-title"
+                    type="text"
+                    value={title}
+                    onChange={e => setTitle(e.target.value)}
+                    placeholder={t('scanner.documentTitlePlaceholder')}
+                    className="w-full bg-hitech-dark border border-hitech-border rounded-md py-2 px-3 mb-4 focus:outline-none focus:ring-2 focus:ring-hitech-accent"
+                />
+
+                <div className="flex flex-wrap gap-2 mb-4">
+                    <button
+                        onClick={() => setIsCameraOpen(true)}
+                        disabled={isCreating}
+                        className="flex items-center px-4 py-2 rounded-full bg-hitech-accent hover:bg-hitech-accent-hover text-hitech-dark font-semibold transition-colors disabled:bg-hitech-border disabled:cursor-not-allowed"
+                        title={t('scanner.takePhotosTitle')}
+                    >
+                        <CameraIcon /> <span className="ml-2">{t('scanner.takePhotos')}</span>
+                    </button>
+                    <input id="scanner-images" type="file" multiple accept="image/*" className="hidden" onChange={handleFileChange} disabled={isCreating} />
+                    <label
+                        htmlFor="scanner-images"
+                        className="cursor-pointer px-4 py-2 rounded-full bg-hitech-surface-hover hover:bg-hitech-border transition-colors"
+                        title={t('scanner.addImagesTitle')}
+                    >
+                        {t('scanner.addImages')}
+                    </label>
+                </div>
+
+                <div
+                    className={`flex-grow min-h-[10rem] overflow-y-auto border-2 border-dashed rounded-lg p-3 transition-colors ${isDraggingFiles ? 'border-hitech-accent bg-hitech-accent/10' : 'border-hitech-border'}`}
+                    onDragOver={handleDragOver}
+                    onDragLeave={() => setIsDraggingFiles(false)}
+                    onDrop={e => handleDrop(e)}
+                >
+                    {pages.length === 0 ? (
+                        <p className="h-full flex items-center justify-center text-center text-sm text-hitech-text-secondary py-8">{t('scanner.empty')}</p>
+                    ) : (
+                        <ol className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+                            {pages.map((page, index) => (
+                                <li
+                                    key={page.id}
+                                    draggable={!isCreating}
+                                    onDragStart={e => {
+                                        e.dataTransfer.effectAllowed = 'move';
+                                        setDraggedIndex(index);
+                                    }}
+                                    onDragEnd={() => setDraggedIndex(null)}
+                                    onDrop={e => handleDrop(e, index)}
+                                    className={`bg-hitech-dark rounded-md p-2 flex flex-col cursor-move ${draggedIndex === index ? 'opacity-40' : ''}`}
+                                    title={t('scanner.dragTitle')}
+                                >
+                                    <div className="h-32 flex items-center justify-center">
+                                        <img src={page.thumbnailUrl} alt={t('scanner.pageAlt', { number: index + 1 })} className="max-h-full max-w-full rounded-sm" draggable={false} />
+                                    </div>
+                                    <div className="flex items-center justify-between mt-2 text-xs">
+                                        <span className="font-semibold">{t('scanner.pageNumber', { number: index + 1 })}</span>
+                                        <div className="flex items-center">
+                                            <button onClick={() => movePage(index, index - 1)} disabled={index === 0 || isCreating} className="px-1 text-hitech-text-secondary hover:text-hitech-accent disabled:opacity-30" aria-label={t('scanner.moveEarlier')} title={t('scanner.moveEarlier')}>‹</button>
+                                            <button onClick={() => movePage(index, index + 1)} disabled={index === pages.length - 1 || isCreating} className="px-1 text-hitech-text-secondary hover:text-hitech-accent disabled:opacity-30" aria-label={t('scanner.moveLater')} title={t('scanner.moveLater')}>›</button>
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center justify-between mt-1 text-xs">
+                                        <button
+                                            onClick={() => {
+                                                const next = rotateQuarter(page.rotation, page.crop, true);
+                                                updatePage(page.id, next.rotation, next.crop);
+                                            }}
+                                            disabled={isCreating}
+                                            className="text-hitech-text-secondary hover:text-hitech-accent"
+                                            aria-label={t('scanner.rotateRightTitle')}
+                                            title={t('scanner.rotateRightTitle')}
+                                        >
+                                            ↻
+                                        </button>
+                                        <button onClick={() => setEditingPageId(page.id)} disabled={isCreating} className="text-hitech-text-secondary hover:text-hitech-accent" title={t('scanner.editPageTitle')}>
+                                            {t('scanner.editPage')}
+                                        </button>
+                                        <button
+                                            onClick={() => setPages(prev => prev.filter(candidate => candidate.id !== page.id))}
+                                            disabled={isCreating}
+                                            className="p-1 text-red-400 hover:text-red-300 rounded-full"
+                                            aria-label={t('scanner.removePage', { number: index + 1 })}
+                                            title={t('scanner.removePageTitle')}
+                                        >
+                                            <TrashIcon />
+                                        </button>
+                                    </div>
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                </div>
+
+                {error && <p className="text-red-400 text-sm mt-3" role="alert">{error}</p>}
+
+                <div className="flex justify-end items-center space-x-2 mt-6">
+                    {isCreating && <><Spinner /><span className="text-sm text-hitech-text-secondary">{t('scanner.creating')}</span></>}
+                    <button onClick={onClose} disabled={isCreating} className="px-4 py-2 rounded-md bg-hitech-surface-hover hover:bg-hitech-border transition-colors disabled:opacity-50">
+                        {t('scanner.cancel')}
+                    </button>
+                    <button
+                        onClick={handleCreate}
+                        disabled={pages.length === 0 || !hasTitle || isCreating}
+                        className="px-4 py-2 rounded-md bg-hitech-accent hover:bg-hitech-accent-hover text-hitech-dark font-semibold transition-colors disabled:bg-hitech-border/50 disabled:cursor-not-allowed"
+                        title={!hasTitle ? t('scanner.needTitle') : t('scanner.createTitle')}
+                    >
+                        {t('scanner.create', { count: pages.length })}
+                    </button>
+                </div>
+            </div>
+
+            {isCameraOpen && (
+                <CameraCapture
+                    onCapture={photo => addPhotos([photo])}
+                    onClose={() => setIsCameraOpen(false)}
+                    closeLabel={t('scanner.doneTakingPhotos', { count: pages.length })}
+                />
+            )}
+
+            {editingPage && (
+                <PageEditor
+                    photo={editingPage.photo}
+                    pageNumber={editingIndex + 1}
+                    rotation={editingPage.rotation}
+                    crop={editingPage.crop}
+                    onSave={(rotation, crop) => {
+                        updatePage(editingPage.id, rotation, crop);
+                        setEditingPageId(null);
+                    }}
+                    onClose={() => setEditingPageId(null)}
+                />
+            )}
+        </div>
+    );
+};
+
+export default ManualScanner;
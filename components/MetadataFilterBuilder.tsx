@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import PlusIcon from './icons/PlusIcon';
+import TrashIcon from './icons/TrashIcon';
+import { t } from '../utils/i18n';
+
+type FilterOperator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+interface FilterCondition {
+    key: string;
+    operator: FilterOperator;
+    value: string;
+}
+
+const operators: FilterOperator[] = ['=', '!=', '<', '<=', '>', '>='];
+
+const emptyCondition = (): FilterCondition => ({ key: '', operator: '=', value: '' });
+
+// Numbers are compared as numerics; anything else is quoted as a string literal.
+const formatFilterValue = (value: string): string => {
+    const trimmed = value.trim();
+    if (trimmed !== '' && !isNaN(Number(trimmed))) return trimmed;
+    return `"${trimmed.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+};
+
+const buildFilterExpression = (conditions: FilterCondition[], combinator: 'AND' | 'OR'): string =>
+    conditions
+        .filter(c => c.key.trim() !== '' && c.value.trim() !== '')
+        .map(c => `${c.key.trim()} ${c.operator} ${formatFilterValue(c.value)}`)
+        .join(` ${combinator} `);
+
+interface MetadataFilterBuilderProps {
+    activeFilter: string;
+    onApply: (filter: string) => void;
+    onClose: () => void;
+}
+
+const MetadataFilterBuilder: React.FC<MetadataFilterBuilderProps> = ({ activeFilter, onApply, onClose }) => {
+    const [conditions, setConditions] = useState<FilterCondition[]>([emptyCondition()]);
+    const [combinator, setCombinator] = useState<'AND' | 'OR'>('AND');
+    const [expression, setExpression] = useState(activeFilter);
+
+    const updateConditions = (newConditions: FilterCondition[], newCombinator = combinator) => {
+        setConditions(newConditions);
+        setExpression(buildFilterExpression(newConditions, newCombinator));
+    };
+
+    const handleConditionChange = (index: number, field: keyof FilterCondition, value: string) => {
+        const newConditions = [...conditions];
+        newConditions[index] = { ...newConditions[index], [field]: value };
+        updateConditions(newConditions);
+    };
+
+    const handleCombinatorChange = (value: 'AND' | 'OR') => {
+        setCombinator(value);
+        updateConditions(conditions, value);
+    };
+
+    const handleApply = () => {
+        onApply(expression.trim());
+        onClose();
+    };
+
+    const handleClear = () => {
+        setConditions([emptyCondition()]);
+        setExpression('');
+        onApply('');
+        onClose();
+    };
+
+    return (
+        <div className="w-full max-w-4xl mx-auto mt-3 px-4">
+            <div className="bg-hitech-surface border border-hitech-border rounded-lg p-4 text-sm">
+                <div className="flex justify-between items-center mb-3">
+                    <h2 className="font-semibold text-hitech-text-primary">{t('filter.title')}</h2>
+                    <select
+                        value={combinator}
+                        onChange={(e) => handleCombinatorChange(e.target.value as 'AND' | 'OR')}
+                        className="bg-hitech-dark border border-hitech-border rounded-md py-1 px-2 focus:outline-none focus:ring-2 focus:ring-hitech-accent"
+                        aria-label={t('filter.combinator')}
+                        title={t('filter.combinator')}
+                    >
+                        <option value="AND">{t('filter.all')}</option>
+                        <option value="OR">{t('filter.any')}</option>
+                    </select>
+                </div>
+                <div className="space-y-2">
+                    {conditions.map((condition, index) => (
+                        <div key={index} className="flex items-center space-x-2">
+                            <input type="text" placeholder={t('filter.key')} value={condition.key} onChange={(e) => handleConditionChange(index, 'key', e.target.value)} className="w-1/3 bg-hitech-dark border border-hitech-border rounded-md py-1 px-3 focus:outline-none focus:ring-2 focus:ring-hitech-accent" />
+                            <select value={condition.operator} onChange={(e) => handleConditionChange(index, 'operator', e.target.value)} className="bg-hitech-dark border border-hitech-border rounded-md py-1 px-2 focus:outline-none focus:ring-2 focus:ring-hitech-accent" aria-label={t('filter.operator')} title={t('filter.operator')}>
+                                {operators.map(op => <option key={op} value={op}>{op}</option>)}
+                            </select>
+                            <input type="text" placeholder={t('filter.value')} value={condition.value} onChange={(e) => handleConditionChange(index, 'value', e.target.value)} className="flex-grow bg-hitech-dark border border-hitech-border rounded-md py-1 px-3 focus:outline-none focus:ring-2 focus:ring-hitech-accent" />
+                            <button onClick={() => updateConditions(conditions.filter((_, i) => i !== index))} className="p-1 text-red-400 hover:text-red-300 rounded-full" aria-label={t('filter.removeCondition')} title={t('filter.removeCondition')}>
+                                <TrashIcon />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                <button onClick={() => updateConditions([...conditions, emptyCondition()])} className="mt-2 flex items-center text-hitech-accent hover:text-hitech-accent-hover" title={t('filter.addConditionTitle')}>
+                    <PlusIcon /> <span className="ml-1">{t('filter.addCondition')}</span>
+                </button>
+                <label htmlFor="metadata-filter-expression" className="block mt-4 mb-1 text-hitech-text-secondary">{t('filter.expression')}</label>
+                <input
+                    id="metadata-filter-expression"
+                    type="text"
+                    value={expression}
+                    onChange={(e) => setExpression(e.target.value)}
+                    placeholder={t('filter.expressionPlaceholder')}
+                    className="w-full bg-hitech-dark border border-hitech-border rounded-md py-2 px-3 font-mono focus:outline-none focus:ring-2 focus:ring-hitech-accent"
+                />
+                <div className="flex justify-end space-x-2 mt-4">
+                    <button type="button" onClick={handleClear} className="px-4 py-2 rounded-md bg-hitech-surface-hover hover:bg-hitech-border transition-colors" title={t('filter.clearTitle')}>
+                        {t('filter.clear')}
+                    </button>
+                    <button type="button" onClick={handleApply} className="px-4 py-2 rounded-md bg-hitech-accent hover:bg-hitech-accent-hover text-hitech-dark font-semibold transition-colors" title={t('filter.applyTitle')}>
+                        {t('filter.apply')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default MetadataFilterBuilder;
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { CropBox, Rotation, rotateQuarter, transformImage, canvasToBlob, NO_CROP } from '../utils/images';
+import { t, MessageKey } from '../utils/i18n';
+import Spinner from './Spinner';
+
+interface PageEditorProps {
+    photo: Blob;
+    pageNumber: number;
+    rotation: Rotation;
+    crop: CropBox;
+    onSave: (rotation: Rotation, crop: CropBox) => void;
+    onClose: () => void;
+}
+
+const PREVIEW_SIDE = 1200;
+// Each side can be trimmed by up to this share, so some of the page is always left.
+const MAX_CROP_PERCENT = 45;
+
+const SIDES: { side: keyof CropBox, labelKey: MessageKey }[] = [
+    { side: 'top', labelKey: 'scanner.cropTop' },
+    { side: 'bottom', labelKey: 'scanner.cropBottom' },
+    { side: 'left', labelKey: 'scanner.cropLeft' },
+    { side: 'right', labelKey: 'scanner.cropRight' },
+];
+
+// Rotates a photographed page and trims its margins, showing the trimmed part darkened.
+const PageEditor: React.FC<PageEditorProps> = ({ photo, pageNumber, rotation: initialRotation, crop: initialCrop, onSave, onClose }) => {
+    const [rotation, setRotation] = useState(initialRotation);
+    const [crop, setCrop] = useState(initialCrop);
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let url: string | null = null;
+        let isCancelled = false;
+        transformImage(photo, rotation, NO_CROP, PREVIEW_SIDE)
+            .then(canvas => canvasToBlob(canvas))
+            .then(blob => {
+                if (isCancelled) return;
+                url = URL.createObjectURL(blob);
+                setPreviewUrl(url);
+            })
+            .catch(err => {
+                if (!isCancelled) setError(err instanceof Error ? err.message : t('images.unreadable'));
+            });
+        return () => {
+            isCancelled = true;
+            if (url) URL.revokeObjectURL(url);
+        };
+    }, [photo, rotation]);
+
+    const handleRotate = (clockwise: boolean) => {
+        const next = rotateQuarter(rotation, crop, clockwise);
+        setPreviewUrl(null);
+        setRotation(next.rotation);
+        setCrop(next.crop);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="page-editor-title">
+            <div className="bg-hitech-surface p-6 rounded-lg shadow-xl w-full max-w-2xl flex flex-col max-h-full">
+                <h3 id="page-editor-title" className="text-xl font-bold mb-4">{t('scanner.editTitle', { number: pageNumber })}</h3>
+
+                <div className="flex-grow min-h-0 flex items-center justify-center bg-black rounded-md p-2">
+                    {error ? (
+                        <p className="py-12 text-center text-red-300" role="alert">{error}</p>
+                    ) : previewUrl ? (
+                        <div className="relative overflow-hidden">
+                            <img src={previewUrl} alt={t('scanner.pageAlt', { number: pageNumber })} className="block max-w-full max-h-[50vh]" />
+                            <div
+                                className="absolute border-2 border-hitech-accent pointer-events-none"
+                                style={{
+                                    top: `${crop.top * 100}%`,
+                                    right: `${crop.right * 100}%`,
+                                    bottom: `${crop.bottom * 100}%`,
+                                    left: `${crop.left * 100}%`,
+                                    boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.6)',
+                                }}
+                            />
+                        </div>
+                    ) : (
+                        <div className="py-12"><Spinner /></div>
+                    )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-x-6 gap-y-2 mt-4">
+                    {SIDES.map(({ side, labelKey }) => (
+                        <label key={side} className="text-sm text-hitech-text-secondary">
+                            {t(labelKey)}
+                            <input
+                                type="range"
+                                min={0}
+                                max={MAX_CROP_PERCENT}
+                                value={Math.round(crop[side] * 100)}
+                                onChange={e => setCrop(prev => ({ ...prev, [side]: Number(e.target.value) / 100 }))}
+                                className="w-full accent-hitech-accent"
+                            />
+                        </label>
+                    ))}
+                </div>
+
+                <div className="flex flex-wrap justify-between gap-2 mt-6">
+                    <div className="flex gap-2">
+                        <button onClick={() => handleRotate(false)} className="px-4 py-2 rounded-md bg-hitech-surface-hover hover:bg-hitech-border transition-colors" title={t('scanner.rotateLeftTitle')}>
+                            ↺ {t('scanner.rotateLeft')}
+                        </button>
+                        <button onClick={() => handleRotate(true)} className="px-4 py-2 rounded-md bg-hitech-surface-hover hover:bg-hitech-border transition-colors" title={t('scanner.rotateRightTitle')}>
+                            ↻ {t('scanner.rotateRight')}
+                        </button>
+                        <button onClick={() => setCrop(NO_CROP)} className="px-4 py-2 rounded-md bg-hitech-surface-hover hover:bg-hitech-border transition-colors">
+                            {t('scanner.resetCrop')}
+                        </button>
+                    </div>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="px-4 py-2 rounded-md bg-hitech-surface-hover hover:bg-hitech-border transition-colors">
+                            {t('scanner.cancelEdit')}
+                        </button>
+                        <button onClick={() => onSave(rotation, crop)} className="px-4 py-2 rounded-md bg-hitech-accent hover:bg-hitech-accent-hover text-hitech-dark font-semibold transition-colors">
+                            {t('scanner.applyEdit')}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PageEditor;
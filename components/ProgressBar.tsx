@@ -3,6 +3,8 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
+import { IngestionFileProgress, IngestionFileStatus } from '../types';
+import { t, formatNumber, MessageKey } from '../utils/i18n';
 
 interface ProgressBarProps {
   progress: number;
@@ -10,9 +12,20 @@ interface ProgressBarProps {
   message: string;
   fileName?: string;
   icon?: React.ReactNode;
+  files?: IngestionFileProgress[];
+  onCancel?: () => void;
 }
 
-const ProgressBar: React.FC<ProgressBarProps> = ({ progress, total, message, fileName, icon }) => {
+export const INGESTION_STATUS_LABELS: Record<IngestionFileStatus, { labelKey: MessageKey, className: string }> = {
+  queued: { labelKey: 'ingestion.queued', className: 'text-hitech-text-secondary' },
+  uploading: { labelKey: 'ingestion.uploading', className: 'text-hitech-accent-hover' },
+  indexing: { labelKey: 'ingestion.indexing', className: 'text-hitech-accent-hover' },
+  done: { labelKey: 'ingestion.done', className: 'text-green-400' },
+  failed: { labelKey: 'ingestion.failed', className: 'text-red-400' },
+  cancelled: { labelKey: 'ingestion.cancelled', className: 'text-hitech-text-secondary' },
+};
+
+const ProgressBar: React.FC<ProgressBarProps> = ({ progress, total, message, fileName, icon, files, onCancel }) => {
   const percentage = total > 0 ? (progress / total) * 100 : 0;
 
   return (
@@ -30,9 +43,33 @@ const ProgressBar: React.FC<ProgressBarProps> = ({ progress, total, message, fil
                 }}
             ></div>
         </div>
-        <p className="mt-4 text-lg">{`${progress} / ${total}`}</p>
+        <p className="mt-4 text-lg">{`${formatNumber(progress)} / ${formatNumber(total)}`}</p>
+        {files && files.length > 0 && (
+            <ul className="w-full max-w-md mt-6 max-h-64 overflow-y-auto space-y-1 text-left text-sm">
+                {files.map((file, index) => (
+                    <li key={`${file.name}-${index}`} className="bg-hitech-surface/50 px-3 py-2 rounded-md">
+                        <div className="flex justify-between items-center">
+                            <span className="truncate mr-2" title={file.name}>{file.name}</span>
+                            <span className={`flex-shrink-0 font-semibold ${INGESTION_STATUS_LABELS[file.status].className}`}>
+                                {t(INGESTION_STATUS_LABELS[file.status].labelKey)}{file.attempt > 1 && file.status !== 'done' ? t('ingestion.attempt', { attempt: file.attempt }) : ''}
+                            </span>
+                        </div>
+                        {file.error && <p className="text-xs text-hitech-text-secondary mt-1 truncate" title={file.error}>{file.error}</p>}
+                    </li>
+                ))}
+            </ul>
+        )}
+        {onCancel && (
+            <button
+                onClick={onCancel}
+                className="mt-6 px-6 py-2 rounded-md bg-hitech-surface hover:bg-hitech-surface-hover text-hitech-text-primary font-semibold transition-colors"
+                title={t('ingestion.cancelTitle')}
+            >
+                {t('ingestion.cancel')}
+            </button>
+        )}
     </div>
   );
 };
 
-export default ProgressBar;
\ No newline at end of file
+export default ProgressBar;
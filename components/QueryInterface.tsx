@@ -7,6 +7,8 @@ import React, { useState } from 'react';
 import { RagStore, QueryResult } from '../types';
 import Spinner from './Spinner';
 import SendIcon from './icons/SendIcon';
+import { groupSourcesByDocument } from '../utils/sources';
+import { renderMarkdown } from '../utils/markdown';
 
 interface QueryInterfaceProps {
     selectedStore: RagStore | null;
@@ -48,19 +50,26 @@ const QueryInterface: React.FC<QueryInterfaceProps> = ({ selectedStore, isLoadin
                     <div>
                         <div className="bg-hitech-surface p-4 rounded-lg">
                             <h3 className="font-semibold text-hitech-accent mb-2">Risposta</h3>
-                            <p className="whitespace-pre-wrap">{result.text}</p>
+                            <div dangerouslySetInnerHTML={{ __html: renderMarkdown(result.text) }} />
                         </div>
-                        {result.groundingChunks.length > 0 && (
+                        {groupSourcesByDocument(result.groundingChunks).length > 0 && (
                              <div className="mt-4">
                                 <h3 className="font-semibold text-hitech-accent mb-2">Fonti</h3>
-                                <div className="space-y-2">
-                                {result.groundingChunks.map((chunk, index) => (
-                                    chunk.retrievedContext?.text && (
-                                        <details key={index} className="bg-hitech-surface/50 p-3 rounded-lg text-sm">
-                                            <summary className="cursor-pointer font-medium">Frammento Fonte {index + 1}</summary>
-                                            <p className="mt-2 text-hitech-text-secondary">{chunk.retrievedContext.text}</p>
-                                        </details>
-                                    )
+                                <div className="space-y-4">
+                                {groupSourcesByDocument(result.groundingChunks).map(group => (
+                                    <div key={group.title}>
+                                        <h4 className="text-sm font-semibold mb-2 truncate" title={group.title}>{group.title}</h4>
+                                        <div className="space-y-2">
+                                        {group.sources.map(source => (
+                                            <details key={source.index} className="bg-hitech-surface/50 p-3 rounded-lg text-sm">
+                                                <summary className="cursor-pointer font-medium">
+                                                    Frammento Fonte {source.index + 1}{source.location && <span className="ml-2 text-hitech-text-secondary">{source.location}</span>}
+                                                </summary>
+                                                <div className="mt-2 text-hitech-text-secondary" dangerouslySetInnerHTML={{ __html: renderMarkdown(source.chunk.retrievedContext?.text || '') }} />
+                                            </details>
+                                        ))}
+                                        </div>
+                                    </div>
                                 ))}
                                 </div>
                             </div>
@@ -8,6 +8,7 @@ import Spinner from './Spinner';
 import PlusIcon from './icons/PlusIcon';
 import TrashIcon from './icons/TrashIcon';
 import RefreshIcon from './icons/RefreshIcon';
+import { t } from '../utils/i18n';
 
 interface RagStoreListProps {
     stores: RagStore[];
@@ -49,14 +50,14 @@ const RagStoreList: React.FC<RagStoreListProps> = ({ stores, selectedStore, isLo
     return (
         <div className="flex flex-col h-full">
             <div className="flex justify-between items-center mb-4">
-                <h2 className="text-xl font-bold">Archivi RAG</h2>
+                <h2 className="text-xl font-bold">{t('stores.title')}</h2>
                 <div className="flex items-center space-x-2">
                      <button
                         onClick={onRefresh}
                         className="p-2 bg-hitech-surface hover:bg-hitech-surface-hover rounded-full text-hitech-text-primary transition-colors disabled:bg-hitech-border"
                         disabled={isLoading}
-                        aria-label="Aggiorna Archivi RAG"
-                        title="Aggiorna la lista degli Archivi RAG"
+                        aria-label={t('stores.refresh')}
+                        title={t('stores.refreshTitle')}
                     >
                         <RefreshIcon />
                     </button>
@@ -64,8 +65,8 @@ const RagStoreList: React.FC<RagStoreListProps> = ({ stores, selectedStore, isLo
                         onClick={handleCreateClick}
                         className="p-2 bg-hitech-accent hover:bg-hitech-accent-hover rounded-full text-hitech-dark transition-colors disabled:bg-hitech-border"
                         disabled={isLoading}
-                        aria-label="Crea nuovo Archivio RAG"
-                        title="Crea un nuovo Archivio RAG"
+                        aria-label={t('stores.create')}
+                        title={t('stores.createTitle')}
                     >
                         <PlusIcon />
                     </button>
@@ -77,7 +78,7 @@ const RagStoreList: React.FC<RagStoreListProps> = ({ stores, selectedStore, isLo
                     type="text"
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
-                    placeholder="Cerca archivi..."
+                    placeholder={t('stores.search')}
                     className="w-full bg-hitech-surface border border-hitech-border rounded-md py-2 px-4 focus:outline-none focus:ring-2 focus:ring-hitech-accent"
                 />
             </div>
@@ -85,15 +86,15 @@ const RagStoreList: React.FC<RagStoreListProps> = ({ stores, selectedStore, isLo
             {isModalOpen && (
                 <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" role="dialog" aria-modal="true" aria-labelledby="create-store-title">
                     <div className="bg-hitech-surface p-6 rounded-lg shadow-xl w-full max-w-md">
-                        <h3 id="create-store-title" className="text-xl font-bold mb-4">Crea Nuovo Archivio RAG</h3>
+                        <h3 id="create-store-title" className="text-xl font-bold mb-4">{t('stores.createDialogTitle')}</h3>
                         <form onSubmit={handleConfirmCreate}>
-                            <label htmlFor="store-name" className="sr-only">Nome Archivio</label>
+                            <label htmlFor="store-name" className="sr-only">{t('stores.nameLabel')}</label>
                             <input
                                 id="store-name"
                                 type="text"
                                 value={newStoreName}
                                 onChange={(e) => setNewStoreName(e.target.value)}
-                                placeholder="Inserisci nome archivio"
+                                placeholder={t('stores.namePlaceholder')}
                                 className="w-full bg-hitech-dark border border-hitech-border rounded-md py-2 px-4 focus:outline-none focus:ring-2 focus:ring-hitech-accent mb-4"
                                 autoFocus
                             />
@@ -102,17 +103,17 @@ const RagStoreList: React.FC<RagStoreListProps> = ({ stores, selectedStore, isLo
                                     type="button"
                                     onClick={handleModalClose}
                                     className="px-4 py-2 rounded-md bg-hitech-surface-hover hover:bg-hitech-border transition-colors"
-                                    title="Annulla creazione archivio"
+                                    title={t('stores.cancelCreateTitle')}
                                 >
-                                    Annulla
+                                    {t('stores.cancel')}
                                 </button>
                                 <button
                                     type="submit"
                                     disabled={!newStoreName.trim()}
                                     className="px-4 py-2 rounded-md bg-hitech-accent hover:bg-hitech-accent-hover text-hitech-dark font-semibold transition-colors disabled:bg-hitech-border/50 disabled:cursor-not-allowed"
-                                    title="Crea nuovo Archivio RAG"
+                                    title={t('stores.create')}
                                 >
-                                    Crea
+                                    {t('stores.confirmCreate')}
                                 </button>
                             </div>
                         </form>
@@ -126,7 +127,7 @@ const RagStoreList: React.FC<RagStoreListProps> = ({ stores, selectedStore, isLo
                 </div>
             ) : filteredStores.length === 0 ? (
                 <div className="flex-grow flex items-center justify-center text-center text-hitech-text-secondary">
-                    <p>{stores.length > 0 ? 'Nessun archivio trovato.' : 'Nessun Archivio RAG trovato. \n Clicca su \'+\' per crearne uno.'}</p>
+                    <p>{stores.length > 0 ? t('stores.noMatches') : t('stores.empty')}</p>
                 </div>
             ) : (
                 <ul className="space-y-2 overflow-y-auto">
@@ -139,15 +140,15 @@ const RagStoreList: React.FC<RagStoreListProps> = ({ stores, selectedStore, isLo
                                         ? 'bg-hitech-accent text-hitech-dark font-semibold'
                                         : 'bg-hitech-surface hover:bg-hitech-surface-hover'
                                 }`}
-                                title={`Seleziona ${store.displayName} per vedere i suoi documenti`}
+                                title={t('stores.selectTitle', { name: store.displayName })}
                             >
                                 {store.displayName}
                             </button>
                             <button 
                                 onClick={(e) => { e.stopPropagation(); onDelete(store.name); }}
                                 className="ml-2 p-2 text-red-400 hover:text-red-300 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
-                                aria-label={`Elimina ${store.displayName}`}
-                                title={`Elimina ${store.displayName}`}
+                                aria-label={t('stores.delete', { name: store.displayName })}
+                                title={t('stores.delete', { name: store.displayName })}
                             >
                                <TrashIcon />
                             </button>
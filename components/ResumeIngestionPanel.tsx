@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { IngestionJob } from '../services/ingestion';
+import { ACCEPTED_FILE_TYPES } from '../utils/fileValidation';
+import { t, formatDateTime } from '../utils/i18n';
+
+interface ResumeIngestionPanelProps {
+    job: IngestionJob;
+    // False when no API key is set or a different engine than the job's is selected.
+    isBackendReady: boolean;
+    onResume: (files: File[]) => Promise<void>;
+    onDiscard: () => void;
+}
+
+const ResumeIngestionPanel: React.FC<ResumeIngestionPanelProps> = ({ job, isBackendReady, onResume, onDiscard }) => {
+    const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+    const doneCount = job.files.filter(file => file.done).length;
+    const missingFiles = job.files.filter(file => !file.done);
+
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        if (event.target.files) {
+            setSelectedFiles(Array.from(event.target.files));
+        }
+    };
+
+    const handleResume = async () => {
+        try {
+            await onResume(selectedFiles);
+        } catch (error) {
+            // Error is handled by the parent component.
+            console.error("Resuming the upload failed:", error);
+        }
+    };
+
+    const handleDiscard = () => {
+        if (window.confirm(t('resume.confirmDiscard'))) {
+            onDiscard();
+        }
+    };
+
+    return (
+        <div className="w-full max-w-xl mx-auto mb-8 text-left bg-hitech-surface border border-yellow-500/40 rounded-lg p-6">
+            <h3 className="text-lg font-semibold text-hitech-text-primary mb-2">{t('resume.title')}</h3>
+            <p className="text-sm text-hitech-text-secondary mb-3">
+                {t('resume.description', { date: formatDateTime(job.startedAt), done: doneCount, total: job.files.length })}
+            </p>
+            {missingFiles.length > 0 && (
+                <ul className="max-h-28 overflow-y-auto text-sm mb-3 space-y-1">
+                    {missingFiles.map(file => (
+                        <li key={file.sha256} className="truncate text-hitech-text-primary/80" title={file.name}>{file.name}</li>
+                    ))}
+                </ul>
+            )}
+            <input
+                type="file"
+                multiple
+                onChange={handleFileChange}
+                accept={ACCEPTED_FILE_TYPES}
+                className="block w-full text-sm text-hitech-text-secondary mb-4 file:mr-3 file:px-4 file:py-1.5 file:rounded-full file:border-0 file:bg-hitech-surface-hover file:text-hitech-text-primary"
+                aria-label={t('resume.selectMissing')}
+            />
+            <div className="flex justify-end space-x-2">
+                <button
+                    onClick={handleDiscard}
+                    className="px-4 py-2 rounded-md bg-hitech-surface-hover hover:bg-hitech-border transition-colors"
+                    title={t('resume.discardTitle')}
+                >
+                    {t('resume.discard')}
+                </button>
+                <button
+                    onClick={handleResume}
+                    disabled={!isBackendReady || (missingFiles.length > 0 && selectedFiles.length === 0)}
+                    className="px-4 py-2 rounded-md bg-hitech-accent hover:bg-hitech-accent-hover text-hitech-dark font-semibold transition-colors disabled:bg-hitech-border/50 disabled:cursor-not-allowed"
+                    title={!isBackendReady ? t('welcome.needKeyFirst') : t('resume.resumeTitle')}
+                >
+                    {t('resume.resume')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ResumeIngestionPanel;
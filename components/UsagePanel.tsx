@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { PriceTable, ModelPrice, UsageSummary, formatCost } from '../services/usageTracker';
+import { t } from '../utils/i18n';
+
+interface UsagePanelProps {
+    conversation: UsageSummary;
+    today: UsageSummary;
+    // Models seen today or in the conversation, listed in the price table even without a price.
+    models: string[];
+    prices: PriceTable;
+    onPricesChange: (prices: PriceTable) => void;
+    dailyBudget: number | null;
+    onDailyBudgetChange: (budget: number | null) => void;
+}
+
+const inputClassName = "w-20 bg-hitech-dark border border-hitech-border rounded-md py-1 px-2 focus:outline-none focus:ring-2 focus:ring-hitech-accent text-hitech-text-primary";
+
+const describe = (summary: UsageSummary) =>
+    t('usage.summary', { tokens: summary.tokens, cost: formatCost(summary.cost) }) + (summary.hasUnpricedModels ? t('usage.unpricedExcluded') : '');
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ conversation, today, models, prices, onPricesChange, dailyBudget, onDailyBudgetChange }) => {
+    const handlePriceChange = (model: string, field: keyof ModelPrice, value: string) => {
+        const parsed = parseFloat(value);
+        const current = prices[model] || { inputPerMillion: 0, outputPerMillion: 0 };
+        onPricesChange({ ...prices, [model]: { ...current, [field]: isNaN(parsed) ? 0 : Math.max(0, parsed) } });
+    };
+
+    const handleBudgetChange = (value: string) => {
+        const parsed = parseFloat(value);
+        onDailyBudgetChange(isNaN(parsed) || parsed <= 0 ? null : parsed);
+    };
+
+    const allModels = Array.from(new Set([...Object.keys(prices), ...models])).sort();
+
+    return (
+        <div className="mb-3 px-4 py-3 bg-hitech-surface border border-hitech-border rounded-lg text-sm text-hitech-text-secondary space-y-3">
+            <div className="flex flex-wrap gap-x-6 gap-y-1">
+                <p>{t('usage.conversation')} <span className="text-hitech-text-primary">{describe(conversation)}</span></p>
+                <p>
+                    {t('usage.today')} <span className={dailyBudget !== null && today.cost >= dailyBudget ? 'text-red-300' : 'text-hitech-text-primary'}>{describe(today)}</span>
+                </p>
+            </div>
+            <label className="flex items-center space-x-2">
+                <span>{t('usage.dailyBudget')}</span>
+                <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={dailyBudget ?? ''}
+                    placeholder={t('usage.noBudget')}
+                    onChange={(e) => handleBudgetChange(e.target.value)}
+                    className={inputClassName}
+                    title={t('usage.dailyBudgetTitle')}
+                />
+            </label>
+            <table className="text-xs">
+                <thead>
+                    <tr className="text-left">
+                        <th className="pr-4 font-semibold">{t('usage.model')}</th>
+                        <th className="pr-4 font-semibold">{t('usage.inputPrice')}</th>
+                        <th className="font-semibold">{t('usage.outputPrice')}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {allModels.map(model => (
+                        <tr key={model}>
+                            <td className="pr-4 py-1 font-mono">{model}</td>
+                            <td className="pr-4 py-1">
+                                <input type="number" min={0} step={0.01} value={prices[model]?.inputPerMillion ?? ''} onChange={(e) => handlePriceChange(model, 'inputPerMillion', e.target.value)} className={inputClassName} aria-label={t('usage.inputPriceOf', { model })} />
+                            </td>
+                            <td className="py-1">
+                                <input type="number" min={0} step={0.01} value={prices[model]?.outputPerMillion ?? ''} onChange={(e) => handlePriceChange(model, 'outputPerMillion', e.target.value)} className={inputClassName} aria-label={t('usage.outputPriceOf', { model })} />
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+export default UsagePanel;
@@ -3,9 +3,16 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import UploadCloudIcon from './icons/UploadCloudIcon';
 import TrashIcon from './icons/TrashIcon';
+import { RagBackendKind } from '../services/ragBackend';
+import { IngestionJob } from '../services/ingestion';
+import ResumeIngestionPanel from './ResumeIngestionPanel';
+import ManualScanner from './ManualScanner';
+import CameraIcon from './icons/CameraIcon';
+import { checkFile, FileCheck, findDuplicateIssue, ACCEPTED_FILE_TYPES } from '../utils/fileValidation';
+import { t, formatNumber } from '../utils/i18n';
 
 interface WelcomeScreenProps {
     onUpload: () => Promise<void>;
@@ -17,10 +24,45 @@ interface WelcomeScreenProps {
     isAistudioAvailable: boolean;
     apiKey: string;
     setApiKey: React.Dispatch<React.SetStateAction<string>>;
+    onOpenLibrary: () => Promise<void>;
+    backendKind: RagBackendKind;
+    setBackendKind: React.Dispatch<React.SetStateAction<RagBackendKind>>;
+    onImportConversation: (file: File) => Promise<void>;
+    pendingIngestion: IngestionJob | null;
+    onResumeIngestion: (files: File[]) => Promise<void>;
+    onDiscardIngestion: () => void;
+    onOpenFeedback: () => void;
 }
 
-const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onUpload, apiKeyError, files, setFiles, isApiKeySelected, onSelectKey, isAistudioAvailable, apiKey, setApiKey }) => {
+const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onUpload, apiKeyError, files, setFiles, isApiKeySelected, onSelectKey, isAistudioAvailable, apiKey, setApiKey, onOpenLibrary, backendKind, setBackendKind, onImportConversation, pendingIngestion, onResumeIngestion, onDiscardIngestion, onOpenFeedback }) => {
     const [isDragging, setIsDragging] = useState(false);
+    const [importError, setImportError] = useState<string | null>(null);
+    // Photos the scanner opens with; null while it is closed.
+    const [scannerPhotos, setScannerPhotos] = useState<File[] | null>(null);
+    // The local engine only reads the text layer of a PDF, which photographed pages do not have.
+    const canScanManuals = backendKind === 'gemini';
+    // Validation and content hash of each selected file, filled in asynchronously.
+    const [fileChecks, setFileChecks] = useState<Map<File, FileCheck>>(new Map());
+
+    useEffect(() => {
+        let cancelled = false;
+        files.filter(file => !fileChecks.has(file)).forEach(async file => {
+            const check = await checkFile(file);
+            if (!cancelled) setFileChecks(prev => new Map(prev).set(file, check));
+        });
+        return () => { cancelled = true; };
+    }, [files]);
+
+    // The same manual dropped twice, possibly under different names, is flagged on its later copies.
+    const getFileIssue = (file: File, index: number): string | null => {
+        const check = fileChecks.get(file);
+        if (!check) return null;
+        if (check.error || !check.sha256) return check.error ?? null;
+        const earlierFiles = files.slice(0, index).map(other => ({ name: other.name, sha256: fileChecks.get(other)?.sha256 }));
+        return findDuplicateIssue(check.sha256, [], earlierFiles);
+    };
+    const isCheckingFiles = files.some(file => !fileChecks.has(file));
+    const hasFileIssues = files.some((file, index) => getFileIssue(file, index) !== null);
 
     const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
         if (event.target.files) {
@@ -33,9 +75,12 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onUpload, apiKeyError, fi
         event.stopPropagation();
         setIsDragging(false);
         if (event.dataTransfer.files) {
-            setFiles(prev => [...prev, ...Array.from(event.dataTransfer.files)]);
+            const dropped = Array.from<File>(event.dataTransfer.files);
+            const photos = canScanManuals ? dropped.filter(file => file.type.startsWith('image/')) : [];
+            setFiles(prev => [...prev, ...dropped.filter(file => !photos.includes(file))]);
+            if (photos.length > 0) setScannerPhotos(photos);
         }
-    }, [setFiles]);
+    }, [setFiles, canScanManuals]);
 
     const handleDragOver = useCallback((event: React.DragEvent<HTMLDivElement>) => {
         event.preventDefault();
@@ -63,6 +108,19 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onUpload, apiKeyError, fi
         setFiles(prevFiles => prevFiles.filter((_, index) => index !== indexToRemove));
     };
 
+    const handleImportChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        // Reset the input so the same file can be picked again after an error.
+        event.target.value = '';
+        if (!file) return;
+        setImportError(null);
+        try {
+            await onImportConversation(file);
+        } catch (err) {
+            setImportError(err instanceof Error ? err.message : t('welcome.importFailed'));
+        }
+    };
+
     const handleSelectKeyClick = async (e: React.MouseEvent<HTMLButtonElement>) => {
         e.preventDefault();
         await onSelectKey();
@@ -71,17 +129,55 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onUpload, apiKeyError, fi
     return (
         <div className="flex flex-col items-center justify-center h-full p-4 sm:p-6 lg:p-8">
             <div className="w-full max-w-3xl text-center">
-                <h1 className="text-4xl sm:text-5xl font-bold mb-8">Chatta con il tuo Documento</h1>
+                <h1 className="text-4xl sm:text-5xl font-bold mb-8">{t('welcome.title')}</h1>
+
+                {pendingIngestion && (
+                    <ResumeIngestionPanel
+                        job={pendingIngestion}
+                        isBackendReady={isApiKeySelected && backendKind === pendingIngestion.backendKind}
+                        onResume={onResumeIngestion}
+                        onDiscard={onDiscardIngestion}
+                    />
+                )}
+
+                <div className="w-full max-w-xl mx-auto mb-8">
+                    <div className="inline-flex bg-hitech-surface border border-hitech-border rounded-full p-1" role="radiogroup" aria-label={t('welcome.engine')}>
+                        {([
+                            { kind: 'gemini', label: t('welcome.engineGemini'), title: t('welcome.engineGeminiTitle') },
+                            { kind: 'local', label: t('welcome.engineLocal'), title: t('welcome.engineLocalTitle') },
+                        ] as const).map(option => (
+                            <button
+                                key={option.kind}
+                                role="radio"
+                                aria-checked={backendKind === option.kind}
+                                onClick={() => setBackendKind(option.kind)}
+                                className={`px-5 py-2 rounded-full text-sm font-semibold transition-colors ${
+                                    backendKind === option.kind
+                                    ? 'bg-hitech-accent text-hitech-dark'
+                                    : 'text-hitech-text-secondary hover:text-hitech-text-primary'
+                                }`}
+                                title={option.title}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                    {backendKind === 'local' && (
+                        <p className="text-xs text-hitech-text-secondary mt-2">
+                            {t('welcome.engineLocalDescription')}
+                        </p>
+                    )}
+                </div>
 
                 {!isApiKeySelected && (
                     <div className="w-full max-w-xl mx-auto mb-8 text-left">
                         <div className="bg-hitech-surface border border-hitech-border rounded-lg p-6">
-                            <h3 className="text-lg font-semibold mb-4 text-hitech-text-primary">Passo 1: Fornisci una Chiave API Gemini</h3>
+                            <h3 className="text-lg font-semibold mb-4 text-hitech-text-primary">{t('welcome.step1')}</h3>
                             {isAistudioAvailable ? (
                                 <>
                                     {isApiKeySelected ? (
                                         <div className="w-full bg-hitech-surface border border-hitech-border rounded-lg py-3 px-5 text-center text-hitech-accent-hover font-semibold">
-                                            ✓ Chiave API Selezionata
+                                            {t('welcome.keySelected')}
                                         </div>
                                     ) : (
                                         <div>
@@ -89,24 +185,24 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onUpload, apiKeyError, fi
                                                 onClick={handleSelectKeyClick}
                                                 className="w-full bg-hitech-accent hover:bg-hitech-accent-hover text-hitech-dark font-semibold rounded-lg py-3 px-5 text-center focus:outline-none focus:ring-2 focus:ring-hitech-accent"
                                             >
-                                                Seleziona la Chiave API Gemini
+                                                {t('welcome.selectKey')}
                                             </button>
                                         </div>
                                     )}
                                 </>
                             ) : (
                             <>
-                                    <label htmlFor="api-key-input" className="sr-only">Chiave API Gemini</label>
+                                    <label htmlFor="api-key-input" className="sr-only">{t('welcome.apiKeyLabel')}</label>
                                     <input
                                         id="api-key-input"
                                         type="password"
                                         value={apiKey}
                                         onChange={(e) => setApiKey(e.target.value)}
-                                        placeholder="Inserisci la tua Chiave API Gemini"
+                                        placeholder={t('welcome.apiKeyPlaceholder')}
                                         className="w-full bg-hitech-dark border border-hitech-border rounded-lg py-3 px-5 focus:outline-none focus:ring-2 focus:ring-hitech-accent text-hitech-text-primary"
                                     />
                                     <p className="text-xs text-hitech-text-secondary mt-2 text-center">
-                                        La tua chiave API viene memorizzata in modo sicuro nel browser per le visite future.
+                                        {t('welcome.apiKeyStored')}
                                     </p>
                             </>
                             )}
@@ -117,7 +213,7 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onUpload, apiKeyError, fi
                 
                 <div className={`transition-opacity ${!isApiKeySelected ? 'opacity-50 pointer-events-none' : 'animate-fade-slide-in'}`}>
                     <div className="text-left max-w-xl mx-auto mb-4">
-                      <h3 className="text-lg font-semibold text-hitech-text-primary">{isApiKeySelected ? "Carica Documenti" : "Passo 2: Carica Documenti"}</h3>
+                      <h3 className="text-lg font-semibold text-hitech-text-primary">{isApiKeySelected ? t('welcome.uploadDocuments') : t('welcome.step2')}</h3>
                     </div>
 
                     <div 
@@ -126,12 +222,12 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onUpload, apiKeyError, fi
                     >
                         <div className="flex flex-col items-center justify-center">
                             <UploadCloudIcon />
-                            <p className="mt-4 text-lg text-hitech-text-secondary">Trascina qui i tuoi file PDF, .txt, o .md.</p>
-                            <input id="file-upload" type="file" multiple className="hidden" onChange={handleFileChange} accept=".pdf,.txt,.md"/>
+                            <p className="mt-4 text-lg text-hitech-text-secondary">{t('welcome.dropHint')}</p>
+                            <input id="file-upload" type="file" multiple className="hidden" onChange={handleFileChange} accept={ACCEPTED_FILE_TYPES}/>
                              <label 
                                 htmlFor="file-upload" 
                                 className="mt-4 cursor-pointer px-6 py-2 bg-hitech-accent text-hitech-dark rounded-full font-semibold hover:bg-hitech-accent-hover transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-hitech-dark focus:ring-hitech-accent" 
-                                title="Seleziona file dal tuo dispositivo"
+                                title={t('welcome.browseTitle')}
                                 tabIndex={0}
                                 onKeyDown={e => {
                                     if (e.key === 'Enter' || e.key === ' ') {
@@ -140,31 +236,46 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onUpload, apiKeyError, fi
                                     }
                                 }}
                              >
-                                O Sfoglia File
+                                {t('welcome.browse')}
                             </label>
+                            <button
+                                onClick={() => setScannerPhotos([])}
+                                disabled={!canScanManuals}
+                                className="mt-3 flex items-center text-sm text-hitech-text-secondary hover:text-hitech-accent-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:text-hitech-text-secondary"
+                                title={canScanManuals ? t('welcome.scanManualTitle') : t('welcome.scanManualLocal')}
+                            >
+                                <CameraIcon /> <span className="ml-2">{t('welcome.scanManual')}</span>
+                            </button>
                         </div>
                     </div>
 
                     {files.length > 0 && (
                         <div className="w-full max-w-xl mx-auto mb-6 text-left">
-                            <h4 className="font-semibold mb-2">File Selezionati ({files.length}):</h4>
+                            <h4 className="font-semibold mb-2">{t('welcome.selectedFiles', { count: files.length })}</h4>
                             <ul className="max-h-36 overflow-y-auto space-y-1 pr-2">
-                                {files.map((file, index) => (
-                                    <li key={`${file.name}-${index}`} className="text-sm bg-hitech-surface/50 p-2 rounded-md flex justify-between items-center group">
-                                        <span className="truncate" title={file.name}>{file.name}</span>
-                                        <div className="flex items-center flex-shrink-0">
-                                            <span className="text-xs text-hitech-text-secondary/50 ml-2">{(file.size / 1024).toFixed(2)} KB</span>
-                                            <button 
-                                                onClick={() => handleRemoveFile(index)}
-                                                className="ml-2 p-1 text-red-400 hover:text-red-300 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
-                                                aria-label={`Rimuovi ${file.name}`}
-                                                title="Rimuovi questo file"
-                                            >
-                                                <TrashIcon />
-                                            </button>
-                                        </div>
-                                    </li>
-                                ))}
+                                {files.map((file, index) => {
+                                    const issue = getFileIssue(file, index);
+                                    return (
+                                        <li key={`${file.name}-${index}`} className={`text-sm p-2 rounded-md flex justify-between items-center group ${issue ? 'bg-red-500/10 border border-red-500/40' : 'bg-hitech-surface/50'}`}>
+                                            <span className="truncate" title={file.name}>{file.name}</span>
+                                            <div className="flex items-center flex-shrink-0">
+                                                {issue && (
+                                                    <span className="text-xs font-semibold text-red-300 bg-red-500/20 px-2 py-0.5 rounded-full ml-2 max-w-[12rem] truncate" title={issue}>{issue}</span>
+                                                )}
+                                                {!fileChecks.has(file) && <span className="text-xs text-hitech-text-secondary ml-2">{t('welcome.checking')}</span>}
+                                                <span className="text-xs text-hitech-text-secondary/50 ml-2">{formatNumber(file.size / 1024, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} KB</span>
+                                                <button 
+                                                    onClick={() => handleRemoveFile(index)}
+                                                    className={`ml-2 p-1 text-red-400 hover:text-red-300 rounded-full transition-opacity ${issue ? '' : 'opacity-0 group-hover:opacity-100'}`}
+                                                    aria-label={t('welcome.removeFile', { name: file.name })}
+                                                    title={t('welcome.removeFileTitle')}
+                                                >
+                                                    <TrashIcon />
+                                                </button>
+                                            </div>
+                                        </li>
+                                    );
+                                })}
                             </ul>
                         </div>
                     )}
@@ -173,15 +284,57 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onUpload, apiKeyError, fi
                         {files.length > 0 && (
                             <button 
                                 onClick={handleConfirmUpload}
-                                disabled={!isApiKeySelected}
+                                disabled={!isApiKeySelected || isCheckingFiles || hasFileIssues}
                                 className="w-full px-6 py-3 rounded-md bg-hitech-accent hover:bg-hitech-accent-hover text-hitech-dark font-bold transition-colors disabled:bg-hitech-border/50 disabled:cursor-not-allowed"
-                                title={!isApiKeySelected ? "Per favore, fornisci prima una chiave API" : "Avvia la sessione di chat con i file selezionati"}
+                                title={!isApiKeySelected
+                                    ? t('welcome.needKeyFirst')
+                                    : hasFileIssues
+                                    ? t('welcome.removeFlaggedFiles')
+                                    : t('welcome.startChatTitle')}
                             >
-                                Carica e Chatta
+                                {t('welcome.uploadAndChat')}
                             </button>
                         )}
+                        <button
+                            onClick={onOpenLibrary}
+                            disabled={!isApiKeySelected}
+                            className="w-full mt-4 px-6 py-3 rounded-md bg-hitech-surface hover:bg-hitech-surface-hover text-hitech-text-primary font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            title={t('welcome.openLibraryTitle')}
+                        >
+                            {t('welcome.openLibrary')}
+                        </button>
                     </div>
                 </div>
+
+                {scannerPhotos && (
+                    <ManualScanner
+                        initialPhotos={scannerPhotos}
+                        onCreate={pdf => {
+                            setFiles(prev => [...prev, pdf]);
+                            setScannerPhotos(null);
+                        }}
+                        onClose={() => setScannerPhotos(null)}
+                    />
+                )}
+
+                <div className="w-full max-w-xl mx-auto mt-4">
+                    <input id="conversation-import" type="file" className="hidden" onChange={handleImportChange} accept=".json,application/json" />
+                    <label
+                        htmlFor="conversation-import"
+                        className="block cursor-pointer text-sm text-hitech-text-secondary hover:text-hitech-accent-hover transition-colors"
+                        title={t('welcome.importTitle')}
+                    >
+                        {t('welcome.import')}
+                    </label>
+                    {importError && <p className="text-red-400 text-sm mt-2">{importError}</p>}
+                    <button
+                        onClick={onOpenFeedback}
+                        className="mt-2 text-sm text-hitech-text-secondary hover:text-hitech-accent-hover transition-colors"
+                        title={t('welcome.openFeedbackTitle')}
+                    >
+                        {t('welcome.openFeedback')}
+                    </button>
+                </div>
             </div>
         </div>
     );
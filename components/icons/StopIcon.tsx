@@ -0,0 +1,13 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+
+const StopIcon: React.FC = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="currentColor" viewBox="0 -960 960 960" stroke="currentColor">
+        <path d="M240-240v-480h480v480H240Z"/>
+    </svg>
+);
+
+export default StopIcon;
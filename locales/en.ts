@@ -0,0 +1,495 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type it from './it';
+
+const en: Record<keyof typeof it, string> = {
+    'app.documentCount': '{count} documents',
+    'app.apiKeyRequired': 'A Gemini API key is required to continue.',
+    'app.initializationFailed': 'Initialization failed. Make sure your API key is valid.',
+    'app.startChatFailed': 'Could not start the chat session',
+    'app.noFileUploaded': 'No file was uploaded.',
+    'app.someFilesFailed': 'Could not upload {failed} of {total} files: {names}.',
+    'app.resumeFailed': 'Could not resume the upload',
+    'app.loadStoresFailed': 'Could not load the RAG stores',
+    'app.loadDocumentsFailed': "Could not load the store's documents",
+    'app.createStoreFailed': 'Could not create the RAG store',
+    'app.confirmDeleteStore': 'Permanently delete the store "{name}" and all its documents?',
+    'app.deleteStoreFailed': 'Could not delete the RAG store',
+    'app.uploadFileFailed': 'Could not upload {name}',
+    'app.confirmDeleteDocument': 'Delete the document "{name}"?',
+    'app.deleteDocumentFailed': 'Could not delete the document',
+    'app.loadSessionStoresFailed': 'Could not load the session stores',
+    'app.deleteSessionStoresFailed': 'Could not delete {count} stores. Try again later.',
+    'app.openConversationFailed': 'Could not open the conversation',
+    'app.renameConversationFailed': 'Could not rename the conversation',
+    'app.confirmDeleteConversation': 'Delete the conversation "{title}"?',
+    'app.deleteConversationFailed': 'Could not delete the conversation',
+    'app.uploadNotCompleted': 'upload failed',
+    'app.addDocumentsRejected': 'Could not add {count} files. {details}.',
+    'app.addDocumentsFailed': 'Could not add the documents: {message}',
+    'app.loadFeedbackFailed': 'Could not load the feedback',
+    'app.deleteFeedbackFailed': 'Could not delete the feedback',
+    'app.saveFeedbackFailed': 'Could not save the answer rating.',
+    'app.noMoreExampleQuestions': 'No more suggestions are available for these documents.',
+    'app.exampleQuestionsFailed': 'Could not generate example questions: {message}',
+    'app.budgetReached': "Today's estimated cost ({cost}) has reached the daily budget of {budget}. Send the question anyway?",
+    'app.storeMissing': "This chat's store no longer exists. You can read and download the conversation, or start a new chat.",
+    'app.initializing': 'Initializing...',
+    'app.errorTitle': 'Application error',
+    'app.errorRetry': 'Try again',
+    'app.errorRetryTitle': 'Return to the welcome screen',
+    'app.language': 'Language',
+
+    'progress.creatingIndex': 'Creating the document index...',
+    'progress.generatingEmbeddings': 'Generating embeddings...',
+    'progress.generatingSuggestions': 'Generating suggestions...',
+    'progress.allSet': 'All set!',
+    'progress.checkingFiles': 'Checking the selected files...',
+    'progress.preparingChat': 'Preparing your chat...',
+
+    'welcome.importFailed': 'Could not import the conversation.',
+    'welcome.title': 'Chat with your Document',
+    'welcome.engine': 'Search engine',
+    'welcome.engineGemini': 'Gemini (cloud)',
+    'welcome.engineGeminiTitle': 'Answers generated by Gemini with File Search',
+    'welcome.engineLocal': 'Local (offline)',
+    'welcome.engineLocalTitle': 'Searches the documents right in the browser, without a connection',
+    'welcome.engineLocalDescription': 'The local engine indexes the documents in the browser and answers with the most relevant passages, without using a language model.',
+    'welcome.step1': 'Step 1: Provide a Gemini API Key',
+    'welcome.keySelected': '✓ API Key Selected',
+    'welcome.selectKey': 'Select a Gemini API Key',
+    'welcome.apiKeyLabel': 'Gemini API Key',
+    'welcome.apiKeyPlaceholder': 'Enter your Gemini API Key',
+    'welcome.apiKeyStored': 'Your API key is stored securely in the browser for future visits.',
+    'welcome.uploadDocuments': 'Upload Documents',
+    'welcome.step2': 'Step 2: Upload Documents',
+    'welcome.dropHint': 'Drag your PDF, .txt or .md files here.',
+    'welcome.browseTitle': 'Select files from your device',
+    'welcome.browse': 'Or Browse Files',
+    'welcome.selectedFiles': 'Selected Files ({count}):',
+    'welcome.checking': 'Checking...',
+    'welcome.removeFile': 'Remove {name}',
+    'welcome.removeFileTitle': 'Remove this file',
+    'welcome.needKeyFirst': 'Please provide an API key first',
+    'welcome.removeFlaggedFiles': 'Remove the flagged files before continuing',
+    'welcome.startChatTitle': 'Start a chat session with the selected files',
+    'welcome.uploadAndChat': 'Upload and Chat',
+    'welcome.openLibraryTitle': 'Browse the existing stores and chat with a manual already uploaded',
+    'welcome.openLibrary': 'Open the Manual Library',
+    'welcome.importTitle': 'Open a conversation exported as JSON, read-only',
+    'welcome.openFeedback': 'Review answer feedback',
+    'welcome.openFeedbackTitle': 'Browse and export the ratings given to answers',
+    'welcome.import': 'Import an exported conversation (.json)',
+    'welcome.scanManual': 'Photograph a paper manual',
+    'welcome.scanManualTitle': 'Photograph the pages of a printed manual and upload them as a single PDF',
+    'welcome.scanManualLocal': 'The local engine cannot read text in photographed pages: choose Gemini to upload a paper manual',
+
+    'resume.confirmDiscard': 'Delete the partial store and the files already uploaded?',
+    'resume.title': 'Upload interrupted',
+    'resume.description': 'The upload of {date} stopped after {done} of {total} files. Select the missing files again to resume, or delete the partial store. Starting a new upload deletes the interrupted one.',
+    'resume.selectMissing': 'Select the missing files',
+    'resume.discardTitle': 'Delete the partial store',
+    'resume.discard': 'Delete',
+    'resume.resumeTitle': 'Resume the upload with the selected files',
+    'resume.resume': 'Resume',
+
+    'ingestion.queued': 'Queued',
+    'ingestion.uploading': 'Uploading',
+    'ingestion.indexing': 'Indexing',
+    'ingestion.done': 'Done',
+    'ingestion.failed': 'Failed',
+    'ingestion.cancelled': 'Cancelled',
+    'ingestion.attempt': ' (attempt {attempt})',
+    'ingestion.cancelTitle': 'Stop the upload and delete the partial store',
+    'ingestion.cancel': 'Cancel',
+
+    'stores.title': 'RAG Stores',
+    'stores.refresh': 'Refresh RAG Stores',
+    'stores.refreshTitle': 'Refresh the list of RAG Stores',
+    'stores.create': 'Create new RAG Store',
+    'stores.createTitle': 'Create a new RAG Store',
+    'stores.search': 'Search stores...',
+    'stores.createDialogTitle': 'Create New RAG Store',
+    'stores.nameLabel': 'Store Name',
+    'stores.namePlaceholder': 'Enter a store name',
+    'stores.cancelCreateTitle': 'Cancel store creation',
+    'stores.cancel': 'Cancel',
+    'stores.confirmCreate': 'Create',
+    'stores.noMatches': 'No stores found.',
+    'stores.empty': "No RAG Store found. \n Click '+' to create one.",
+    'stores.selectTitle': 'Select {name} to see its documents',
+    'stores.delete': 'Delete {name}',
+
+    'documents.selectStore': 'Select a RAG Store',
+    'documents.selectStoreHint': 'to view and manage its documents.',
+    'documents.title': 'Documents',
+    'documents.upload': 'Upload document',
+    'documents.uploadTitle': 'Upload a new document to this store',
+    'documents.uploadDialogTitle': 'Upload Document',
+    'documents.file': 'File',
+    'documents.selected': 'Selected: {name}',
+    'documents.checking': ' (checking...)',
+    'documents.customMetadata': 'Custom Metadata (optional)',
+    'documents.metadataKey': 'Key',
+    'documents.valueType': 'Value type',
+    'documents.typeString': 'Text',
+    'documents.typeList': 'List',
+    'documents.typeNumber': 'Number',
+    'documents.listValuePlaceholder': 'Comma-separated values',
+    'documents.valuePlaceholder': 'Value',
+    'documents.removeMetadataRow': 'Remove metadata row',
+    'documents.addMetadataTitle': 'Add another metadata field',
+    'documents.addMetadata': 'Add Metadata',
+    'documents.cancelUploadTitle': 'Cancel upload',
+    'documents.cancel': 'Cancel',
+    'documents.confirmUploadTitle': 'Upload the selected file',
+    'documents.confirmUpload': 'Upload',
+    'documents.processing': 'Processing: {name}...',
+    'documents.empty': 'No documents found.',
+    'documents.emptyHint': 'Click the upload icon to add one.',
+    'documents.delete': 'Delete {name}',
+    'documents.metadata': 'Metadata:',
+
+    'library.backTitle': 'Back to the start screen',
+    'library.back': 'Back',
+    'library.title': 'Manual Library',
+    'library.maintenanceTitle': 'Find and delete stores left behind by chat sessions that were never closed',
+    'library.maintenance': 'Session stores',
+    'library.evaluationTitle': 'Measure the quality of answers from {name} against a set of reference questions',
+    'library.evaluationDisabled': 'Select a store to evaluate',
+    'library.evaluation': 'Evaluation',
+    'library.startChatTitle': 'Start a chat with {name}',
+    'library.startChatDisabled': 'Select a store with at least one document',
+    'library.startChat': 'Chat with the store',
+
+    'maintenance.ageUnknown': 'unknown',
+    'maintenance.ageUnderAnHour': 'less than an hour',
+    'maintenance.ageHours': '{count} hours',
+    'maintenance.ageDays': '{count} days',
+    'maintenance.confirmDelete': 'Permanently delete {count} session stores and their documents?',
+    'maintenance.backTitle': 'Back to the library',
+    'maintenance.back': 'Back',
+    'maintenance.title': 'Session stores',
+    'maintenance.refresh': 'Refresh the list',
+    'maintenance.refreshTitle': 'Refresh the list of session stores',
+    'maintenance.intro': "Every \"Upload and Chat\" creates a temporary store that is deleted when the chat ends. Sessions that are never closed leave it behind, using up the account's quota.",
+    'maintenance.ttlLabel': 'On startup, automatically delete session stores older than',
+    'maintenance.ttlInput': 'Maximum age in hours',
+    'maintenance.hours': 'hours',
+    'maintenance.selectAll': 'Select all ({count})',
+    'maintenance.deleteSelectedTitle': 'Delete the selected stores',
+    'maintenance.deleteSelected': 'Delete selected ({count})',
+    'maintenance.empty': 'No leftover session stores.',
+    'maintenance.inUse': 'In use · ',
+    'maintenance.age': 'Age: {age}',
+    'maintenance.documentCount': ' · {count} documents',
+
+    'chat.importedReadOnly': 'Imported conversation, read-only. You can read it and download it again, but not continue it.',
+    'chat.openSource': 'Open source {index}',
+    'chat.title': 'Chat with your documents',
+    'chat.activeFilter': 'Active filter: {filter}',
+    'chat.activeFilterLabel': 'Active filter:',
+    'chat.filterTitle': 'Filter the answers by metadata',
+    'chat.filter': 'Filter',
+    'chat.addDocumentsTitle': 'Add more manuals to this chat without losing the conversation',
+    'chat.addDocuments': 'Add',
+    'chat.downloadTitle': 'Download conversation',
+    'chat.download': 'Download',
+    'chat.clearTitle': 'Clear the chat',
+    'chat.clear': 'Clear',
+    'chat.closeTitle': 'Close the conversation',
+    'chat.newChatTitle': 'End the current chat and start a new one',
+    'chat.close': 'Close',
+    'chat.newChat': 'New Chat',
+    'chat.addingDocuments': 'Adding documents ({done}/{total}):',
+    'chat.dismissNotice': 'Dismiss the notice',
+    'chat.suggestions': 'Here are some suggestions to get started:',
+    'chat.moreSuggestions': 'More suggestions',
+    'chat.moreSuggestionsTitle': 'Generate new example questions, different from the ones shown',
+    'chat.loadingSuggestions': 'Generating...',
+    'chat.sources': 'Sources',
+    'chat.interrupted': 'Answer interrupted',
+    'chat.retryTitle': 'Send the question again',
+    'chat.retry': 'Retry',
+    'chat.selectAnotherKey': 'Select another key and retry',
+    'chat.replacementKeyPlaceholder': 'New Gemini API Key',
+    'chat.useKeyAndRetry': 'Use key and retry',
+    'chat.previousVersion': 'Previous version',
+    'chat.nextVersion': 'Next version',
+    'chat.versionTitle': 'Version {index} of {count}',
+    'chat.edit': 'Edit',
+    'chat.editTitle': 'Edit the question and send it again; the original version stays available',
+    'chat.editLabel': 'Edited question',
+    'chat.cancelEdit': 'Cancel',
+    'chat.sendEdit': 'Send',
+    'chat.regenerate': 'Regenerate',
+    'chat.regenerateTitle': 'Ask for a new answer; the current one stays available',
+    'chat.usageBreakdown': 'Prompt {prompt} · Sources {tool} · Answer {candidates} · Thinking {thoughts}',
+    'chat.tokens': '{count} tokens',
+    'chat.placeholder': 'Ask a question about the manuals...',
+    'chat.placeholderWithImage': 'Ask something about the photo, e.g. “What does this light mean?”',
+    'chat.attachImageTitle': 'Attach a photo of the appliance, e.g. of its display or a warning light',
+    'chat.chooseImage': 'Choose a photo',
+    'chat.takePhoto': 'Take a photo',
+    'chat.removeImage': 'Remove the photo',
+    'chat.attachedImage': 'Attached photo',
+    'chat.tooManyImages': 'You can attach at most {max} photos per question.',
+    'chat.stopTitle': 'Stop the answer',
+    'chat.sendTitle': 'Send message',
+    'chat.modelTitle': 'Choose the model, generation parameters and system instructions for this store',
+    'chat.model': 'Model: {model}',
+    'chat.contextTitle': 'Configure how much of the conversation is sent with each question',
+    'chat.contextTurns': 'Context: last {count} messages',
+    'chat.contextRewrite': ', rewritten questions',
+    'chat.contextNone': 'Context: none',
+    'chat.usageTitle': 'Tokens used and estimated cost of this conversation and of today',
+    'chat.usage': 'Usage: {tokens} tokens · today ~{cost}',
+    'chat.source': 'Source {index}',
+    'chat.closeSourceTitle': 'Close the source view',
+
+    'conversations.title': 'Conversations',
+    'conversations.new': 'New conversation',
+    'conversations.newTitle': 'Start a new conversation with this store',
+    'conversations.search': 'Search conversations...',
+    'conversations.noMatches': 'No conversations found.',
+    'conversations.empty': 'Saved conversations will appear here.',
+    'conversations.renameInput': 'New conversation title',
+    'conversations.messageCount': ' · {count} messages',
+    'conversations.tokenCount': ' · {count} tokens',
+    'conversations.rename': 'Rename {name}',
+    'conversations.renameTitle': 'Rename the conversation',
+    'conversations.delete': 'Delete {name}',
+    'conversations.deleteTitle': 'Delete the conversation',
+
+    'usage.summary': '{tokens} tokens · ~{cost}',
+    'usage.unpricedExcluded': ' (excluding models without a price)',
+    'usage.conversation': 'This conversation:',
+    'usage.today': 'Today:',
+    'usage.dailyBudget': 'Daily budget (USD)',
+    'usage.noBudget': 'none',
+    'usage.dailyBudgetTitle': 'Above this estimated daily cost, sending a question asks for confirmation first',
+    'usage.model': 'Model',
+    'usage.inputPrice': 'Input ($/1M tokens)',
+    'usage.outputPrice': 'Output ($/1M tokens)',
+    'usage.inputPriceOf': 'Input price of {model}',
+    'usage.outputPriceOf': 'Output price of {model}',
+
+    'generation.model': 'Model',
+    'generation.temperature': 'Temperature',
+    'generation.defaultValue': 'default',
+    'generation.temperatureTitle': 'Low values give more predictable answers, high values more varied ones (0-2)',
+    'generation.maxOutputTokens': 'Max answer tokens',
+    'generation.defaultValues': 'default',
+    'generation.maxOutputTokensTitle': 'Maximum answer length, thinking included',
+    'generation.systemInstruction': 'System instructions',
+    'generation.systemInstructionPlaceholder': 'How the model should behave when answering',
+    'generation.resetTitle': 'Restore the default model, parameters and instructions for this store',
+    'generation.reset': 'Restore defaults',
+
+    'context.maxTurns': 'Previous messages',
+    'context.maxTurnsTitle': 'How many previous messages to send as context (0 = none)',
+    'context.maxTokens': 'Token budget',
+    'context.maxTokensTitle': 'Approximate maximum number of conversation tokens to send',
+    'context.rewriteQueryTitle': 'Turn follow-up questions into standalone questions before searching the manuals',
+    'context.rewriteQuery': 'Rewrite follow-up questions',
+
+    'filter.title': 'Filter by metadata',
+    'filter.combinator': 'How conditions combine',
+    'filter.all': 'All conditions (AND)',
+    'filter.any': 'At least one condition (OR)',
+    'filter.key': 'Key',
+    'filter.operator': 'Operator',
+    'filter.value': 'Value',
+    'filter.removeCondition': 'Remove condition',
+    'filter.addConditionTitle': 'Add another condition',
+    'filter.addCondition': 'Add Condition',
+    'filter.expression': 'Filter expression',
+    'filter.expressionPlaceholder': 'e.g. brand = "LG" AND year >= 2023',
+    'filter.clearTitle': 'Remove the active filter',
+    'filter.clear': 'Remove Filter',
+    'filter.applyTitle': 'Apply the filter to the next questions',
+    'filter.apply': 'Apply',
+
+    'feedback.rateUp': 'Helpful answer',
+    'feedback.rateDown': 'Wrong or unhelpful answer',
+    'feedback.addDetails': 'Add a comment',
+    'feedback.editDetails': 'Edit the comment',
+    'feedback.comment': 'Comment',
+    'feedback.commentPlaceholder': 'What is wrong or helpful about this answer? (optional)',
+    'feedback.wrongSource': 'Wrong source',
+    'feedback.wrongSourceTitle': 'The answer cites a part of the manual that has nothing to do with the question',
+    'feedback.close': 'Close',
+    'feedback.save': 'Save',
+    'feedback.backTitle': 'Back to the start screen',
+    'feedback.back': 'Back',
+    'feedback.title': 'Answer feedback',
+    'feedback.refresh': 'Refresh the feedback',
+    'feedback.show': 'Show',
+    'feedback.filterAll': 'All ratings',
+    'feedback.filterDown': 'Negative answers',
+    'feedback.filterUp': 'Positive answers',
+    'feedback.filterWrongSource': 'Wrong source',
+    'feedback.export': 'Export:',
+    'feedback.exportTitle': 'Export the {count} ratings shown',
+    'feedback.noMatches': 'No ratings match the filter.',
+    'feedback.empty': 'No answers have been rated yet. Use the thumbs under the chat answers.',
+    'feedback.confirmDelete': 'Delete this rating from the log?',
+    'feedback.delete': 'Delete the rating',
+    'feedback.answerAndSources': 'Answer and sources',
+
+    'evaluation.backTitle': 'Back to the library',
+    'evaluation.back': 'Back',
+    'evaluation.title': 'Evaluation: {name}',
+    'evaluation.goldenSet': 'Reference questions (JSON)',
+    'evaluation.goldenSetHint': 'A list of objects with question, expectedDocument and expectedKeywords.',
+    'evaluation.goldenSetLoaded': '“{name}”: {count} questions',
+    'evaluation.mode': 'Mode',
+    'evaluation.modeLive': 'Live (records the responses)',
+    'evaluation.modeLiveTitle': 'Asks the store every question and saves the responses so the evaluation can be repeated offline',
+    'evaluation.modeReplay': 'From a recording',
+    'evaluation.modeReplayTitle': 'Rescores the responses of an earlier recording without calling the service',
+    'evaluation.recordingFile': 'Recording file (JSON)',
+    'evaluation.baseline': 'Baseline report (optional)',
+    'evaluation.baselineLoaded': '“{name}” from {date}',
+    'evaluation.run': 'Run evaluation',
+    'evaluation.stop': 'Stop',
+    'evaluation.progress': '{done} of {total} questions',
+    'evaluation.downloadReport': 'Download report',
+    'evaluation.downloadReportTitle': 'Download the report as JSON, to use as a baseline for later evaluations',
+    'evaluation.downloadRecording': 'Download recording',
+    'evaluation.downloadRecordingTitle': 'Download the received responses, to repeat the evaluation offline',
+    'evaluation.metric': 'Metric',
+    'evaluation.thisRun': 'This run',
+    'evaluation.baselineColumn': 'Baseline',
+    'evaluation.delta': 'Change',
+    'evaluation.retrievalHitRate': 'Expected document among sources',
+    'evaluation.keywordCoverage': 'Keywords in the answer',
+    'evaluation.meanLatency': 'Mean response time',
+    'evaluation.p95Latency': 'Response time (95th percentile)',
+    'evaluation.errors': 'Errors',
+    'evaluation.milliseconds': '{ms} ms',
+    'evaluation.question': 'Question',
+    'evaluation.retrieval': 'Sources',
+    'evaluation.keywords': 'Keywords',
+    'evaluation.latency': 'Time',
+    'evaluation.hit': 'Found',
+    'evaluation.miss': 'Missing',
+    'evaluation.retrievedDocuments': 'Cited documents: {names}',
+    'evaluation.missingKeywords': 'Missing: {keywords}',
+    'evaluation.notRecorded': 'The question is not in the recording.',
+    'evaluation.invalidJson': 'The file does not contain valid JSON.',
+    'evaluation.notAGoldenSet': 'The file does not contain a list of reference questions.',
+    'evaluation.noQuestions': 'The file does not contain any questions.',
+    'evaluation.notARecording': 'The file is not a response recording.',
+    'evaluation.notAReport': 'The file is not an evaluation report.',
+
+    'camera.title': 'Camera',
+    'camera.capture': 'Take photo',
+    'camera.cancel': 'Cancel',
+    'camera.unsupported': 'This browser cannot use the camera. Choose a photo from the device instead.',
+    'camera.denied': 'Access to the camera was denied. Allow it in the browser settings.',
+    'camera.unavailable': 'No camera available.',
+
+    'images.unreadable': 'The image could not be read.',
+
+    'scanner.title': 'Photograph a paper manual',
+    'scanner.description': 'Take or choose one photo per page, put them in order and create a PDF to upload.',
+    'scanner.documentTitle': 'Document title',
+    'scanner.documentTitlePlaceholder': 'e.g. X100 washing machine manual',
+    'scanner.takePhotos': 'Photograph pages',
+    'scanner.takePhotosTitle': 'Photograph the pages one after another with the camera',
+    'scanner.addImages': 'Add images',
+    'scanner.addImagesTitle': 'Choose photos of the pages from your device',
+    'scanner.doneTakingPhotos': 'Done ({count} pages)',
+    'scanner.empty': 'No pages yet. Take photos or drop page images here.',
+    'scanner.notAnImage': '{name} is not an image.',
+    'scanner.pageNumber': 'Page {number}',
+    'scanner.pageAlt': 'Photo of page {number}',
+    'scanner.dragTitle': 'Drag to reorder the pages',
+    'scanner.moveEarlier': 'Move earlier',
+    'scanner.moveLater': 'Move later',
+    'scanner.editPage': 'Crop',
+    'scanner.editPageTitle': 'Rotate and crop this page',
+    'scanner.removePage': 'Remove page {number}',
+    'scanner.removePageTitle': 'Remove this page',
+    'scanner.editTitle': 'Edit page {number}',
+    'scanner.cropTop': 'Top margin',
+    'scanner.cropBottom': 'Bottom margin',
+    'scanner.cropLeft': 'Left margin',
+    'scanner.cropRight': 'Right margin',
+    'scanner.rotateLeft': 'Left',
+    'scanner.rotateLeftTitle': 'Rotate 90° counterclockwise',
+    'scanner.rotateRight': 'Right',
+    'scanner.rotateRightTitle': 'Rotate 90° clockwise',
+    'scanner.resetCrop': 'Reset crop',
+    'scanner.cancelEdit': 'Cancel',
+    'scanner.applyEdit': 'Apply',
+    'scanner.cancel': 'Cancel',
+    'scanner.create': 'Create PDF ({count} pages)',
+    'scanner.createTitle': 'Combine the pages into a PDF and add it to the files to upload',
+    'scanner.needTitle': 'Enter a title for the document',
+    'scanner.creating': 'Creating the PDF...',
+    'scanner.createFailed': 'The PDF could not be created.',
+
+    'export.you': 'You',
+    'export.model': 'Model',
+    'export.interruptedMarkdown': '_(answer interrupted)_',
+    'export.interrupted': 'Answer interrupted',
+    'export.image': 'Attached photo',
+    'export.version': 'version {index} of {count}',
+    'export.exportedAt': 'Exported on {date}',
+    'export.store': 'Store: {name}',
+    'export.documents': 'Documents: {names}',
+    'export.fileName': 'conversation_{title}',
+    'export.invalidJson': 'The file is not valid JSON.',
+    'export.notAnExport': 'The file is not a conversation export.',
+    'export.unsupportedVersion': 'Unsupported export version: {version}.',
+    'export.importedTitle': 'Imported conversation',
+
+    'errors.auth': 'The Gemini API key is invalid or not authorized.',
+    'errors.quota': 'Rate limit or quota reached. Try again in a moment.',
+    'errors.notFound': 'The requested store or document no longer exists.',
+    'errors.safety': 'The answer was blocked by the safety filters.',
+    'errors.network': 'No or unstable connection. Check the network and try again.',
+    'errors.server': 'The Gemini service is currently unavailable. Try again later.',
+    'errors.cancelled': 'Operation cancelled.',
+    'errors.unknown': 'An unexpected error occurred.',
+    'errors.offline': 'You are offline. Check the connection and try again.',
+    'errors.notInitialized': 'Gemini AI not initialized',
+    'errors.apiKeyMissing': 'The API key is not configured. Provide one or set the API_KEY environment variable.',
+    'errors.storeNameMissing': 'Could not create the RAG store: missing name.',
+    'errors.indexingFailed': 'Indexing of {name} failed: {reason}',
+
+    'services.untitledConversation': 'New conversation',
+    'services.conversationNotFound': 'Conversation not found.',
+    'services.databaseBlocked': 'The "{name}" database is blocked by another open tab.',
+    'services.transactionAborted': 'IndexedDB transaction aborted.',
+    'services.uploadTimedOut': 'Upload time limit exceeded.',
+    'services.retryingAfterError': 'Retrying after the error: {message}',
+    'services.localNoPassages': 'No relevant passages found in the documents for this question.',
+    'services.localPassages': 'Here are the most relevant passages found in the documents (local engine, no language model):\n\n{passages}',
+    'services.localPage': ', p. {page}',
+    'services.localExampleQuestion': 'What does the manual say about "{term}"?',
+    'services.noExtractableText': 'Could not extract text from {name}. The document may be a scan or use an encoding the local engine does not support.',
+    'services.unknownModel': 'unknown',
+    'services.unsupportedFormat': 'Unsupported format{type}. Only PDF, .txt and .md files are accepted.',
+    'services.emptyFile': 'The file is empty.',
+    'services.fileTooLarge': 'The file exceeds the {size} MB limit.',
+    'services.fileUnreadable': 'Could not read the file: {message}',
+    'services.duplicateInStore': 'This manual is already in the store as "{name}".',
+    'services.duplicateOf': 'Duplicate of {name}',
+    'services.unknownDocument': 'Unknown document',
+    'services.exampleQuestionsInvalid': 'The model did not return the example questions in the expected format.',
+
+    'prompt.defaultSystemInstruction': 'Answer questions using the available manuals. Do not ask the user to read the manual: find the relevant sections and include their content in the answer itself.',
+    'prompt.answerLanguage': 'Always answer in English.',
+    'prompt.userRole': 'User',
+    'prompt.assistantRole': 'Assistant',
+    'prompt.rewriteFollowUp': 'Given the following conversation and a follow-up question, rewrite the follow-up question as a standalone question that can be understood without the conversation, in the same language as the question. Return only the rewritten question.\n\nConversation:\n{transcript}\n\nFollow-up question: {query}',
+    'prompt.exampleQuestions': "You are given some user manuals for some products. Work out which product each manual is for, based on the content of its cover page. DO NOT GUESS OR HALLUCINATE THE PRODUCT. Then, for each product, generate 4 short, practical example questions a user might ask about it in English. Return only a JSON array of objects, with no other text. Each object has a 'product' key with the product name and a 'questions' key with the array of questions. For example: [{\"product\": \"Product A\", \"questions\": [\"q1\", \"q2\"]}]",
+    'prompt.exampleQuestionsExclude': 'Do not repeat these questions, which were already suggested:\n{questions}',
+};
+
+export default en;
@@ -0,0 +1,497 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The Italian catalog is the reference: its keys define `MessageKey`, and other languages must
+// provide every one of them.
+
+const it = {
+    'app.documentCount': '{count} documenti',
+    'app.apiKeyRequired': 'È richiesta una Chiave API Gemini per continuare.',
+    'app.initializationFailed': 'Inizializzazione fallita. Assicurati che la tua chiave API sia valida.',
+    'app.startChatFailed': 'Impossibile avviare la sessione di chat',
+    'app.noFileUploaded': 'Nessun file caricato.',
+    'app.someFilesFailed': 'Impossibile caricare {failed} file su {total}: {names}.',
+    'app.resumeFailed': 'Impossibile riprendere il caricamento',
+    'app.loadStoresFailed': 'Impossibile caricare gli archivi RAG',
+    'app.loadDocumentsFailed': "Impossibile caricare i documenti dell'archivio",
+    'app.createStoreFailed': "Impossibile creare l'archivio RAG",
+    'app.confirmDeleteStore': "Eliminare definitivamente l'archivio \"{name}\" e tutti i suoi documenti?",
+    'app.deleteStoreFailed': "Impossibile eliminare l'archivio RAG",
+    'app.uploadFileFailed': 'Impossibile caricare {name}',
+    'app.confirmDeleteDocument': 'Eliminare il documento "{name}"?',
+    'app.deleteDocumentFailed': 'Impossibile eliminare il documento',
+    'app.loadSessionStoresFailed': 'Impossibile caricare gli archivi di sessione',
+    'app.deleteSessionStoresFailed': 'Impossibile eliminare {count} archivi. Riprova più tardi.',
+    'app.openConversationFailed': 'Impossibile aprire la conversazione',
+    'app.renameConversationFailed': 'Impossibile rinominare la conversazione',
+    'app.confirmDeleteConversation': 'Eliminare la conversazione "{title}"?',
+    'app.deleteConversationFailed': 'Impossibile eliminare la conversazione',
+    'app.uploadNotCompleted': 'caricamento non riuscito',
+    'app.addDocumentsRejected': 'Impossibile aggiungere {count} file. {details}.',
+    'app.addDocumentsFailed': 'Impossibile aggiungere i documenti: {message}',
+    'app.loadFeedbackFailed': 'Impossibile caricare il feedback',
+    'app.deleteFeedbackFailed': 'Impossibile eliminare il feedback',
+    'app.saveFeedbackFailed': 'Impossibile salvare la valutazione della risposta.',
+    'app.noMoreExampleQuestions': 'Nessun altro suggerimento disponibile per questi documenti.',
+    'app.exampleQuestionsFailed': 'Impossibile generare le domande di esempio: {message}',
+    'app.budgetReached': 'Il costo stimato di oggi ({cost}) ha raggiunto il budget giornaliero di {budget}. Inviare comunque la domanda?',
+    'app.storeMissing': "L'archivio di questa chat non esiste più. Puoi consultare e scaricare la conversazione, oppure iniziare una nuova chat.",
+    'app.initializing': 'Inizializzazione...',
+    'app.errorTitle': "Errore dell'applicazione",
+    'app.errorRetry': 'Riprova',
+    'app.errorRetryTitle': 'Torna alla schermata iniziale',
+    'app.language': 'Lingua',
+
+    'progress.creatingIndex': "Creazione dell'indice del documento...",
+    'progress.generatingEmbeddings': 'Generazione degli incorporamenti...',
+    'progress.generatingSuggestions': 'Generazione di suggerimenti...',
+    'progress.allSet': 'Tutto pronto!',
+    'progress.checkingFiles': 'Verifica dei file selezionati...',
+    'progress.preparingChat': 'Preparazione della tua chat...',
+
+    'welcome.importFailed': 'Impossibile importare la conversazione.',
+    'welcome.title': 'Chatta con il tuo Documento',
+    'welcome.engine': 'Motore di ricerca',
+    'welcome.engineGemini': 'Gemini (cloud)',
+    'welcome.engineGeminiTitle': 'Risposte generate da Gemini con File Search',
+    'welcome.engineLocal': 'Locale (offline)',
+    'welcome.engineLocalTitle': 'Ricerca nei documenti direttamente nel browser, senza connessione',
+    'welcome.engineLocalDescription': 'Il motore locale indicizza i documenti nel browser e risponde con i passaggi più pertinenti, senza usare un modello linguistico.',
+    'welcome.step1': 'Passo 1: Fornisci una Chiave API Gemini',
+    'welcome.keySelected': '✓ Chiave API Selezionata',
+    'welcome.selectKey': 'Seleziona la Chiave API Gemini',
+    'welcome.apiKeyLabel': 'Chiave API Gemini',
+    'welcome.apiKeyPlaceholder': 'Inserisci la tua Chiave API Gemini',
+    'welcome.apiKeyStored': 'La tua chiave API viene memorizzata in modo sicuro nel browser per le visite future.',
+    'welcome.uploadDocuments': 'Carica Documenti',
+    'welcome.step2': 'Passo 2: Carica Documenti',
+    'welcome.dropHint': 'Trascina qui i tuoi file PDF, .txt, o .md.',
+    'welcome.browseTitle': 'Seleziona file dal tuo dispositivo',
+    'welcome.browse': 'O Sfoglia File',
+    'welcome.selectedFiles': 'File Selezionati ({count}):',
+    'welcome.checking': 'Verifica...',
+    'welcome.removeFile': 'Rimuovi {name}',
+    'welcome.removeFileTitle': 'Rimuovi questo file',
+    'welcome.needKeyFirst': 'Per favore, fornisci prima una chiave API',
+    'welcome.removeFlaggedFiles': 'Rimuovi i file segnalati prima di continuare',
+    'welcome.startChatTitle': 'Avvia la sessione di chat con i file selezionati',
+    'welcome.uploadAndChat': 'Carica e Chatta',
+    'welcome.openLibraryTitle': 'Sfoglia gli archivi esistenti e chatta con un manuale già caricato',
+    'welcome.openLibrary': 'Apri la Libreria dei Manuali',
+    'welcome.importTitle': 'Apri in sola lettura una conversazione esportata in formato JSON',
+    'welcome.openFeedback': 'Rivedi il feedback sulle risposte',
+    'welcome.openFeedbackTitle': 'Consulta ed esporta le valutazioni date alle risposte',
+    'welcome.import': 'Importa una conversazione esportata (.json)',
+    'welcome.scanManual': 'Fotografa un manuale cartaceo',
+    'welcome.scanManualTitle': 'Fotografa le pagine di un manuale stampato e caricale come un unico PDF',
+    'welcome.scanManualLocal': 'Il motore locale non legge il testo delle pagine fotografate: scegli Gemini per caricare un manuale cartaceo',
+
+    'resume.confirmDiscard': "Eliminare l'archivio parziale e i file già caricati?",
+    'resume.title': 'Caricamento interrotto',
+    'resume.description': "Il caricamento del {date} si è interrotto dopo {done} file su {total}. Seleziona di nuovo i file mancanti per riprendere, oppure elimina l'archivio parziale. Avviando un nuovo caricamento, quello interrotto verrà eliminato.",
+    'resume.selectMissing': 'Seleziona i file mancanti',
+    'resume.discardTitle': "Elimina l'archivio parziale",
+    'resume.discard': 'Elimina',
+    'resume.resumeTitle': 'Riprendi il caricamento con i file selezionati',
+    'resume.resume': 'Riprendi',
+
+    'ingestion.queued': 'In coda',
+    'ingestion.uploading': 'Caricamento',
+    'ingestion.indexing': 'Indicizzazione',
+    'ingestion.done': 'Completato',
+    'ingestion.failed': 'Non riuscito',
+    'ingestion.cancelled': 'Annullato',
+    'ingestion.attempt': ' (tentativo {attempt})',
+    'ingestion.cancelTitle': "Interrompi il caricamento ed elimina l'archivio parziale",
+    'ingestion.cancel': 'Annulla',
+
+    'stores.title': 'Archivi RAG',
+    'stores.refresh': 'Aggiorna Archivi RAG',
+    'stores.refreshTitle': 'Aggiorna la lista degli Archivi RAG',
+    'stores.create': 'Crea nuovo Archivio RAG',
+    'stores.createTitle': 'Crea un nuovo Archivio RAG',
+    'stores.search': 'Cerca archivi...',
+    'stores.createDialogTitle': 'Crea Nuovo Archivio RAG',
+    'stores.nameLabel': 'Nome Archivio',
+    'stores.namePlaceholder': 'Inserisci nome archivio',
+    'stores.cancelCreateTitle': 'Annulla creazione archivio',
+    'stores.cancel': 'Annulla',
+    'stores.confirmCreate': 'Crea',
+    'stores.noMatches': 'Nessun archivio trovato.',
+    'stores.empty': "Nessun Archivio RAG trovato. \n Clicca su '+' per crearne uno.",
+    'stores.selectTitle': 'Seleziona {name} per vedere i suoi documenti',
+    'stores.delete': 'Elimina {name}',
+
+    'documents.selectStore': 'Seleziona un Archivio RAG',
+    'documents.selectStoreHint': 'per visualizzare e gestire i suoi documenti.',
+    'documents.title': 'Documenti',
+    'documents.upload': 'Carica documento',
+    'documents.uploadTitle': 'Carica un nuovo documento in questo archivio',
+    'documents.uploadDialogTitle': 'Carica Documento',
+    'documents.file': 'File',
+    'documents.selected': 'Selezionato: {name}',
+    'documents.checking': ' (verifica in corso...)',
+    'documents.customMetadata': 'Metadati Personalizzati (opzionale)',
+    'documents.metadataKey': 'Chiave',
+    'documents.valueType': 'Tipo di valore',
+    'documents.typeString': 'Testo',
+    'documents.typeList': 'Lista',
+    'documents.typeNumber': 'Numero',
+    'documents.listValuePlaceholder': 'Valori separati da virgola',
+    'documents.valuePlaceholder': 'Valore',
+    'documents.removeMetadataRow': 'Rimuovi riga metadati',
+    'documents.addMetadataTitle': 'Aggiungi un altro campo metadati',
+    'documents.addMetadata': 'Aggiungi Metadati',
+    'documents.cancelUploadTitle': 'Annulla caricamento',
+    'documents.cancel': 'Annulla',
+    'documents.confirmUploadTitle': 'Carica file selezionato',
+    'documents.confirmUpload': 'Carica',
+    'documents.processing': 'Elaborazione: {name}...',
+    'documents.empty': 'Nessun documento trovato.',
+    'documents.emptyHint': "Clicca sull'icona di caricamento per aggiungerne uno.",
+    'documents.delete': 'Elimina {name}',
+    'documents.metadata': 'Metadati:',
+
+    'library.backTitle': 'Torna alla schermata iniziale',
+    'library.back': 'Indietro',
+    'library.title': 'Libreria dei Manuali',
+    'library.maintenanceTitle': 'Trova ed elimina gli archivi lasciati dalle sessioni di chat non chiuse',
+    'library.maintenance': 'Archivi di sessione',
+    'library.evaluationTitle': 'Misura la qualità delle risposte di {name} con un insieme di domande di riferimento',
+    'library.evaluationDisabled': 'Seleziona un archivio da valutare',
+    'library.evaluation': 'Valutazione',
+    'library.startChatTitle': 'Avvia una chat con {name}',
+    'library.startChatDisabled': 'Seleziona un archivio con almeno un documento',
+    'library.startChat': "Chatta con l'archivio",
+
+    'maintenance.ageUnknown': 'sconosciuta',
+    'maintenance.ageUnderAnHour': "meno di un'ora",
+    'maintenance.ageHours': '{count} ore',
+    'maintenance.ageDays': '{count} giorni',
+    'maintenance.confirmDelete': 'Eliminare definitivamente {count} archivi di sessione e i loro documenti?',
+    'maintenance.backTitle': 'Torna alla libreria',
+    'maintenance.back': 'Indietro',
+    'maintenance.title': 'Archivi di sessione',
+    'maintenance.refresh': 'Aggiorna la lista',
+    'maintenance.refreshTitle': 'Aggiorna la lista degli archivi di sessione',
+    'maintenance.intro': "Ogni \"Carica e Chatta\" crea un archivio temporaneo che viene eliminato alla fine della chat. Le sessioni mai chiuse lo lasciano in sospeso e occupano la quota dell'account.",
+    'maintenance.ttlLabel': "All'avvio elimina automaticamente gli archivi di sessione più vecchi di",
+    'maintenance.ttlInput': 'Durata massima in ore',
+    'maintenance.hours': 'ore',
+    'maintenance.selectAll': 'Seleziona tutti ({count})',
+    'maintenance.deleteSelectedTitle': 'Elimina gli archivi selezionati',
+    'maintenance.deleteSelected': 'Elimina selezionati ({count})',
+    'maintenance.empty': 'Nessun archivio di sessione in sospeso.',
+    'maintenance.inUse': 'In uso · ',
+    'maintenance.age': 'Età: {age}',
+    'maintenance.documentCount': ' · {count} documenti',
+
+    'chat.importedReadOnly': 'Conversazione importata in sola lettura. Puoi consultarla e scaricarla di nuovo, ma non continuarla.',
+    'chat.openSource': 'Apri la fonte {index}',
+    'chat.title': 'Chatta con i tuoi documenti',
+    'chat.activeFilter': 'Filtro attivo: {filter}',
+    'chat.activeFilterLabel': 'Filtro attivo:',
+    'chat.filterTitle': 'Filtra le risposte per metadati',
+    'chat.filter': 'Filtro',
+    'chat.addDocumentsTitle': 'Aggiungi altri manuali a questa chat senza perdere la conversazione',
+    'chat.addDocuments': 'Aggiungi',
+    'chat.downloadTitle': 'Scarica conversazione',
+    'chat.download': 'Scarica',
+    'chat.clearTitle': 'Pulisci la chat',
+    'chat.clear': 'Pulisci',
+    'chat.closeTitle': 'Chiudi la conversazione',
+    'chat.newChatTitle': 'Termina la chat attuale e iniziane una nuova',
+    'chat.close': 'Chiudi',
+    'chat.newChat': 'Nuova Chat',
+    'chat.addingDocuments': 'Aggiunta documenti ({done}/{total}):',
+    'chat.dismissNotice': "Chiudi l'avviso",
+    'chat.suggestions': 'Ecco alcuni suggerimenti per iniziare:',
+    'chat.moreSuggestions': 'Altri suggerimenti',
+    'chat.moreSuggestionsTitle': 'Genera nuove domande di esempio, diverse da quelle mostrate',
+    'chat.loadingSuggestions': 'Generazione in corso...',
+    'chat.sources': 'Fonti',
+    'chat.interrupted': 'Risposta interrotta',
+    'chat.retryTitle': 'Invia di nuovo la domanda',
+    'chat.retry': 'Riprova',
+    'chat.selectAnotherKey': "Seleziona un'altra chiave e riprova",
+    'chat.replacementKeyPlaceholder': 'Nuova Chiave API Gemini',
+    'chat.useKeyAndRetry': 'Usa la chiave e riprova',
+    'chat.previousVersion': 'Versione precedente',
+    'chat.nextVersion': 'Versione successiva',
+    'chat.versionTitle': 'Versione {index} di {count}',
+    'chat.edit': 'Modifica',
+    'chat.editTitle': 'Modifica la domanda e inviala di nuovo; la versione originale resta consultabile',
+    'chat.editLabel': 'Domanda modificata',
+    'chat.cancelEdit': 'Annulla',
+    'chat.sendEdit': 'Invia',
+    'chat.regenerate': 'Rigenera',
+    'chat.regenerateTitle': 'Chiedi una nuova risposta; quella attuale resta consultabile',
+    'chat.usageBreakdown': 'Prompt {prompt} · Fonti {tool} · Risposta {candidates} · Ragionamento {thoughts}',
+    'chat.tokens': '{count} token',
+    'chat.placeholder': 'Fai una domanda sui manuali...',
+    'chat.placeholderWithImage': 'Chiedi qualcosa sulla foto, ad es. «Cosa indica questa spia?»',
+    'chat.attachImageTitle': "Allega una foto dell'apparecchio, ad es. del display o di una spia",
+    'chat.chooseImage': 'Scegli una foto',
+    'chat.takePhoto': 'Scatta una foto',
+    'chat.removeImage': 'Rimuovi la foto',
+    'chat.attachedImage': 'Foto allegata',
+    'chat.tooManyImages': 'Puoi allegare al massimo {max} foto per domanda.',
+    'chat.stopTitle': 'Interrompi la risposta',
+    'chat.sendTitle': 'Invia messaggio',
+    'chat.modelTitle': 'Scegli il modello, i parametri di generazione e le istruzioni di sistema per questo archivio',
+    'chat.model': 'Modello: {model}',
+    'chat.contextTitle': 'Configura quanta conversazione inviare insieme a ogni domanda',
+    'chat.contextTurns': 'Contesto: ultimi {count} messaggi',
+    'chat.contextRewrite': ', domande riscritte',
+    'chat.contextNone': 'Contesto: nessuno',
+    'chat.usageTitle': 'Token consumati e costo stimato di questa conversazione e di oggi',
+    'chat.usage': 'Utilizzo: {tokens} token · oggi ~{cost}',
+    'chat.source': 'Fonte {index}',
+    'chat.closeSourceTitle': 'Chiudi la vista della fonte',
+
+    'conversations.title': 'Conversazioni',
+    'conversations.new': 'Nuova conversazione',
+    'conversations.newTitle': 'Inizia una nuova conversazione con questo archivio',
+    'conversations.search': 'Cerca conversazioni...',
+    'conversations.noMatches': 'Nessuna conversazione trovata.',
+    'conversations.empty': 'Le conversazioni salvate appariranno qui.',
+    'conversations.renameInput': 'Nuovo titolo della conversazione',
+    'conversations.messageCount': ' · {count} messaggi',
+    'conversations.tokenCount': ' · {count} token',
+    'conversations.rename': 'Rinomina {name}',
+    'conversations.renameTitle': 'Rinomina la conversazione',
+    'conversations.delete': 'Elimina {name}',
+    'conversations.deleteTitle': 'Elimina la conversazione',
+
+    'usage.summary': '{tokens} token · ~{cost}',
+    'usage.unpricedExcluded': ' (esclusi i modelli senza prezzo)',
+    'usage.conversation': 'Questa conversazione:',
+    'usage.today': 'Oggi:',
+    'usage.dailyBudget': 'Budget giornaliero (USD)',
+    'usage.noBudget': 'nessuno',
+    'usage.dailyBudgetTitle': 'Oltre questo costo stimato giornaliero viene chiesta una conferma prima di inviare una domanda',
+    'usage.model': 'Modello',
+    'usage.inputPrice': 'Input ($/1M token)',
+    'usage.outputPrice': 'Output ($/1M token)',
+    'usage.inputPriceOf': 'Prezzo di input di {model}',
+    'usage.outputPriceOf': 'Prezzo di output di {model}',
+
+    'generation.model': 'Modello',
+    'generation.temperature': 'Temperatura',
+    'generation.defaultValue': 'predefinita',
+    'generation.temperatureTitle': 'Valori bassi danno risposte più prevedibili, valori alti più varie (0-2)',
+    'generation.maxOutputTokens': 'Token massimi di risposta',
+    'generation.defaultValues': 'predefiniti',
+    'generation.maxOutputTokensTitle': 'Lunghezza massima della risposta, ragionamento incluso',
+    'generation.systemInstruction': 'Istruzioni di sistema',
+    'generation.systemInstructionPlaceholder': 'Come deve comportarsi il modello nelle risposte',
+    'generation.resetTitle': 'Ripristina modello, parametri e istruzioni predefiniti per questo archivio',
+    'generation.reset': 'Ripristina predefinite',
+
+    'context.maxTurns': 'Messaggi precedenti',
+    'context.maxTurnsTitle': 'Quanti messaggi precedenti inviare come contesto (0 = nessuno)',
+    'context.maxTokens': 'Budget token',
+    'context.maxTokensTitle': 'Numero massimo approssimativo di token della conversazione da inviare',
+    'context.rewriteQueryTitle': 'Trasforma le domande di follow-up in domande autonome prima della ricerca nei manuali',
+    'context.rewriteQuery': 'Riscrivi le domande di follow-up',
+
+    'filter.title': 'Filtra per metadati',
+    'filter.combinator': 'Combinazione delle condizioni',
+    'filter.all': 'Tutte le condizioni (AND)',
+    'filter.any': 'Almeno una condizione (OR)',
+    'filter.key': 'Chiave',
+    'filter.operator': 'Operatore',
+    'filter.value': 'Valore',
+    'filter.removeCondition': 'Rimuovi condizione',
+    'filter.addConditionTitle': "Aggiungi un'altra condizione",
+    'filter.addCondition': 'Aggiungi Condizione',
+    'filter.expression': 'Espressione del filtro',
+    'filter.expressionPlaceholder': 'es. brand = "LG" AND year >= 2023',
+    'filter.clearTitle': 'Rimuovi il filtro attivo',
+    'filter.clear': 'Rimuovi Filtro',
+    'filter.applyTitle': 'Applica il filtro alle prossime domande',
+    'filter.apply': 'Applica',
+
+    'feedback.rateUp': 'Risposta utile',
+    'feedback.rateDown': 'Risposta errata o inutile',
+    'feedback.addDetails': 'Aggiungi un commento',
+    'feedback.editDetails': 'Modifica il commento',
+    'feedback.comment': 'Commento',
+    'feedback.commentPlaceholder': "Cosa c'è di sbagliato o di utile in questa risposta? (opzionale)",
+    'feedback.wrongSource': 'Fonte sbagliata',
+    'feedback.wrongSourceTitle': "La risposta cita una parte del manuale che non c'entra con la domanda",
+    'feedback.close': 'Chiudi',
+    'feedback.save': 'Salva',
+    'feedback.backTitle': 'Torna alla schermata iniziale',
+    'feedback.back': 'Indietro',
+    'feedback.title': 'Feedback sulle risposte',
+    'feedback.refresh': 'Aggiorna il feedback',
+    'feedback.show': 'Mostra',
+    'feedback.filterAll': 'Tutte le valutazioni',
+    'feedback.filterDown': 'Risposte negative',
+    'feedback.filterUp': 'Risposte positive',
+    'feedback.filterWrongSource': 'Fonte sbagliata',
+    'feedback.export': 'Esporta:',
+    'feedback.exportTitle': 'Esporta le {count} valutazioni mostrate',
+    'feedback.noMatches': 'Nessuna valutazione corrisponde al filtro.',
+    'feedback.empty': 'Nessuna risposta è stata ancora valutata. Usa i pollici sotto le risposte della chat.',
+    'feedback.confirmDelete': 'Eliminare questa valutazione dal registro?',
+    'feedback.delete': 'Elimina la valutazione',
+    'feedback.answerAndSources': 'Risposta e fonti',
+
+    'evaluation.backTitle': 'Torna alla libreria',
+    'evaluation.back': 'Indietro',
+    'evaluation.title': 'Valutazione: {name}',
+    'evaluation.goldenSet': 'Domande di riferimento (JSON)',
+    'evaluation.goldenSetHint': 'Un elenco di oggetti con question, expectedDocument ed expectedKeywords.',
+    'evaluation.goldenSetLoaded': '«{name}»: {count} domande',
+    'evaluation.mode': 'Modalità',
+    'evaluation.modeLive': 'Dal vivo (registra le risposte)',
+    'evaluation.modeLiveTitle': "Pone le domande all'archivio e salva le risposte per ripetere la valutazione senza rete",
+    'evaluation.modeReplay': 'Da una registrazione',
+    'evaluation.modeReplayTitle': 'Rivaluta le risposte di una registrazione precedente senza interrogare il servizio',
+    'evaluation.recordingFile': 'File di registrazione (JSON)',
+    'evaluation.baseline': 'Report di confronto (facoltativo)',
+    'evaluation.baselineLoaded': '«{name}» del {date}',
+    'evaluation.run': 'Avvia la valutazione',
+    'evaluation.stop': 'Interrompi',
+    'evaluation.progress': '{done} di {total} domande',
+    'evaluation.downloadReport': 'Scarica il report',
+    'evaluation.downloadReportTitle': 'Scarica il report in JSON, da usare come confronto nelle prossime valutazioni',
+    'evaluation.downloadRecording': 'Scarica la registrazione',
+    'evaluation.downloadRecordingTitle': 'Scarica le risposte ricevute, per ripetere la valutazione senza rete',
+    'evaluation.metric': 'Metrica',
+    'evaluation.thisRun': 'Questa valutazione',
+    'evaluation.baselineColumn': 'Confronto',
+    'evaluation.delta': 'Differenza',
+    'evaluation.retrievalHitRate': 'Documento atteso tra le fonti',
+    'evaluation.keywordCoverage': 'Parole chiave nella risposta',
+    'evaluation.meanLatency': 'Tempo medio di risposta',
+    'evaluation.p95Latency': 'Tempo di risposta (95° percentile)',
+    'evaluation.errors': 'Errori',
+    'evaluation.milliseconds': '{ms} ms',
+    'evaluation.question': 'Domanda',
+    'evaluation.retrieval': 'Fonti',
+    'evaluation.keywords': 'Parole chiave',
+    'evaluation.latency': 'Tempo',
+    'evaluation.hit': 'Trovato',
+    'evaluation.miss': 'Mancante',
+    'evaluation.retrievedDocuments': 'Documenti citati: {names}',
+    'evaluation.missingKeywords': 'Mancano: {keywords}',
+    'evaluation.notRecorded': 'La domanda non è presente nella registrazione.',
+    'evaluation.invalidJson': 'Il file non contiene JSON valido.',
+    'evaluation.notAGoldenSet': 'Il file non contiene un elenco di domande di riferimento.',
+    'evaluation.noQuestions': 'Il file non contiene nessuna domanda.',
+    'evaluation.notARecording': 'Il file non è una registrazione di risposte.',
+    'evaluation.notAReport': 'Il file non è un report di valutazione.',
+
+    'camera.title': 'Fotocamera',
+    'camera.capture': 'Scatta',
+    'camera.cancel': 'Annulla',
+    'camera.unsupported': 'Questo browser non permette di usare la fotocamera. Scegli una foto dal dispositivo.',
+    'camera.denied': "L'accesso alla fotocamera è stato negato. Consentilo nelle impostazioni del browser.",
+    'camera.unavailable': 'Nessuna fotocamera disponibile.',
+
+    'images.unreadable': "Impossibile leggere l'immagine.",
+
+    'scanner.title': 'Fotografa un manuale cartaceo',
+    'scanner.description': 'Scatta o scegli una foto per ogni pagina, mettile in ordine e crea un PDF da caricare.',
+    'scanner.documentTitle': 'Titolo del documento',
+    'scanner.documentTitlePlaceholder': 'es. Manuale lavatrice X100',
+    'scanner.takePhotos': 'Scatta le pagine',
+    'scanner.takePhotosTitle': "Fotografa le pagine una dopo l'altra con la fotocamera",
+    'scanner.addImages': 'Aggiungi immagini',
+    'scanner.addImagesTitle': 'Scegli dal dispositivo le foto delle pagine',
+    'scanner.doneTakingPhotos': 'Fine ({count} pagine)',
+    'scanner.empty': 'Nessuna pagina. Scatta le foto o trascina qui le immagini delle pagine.',
+    'scanner.notAnImage': "{name} non è un'immagine.",
+    'scanner.pageNumber': 'Pagina {number}',
+    'scanner.pageAlt': 'Foto della pagina {number}',
+    'scanner.dragTitle': "Trascina per cambiare l'ordine delle pagine",
+    'scanner.moveEarlier': 'Sposta prima',
+    'scanner.moveLater': 'Sposta dopo',
+    'scanner.editPage': 'Ritaglia',
+    'scanner.editPageTitle': 'Ruota e ritaglia questa pagina',
+    'scanner.removePage': 'Rimuovi la pagina {number}',
+    'scanner.removePageTitle': 'Rimuovi questa pagina',
+    'scanner.editTitle': 'Modifica la pagina {number}',
+    'scanner.cropTop': 'Margine superiore',
+    'scanner.cropBottom': 'Margine inferiore',
+    'scanner.cropLeft': 'Margine sinistro',
+    'scanner.cropRight': 'Margine destro',
+    'scanner.rotateLeft': 'Sinistra',
+    'scanner.rotateLeftTitle': 'Ruota di 90° in senso antiorario',
+    'scanner.rotateRight': 'Destra',
+    'scanner.rotateRightTitle': 'Ruota di 90° in senso orario',
+    'scanner.resetCrop': 'Annulla ritaglio',
+    'scanner.cancelEdit': 'Annulla',
+    'scanner.applyEdit': 'Applica',
+    'scanner.cancel': 'Annulla',
+    'scanner.create': 'Crea PDF ({count} pagine)',
+    'scanner.createTitle': 'Unisci le pagine in un PDF e aggiungilo ai file da caricare',
+    'scanner.needTitle': 'Inserisci un titolo per il documento',
+    'scanner.creating': 'Creazione del PDF...',
+    'scanner.createFailed': 'Impossibile creare il PDF.',
+
+    'export.you': 'Tu',
+    'export.model': 'Modello',
+    'export.interruptedMarkdown': '_(risposta interrotta)_',
+    'export.interrupted': 'Risposta interrotta',
+    'export.image': 'Foto allegata',
+    'export.version': 'versione {index} di {count}',
+    'export.exportedAt': 'Esportata il {date}',
+    'export.store': 'Archivio: {name}',
+    'export.documents': 'Documenti: {names}',
+    'export.fileName': 'conversazione_{title}',
+    'export.invalidJson': 'Il file non è un JSON valido.',
+    'export.notAnExport': "Il file non è un'esportazione di conversazione.",
+    'export.unsupportedVersion': 'Versione di esportazione non supportata: {version}.',
+    'export.importedTitle': 'Conversazione importata',
+
+    'errors.auth': 'La Chiave API Gemini non è valida o non è autorizzata.',
+    'errors.quota': 'Limite di richieste o quota raggiunti. Riprova tra qualche istante.',
+    'errors.notFound': "L'archivio o il documento richiesto non esiste più.",
+    'errors.safety': 'La risposta è stata bloccata dai filtri di sicurezza.',
+    'errors.network': 'Connessione assente o instabile. Controlla la rete e riprova.',
+    'errors.server': 'Il servizio Gemini non è al momento disponibile. Riprova più tardi.',
+    'errors.cancelled': 'Operazione annullata.',
+    'errors.unknown': 'Si è verificato un errore imprevisto.',
+    'errors.offline': 'Sei offline. Controlla la connessione e riprova.',
+    'errors.notInitialized': 'Gemini AI non inizializzato',
+    'errors.apiKeyMissing': "La Chiave API non è configurata. Forniscine una o imposta la variabile d'ambiente API_KEY.",
+    'errors.storeNameMissing': "Impossibile creare l'archivio RAG: nome mancante.",
+    'errors.indexingFailed': 'Indicizzazione di {name} non riuscita: {reason}',
+
+    'services.untitledConversation': 'Nuova conversazione',
+    'services.conversationNotFound': 'Conversazione non trovata.',
+    'services.databaseBlocked': "Il database \"{name}\" è bloccato da un'altra scheda aperta.",
+    'services.transactionAborted': 'Transazione IndexedDB annullata.',
+    'services.uploadTimedOut': 'Tempo massimo di caricamento superato.',
+    'services.retryingAfterError': "Nuovo tentativo dopo l'errore: {message}",
+    'services.localNoPassages': 'Nessun passaggio pertinente trovato nei documenti per questa domanda.',
+    'services.localPassages': 'Ecco i passaggi più pertinenti trovati nei documenti (motore locale, senza modello linguistico):\n\n{passages}',
+    'services.localPage': ', p. {page}',
+    'services.localExampleQuestion': 'Cosa dice il manuale su "{term}"?',
+    'services.noExtractableText': 'Impossibile estrarre testo da {name}. Il documento potrebbe essere una scansione o usare una codifica non supportata dal motore locale.',
+    'services.unknownModel': 'sconosciuto',
+    'services.unsupportedFormat': 'Formato non supportato{type}. Sono accettati solo file PDF, .txt e .md.',
+    'services.emptyFile': 'Il file è vuoto.',
+    'services.fileTooLarge': 'Il file supera il limite di {size} MB.',
+    'services.fileUnreadable': 'Impossibile leggere il file: {message}',
+    'services.duplicateInStore': "Questo manuale è già presente nell'archivio come \"{name}\".",
+    'services.duplicateOf': 'Duplicato di {name}',
+    'services.unknownDocument': 'Documento sconosciuto',
+    'services.exampleQuestionsInvalid': 'Il modello non ha restituito le domande di esempio nel formato atteso.',
+
+    'prompt.defaultSystemInstruction': "Rispondi alle domande usando i manuali disponibili. Non chiedere all'utente di leggere il manuale: individua le sezioni pertinenti e riportane il contenuto nella risposta stessa.",
+    'prompt.answerLanguage': 'Rispondi sempre in italiano.',
+    'prompt.userRole': 'Utente',
+    'prompt.assistantRole': 'Assistente',
+    'prompt.rewriteFollowUp': 'Data la seguente conversazione e una domanda di follow-up, riscrivi la domanda di follow-up come una domanda autonoma, comprensibile senza la conversazione, nella stessa lingua della domanda. Restituisci solo la domanda riscritta.\n\nConversazione:\n{transcript}\n\nDomanda di follow-up: {query}',
+    'prompt.exampleQuestions': "Ti vengono forniti alcuni manuali utente per alcuni prodotti. Scopri per quale prodotto è ogni manuale, basandoti sul contenuto della pagina di copertina. NON INDOVINARE O ALLUCINARE IL PRODOTTO. Quindi, per ogni prodotto, genera 4 brevi e pratiche domande di esempio che un utente potrebbe porre al riguardo in italiano. Restituisci solo un array JSON di oggetti, senza altro testo. Ogni oggetto ha una chiave 'product' con il nome del prodotto e una chiave 'questions' con l'array delle domande. Per esempio: [{\"product\": \"Prodotto A\", \"questions\": [\"d1\", \"d2\"]}]",
+    'prompt.exampleQuestionsExclude': 'Non ripetere queste domande, già proposte:\n{questions}',
+};
+
+export default it;
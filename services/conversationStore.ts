@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Saved conversations live in IndexedDB rather than localStorage: histories carry grounding
+// chunks and quickly outgrow the localStorage quota, and writes there block the main thread.
+
+import { ChatMessage, ChatTree, ConversationSummary, SavedConversation } from '../types';
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+import { totalTokens } from './usageTracker';
+import { t } from '../utils/i18n';
+import { createChatTree, getActivePath } from '../utils/chatTree';
+import { getMessageText } from '../utils/messageParts';
+
+const DB_NAME = 'rag-conversations';
+const DB_VERSION = 1;
+const STORE = 'conversations';
+const TITLE_MAX_LENGTH = 60;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+            const conversations = db.createObjectStore(STORE, { keyPath: 'id' });
+            conversations.createIndex('storeName', 'storeName');
+        });
+    }
+    return dbPromise;
+}
+
+// Tokens count every version of every message, since regenerated answers were billed too.
+function toSummary({ messages, tree, ...conversation }: SavedConversation): ConversationSummary {
+    const allMessages = tree ? tree.nodes.map(node => node.message) : messages;
+    const tokenCount = allMessages.reduce((total, message) => total + (message.usage ? totalTokens(message.usage) : 0), 0);
+    return { ...conversation, messageCount: messages.length, tokenCount };
+}
+
+/** Derives a title from the first question of a conversation. */
+export function titleFromMessages(messages: ChatMessage[]): string {
+    const question = messages.find(message => message.role === 'user');
+    const firstQuestion = question && getMessageText(question).replace(/\s+/g, ' ').trim();
+    if (!firstQuestion) return t('services.untitledConversation');
+    return firstQuestion.length > TITLE_MAX_LENGTH ? `${firstQuestion.slice(0, TITLE_MAX_LENGTH - 1)}…` : firstQuestion;
+}
+
+/** Conversations saved before branching existed have no tree; they get an unbranched one. */
+export function getConversationTree(conversation: SavedConversation): ChatTree {
+    return conversation.tree || createChatTree(conversation.messages);
+}
+
+export function createConversationId(): string {
+    return `conversation-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Lists the conversations of a store, most recently updated first. */
+export async function listConversations(storeName: string): Promise<ConversationSummary[]> {
+    const db = await getDb();
+    const conversations = await requestToPromise<SavedConversation[]>(
+        db.transaction(STORE).objectStore(STORE).index('storeName').getAll(storeName)
+    );
+    return conversations.map(toSummary).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getConversation(id: string): Promise<SavedConversation | null> {
+    const db = await getDb();
+    return (await requestToPromise<SavedConversation | undefined>(db.transaction(STORE).objectStore(STORE).get(id))) || null;
+}
+
+// Conversations saved before `titleIsCustom` existed count as renamed when their title is not
+// the one their first question gives.
+const hasCustomTitle = (conversation: SavedConversation): boolean =>
+    conversation.titleIsCustom ?? conversation.title !== titleFromMessages(conversation.messages);
+
+/**
+ * Stores a conversation with all its branches, creating it on first save. Conversations are
+ * titled after their first question unless the user has renamed them.
+ */
+export async function saveConversation(id: string, storeName: string, tree: ChatTree): Promise<ConversationSummary> {
+    const messages = getActivePath(tree).map(node => node.message);
+    const db = await getDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const existing = await requestToPromise<SavedConversation | undefined>(store.get(id));
+    const now = new Date().toISOString();
+    const titleIsCustom = !!existing && hasCustomTitle(existing);
+    const conversation: SavedConversation = {
+        id,
+        storeName,
+        title: existing && titleIsCustom ? existing.title : titleFromMessages(messages),
+        titleIsCustom,
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+        messages,
+        tree,
+    };
+    store.put(conversation);
+    await transactionDone(tx);
+    return toSummary(conversation);
+}
+
+export async function renameConversation(id: string, title: string): Promise<void> {
+    const db = await getDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const existing = await requestToPromise<SavedConversation | undefined>(store.get(id));
+    if (!existing) throw new Error(t('services.conversationNotFound'));
+    // Clearing the title hands it back to the first question.
+    const customTitle = title.trim();
+    store.put({ ...existing, title: customTitle || titleFromMessages(existing.messages), titleIsCustom: customTitle !== '' });
+    await transactionDone(tx);
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+    const db = await getDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).delete(id);
+    await transactionDone(tx);
+}
+
+/** Removes every conversation of a store, e.g. when the store itself is deleted. */
+export async function deleteConversationsForStore(storeName: string): Promise<void> {
+    const db = await getDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    const index = tx.objectStore(STORE).index('storeName');
+    const keys = await requestToPromise(index.getAllKeys(storeName));
+    keys.forEach(key => tx.objectStore(STORE).delete(key));
+    await transactionDone(tx);
+}
@@ -0,0 +1,321 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Golden-set evaluation of retrieval and answers. Questions go through a `RagBackend` exactly as
+// chat questions do, so a report measures what users get. Every live run also records the raw
+// responses; replaying a recording rescores them without network, which makes runs repeatable
+// when only the scoring or the golden set changed.
+
+import { QueryResult, GenerationSettings } from '../types';
+import { RagBackend, RagBackendKind } from './ragBackend';
+import { classifyError } from './ragErrors';
+import { getSourceTitle } from '../utils/sources';
+import { t } from '../utils/i18n';
+import { isRecord, optionalNumber, optionalString, parseGroundingChunk, parseGroundingSupport, parseUsage } from '../utils/guards';
+
+export interface GoldenQuestion {
+    question: string;
+    /** Title (or part of it) of the document the passages should come from. */
+    expectedDocument?: string;
+    /** Words or phrases a correct answer must contain; matched ignoring case and accents. */
+    expectedKeywords: string[];
+}
+
+export interface GoldenSet {
+    name: string;
+    questions: GoldenQuestion[];
+}
+
+export interface RecordedResponse {
+    result: QueryResult;
+    latencyMs: number;
+}
+
+export interface ResponseRecording {
+    version: 1;
+    recordedAt: string;
+    storeName: string;
+    responses: Record<string, RecordedResponse>;
+}
+
+export type EvaluationMode = 'live' | 'replay';
+
+export interface EvaluationCase {
+    question: string;
+    expectedDocument?: string;
+    retrievedDocuments: string[];
+    // null when the question has no expected document.
+    retrievalHit: boolean | null;
+    expectedKeywords: string[];
+    matchedKeywords: string[];
+    // Share of expected keywords found in the answer; null when none are expected.
+    keywordCoverage: number | null;
+    latencyMs: number | null;
+    answer: string;
+    error?: string;
+}
+
+export interface EvaluationSummary {
+    questions: number;
+    errors: number;
+    // Over questions with an expected document / expected keywords; null when there are none.
+    retrievalHitRate: number | null;
+    keywordCoverage: number | null;
+    meanLatencyMs: number | null;
+    p95LatencyMs: number | null;
+}
+
+// Versioned so reports saved today can still be loaded as a baseline after the format changes.
+export interface EvaluationReport {
+    version: 1;
+    goldenSet: string;
+    storeName: string;
+    backend: RagBackendKind;
+    model?: string;
+    mode: EvaluationMode;
+    startedAt: string;
+    summary: EvaluationSummary;
+    cases: EvaluationCase[];
+}
+
+/** Answers one question; live sources call the backend, replay sources read a recording. */
+export type AnswerSource = (question: string) => Promise<RecordedResponse>;
+
+export function liveAnswerSource(backend: RagBackend, storeName: string, generation?: GenerationSettings, abortSignal?: AbortSignal): AnswerSource {
+    return async (question) => {
+        const start = performance.now();
+        // Each question is asked on its own: no history, so results do not depend on the order.
+        const result = await backend.fileSearch(storeName, question, { generation, abortSignal });
+        return { result, latencyMs: Math.round(performance.now() - start) };
+    };
+}
+
+export function replayAnswerSource(recording: ResponseRecording): AnswerSource {
+    return async (question) => {
+        const recorded = recording.responses[question];
+        if (!recorded) throw new Error(t('evaluation.notRecorded'));
+        return recorded;
+    };
+}
+
+/** Lowercases and strips accents and extra whitespace, so "Caffè" in the answer matches "caffe". */
+function normalize(text: string): string {
+    return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ').toLowerCase().trim();
+}
+
+function scoreCase(golden: GoldenQuestion, response: RecordedResponse): EvaluationCase {
+    const retrievedDocuments = Array.from(new Set(response.result.groundingChunks.map(getSourceTitle)));
+    const expectedDocument = golden.expectedDocument && normalize(golden.expectedDocument);
+    const answer = normalize(response.result.text);
+    const matchedKeywords = golden.expectedKeywords.filter(keyword => answer.includes(normalize(keyword)));
+    return {
+        question: golden.question,
+        expectedDocument: golden.expectedDocument,
+        retrievedDocuments,
+        retrievalHit: expectedDocument ? retrievedDocuments.some(title => normalize(title).includes(expectedDocument)) : null,
+        expectedKeywords: golden.expectedKeywords,
+        matchedKeywords,
+        keywordCoverage: golden.expectedKeywords.length > 0 ? matchedKeywords.length / golden.expectedKeywords.length : null,
+        latencyMs: response.latencyMs,
+        answer: response.result.text,
+    };
+}
+
+const mean = (values: number[]): number | null =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+export function summarizeCases(cases: EvaluationCase[]): EvaluationSummary {
+    const latencies = cases.flatMap(c => c.latencyMs === null ? [] : [c.latencyMs]).sort((a, b) => a - b);
+    // Failed questions count as misses: an error is not a reason to look better.
+    const hits = cases.filter(c => c.expectedDocument).map(c => c.retrievalHit ? 1 : 0);
+    const coverages = cases.filter(c => c.expectedKeywords.length > 0).map(c => c.keywordCoverage ?? 0);
+    return {
+        questions: cases.length,
+        errors: cases.filter(c => c.error).length,
+        retrievalHitRate: mean(hits),
+        keywordCoverage: mean(coverages),
+        meanLatencyMs: mean(latencies),
+        p95LatencyMs: latencies.length > 0 ? latencies[Math.min(latencies.length - 1, Math.ceil(latencies.length * 0.95) - 1)] : null,
+    };
+}
+
+export interface EvaluationRun {
+    report: EvaluationReport;
+    // Responses of a live run, to replay later; null for replayed runs.
+    recording: ResponseRecording | null;
+}
+
+/**
+ * Asks every question of the set in turn and scores the responses. A failing question is
+ * reported and the run goes on; only cancellation stops it.
+ */
+export async function runEvaluation(
+    goldenSet: GoldenSet,
+    source: AnswerSource,
+    details: { storeName: string, backend: RagBackendKind, model?: string, mode: EvaluationMode },
+    onProgress?: (done: number, total: number) => void,
+): Promise<EvaluationRun> {
+    const startedAt = new Date().toISOString();
+    const responses: Record<string, RecordedResponse> = {};
+    const cases: EvaluationCase[] = [];
+    for (const golden of goldenSet.questions) {
+        try {
+            const response = await source(golden.question);
+            responses[golden.question] = response;
+            cases.push(scoreCase(golden, response));
+        } catch (err) {
+            const error = classifyError(err);
+            if (error.kind === 'cancelled') throw error;
+            cases.push({
+                ...scoreCase(golden, { result: { text: '', groundingChunks: [] }, latencyMs: 0 }),
+                latencyMs: null,
+                error: error.message,
+            });
+        }
+        onProgress?.(cases.length, goldenSet.questions.length);
+    }
+    return {
+        report: {
+            version: 1,
+            goldenSet: goldenSet.name,
+            ...details,
+            startedAt,
+            summary: summarizeCases(cases),
+            cases,
+        },
+        recording: details.mode === 'live' ? { version: 1, recordedAt: startedAt, storeName: details.storeName, responses } : null,
+    };
+}
+
+function parseJson(json: string): unknown {
+    try {
+        return JSON.parse(json);
+    } catch (e) {
+        throw new Error(t('evaluation.invalidJson'));
+    }
+}
+
+const toStringList = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+
+const nonEmptyString = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+
+/**
+ * Parses a golden set: either `{ name, questions: [...] }` or a bare array of questions. An
+ * `expectedSubstring` is treated as one more expected keyword.
+ */
+export function parseGoldenSet(json: string, fallbackName: string): GoldenSet {
+    const data = parseJson(json);
+    const items = Array.isArray(data) ? data : isRecord(data) ? data.questions : undefined;
+    if (!Array.isArray(items)) throw new Error(t('evaluation.notAGoldenSet'));
+    const questions: GoldenQuestion[] = items.flatMap((item: unknown): GoldenQuestion[] => {
+        const question = isRecord(item) ? nonEmptyString(item.question) : undefined;
+        if (!isRecord(item) || !question) return [];
+        return [{
+            question,
+            expectedDocument: nonEmptyString(item.expectedDocument),
+            expectedKeywords: [...toStringList(item.expectedKeywords), ...toStringList([item.expectedSubstring])],
+        }];
+    });
+    if (questions.length === 0) throw new Error(t('evaluation.noQuestions'));
+    return { name: isRecord(data) ? optionalString(data.name) ?? fallbackName : fallbackName, questions };
+}
+
+function parseRecordedResponse(value: unknown): RecordedResponse | null {
+    if (!isRecord(value) || !isRecord(value.result)) return null;
+    const { result } = value;
+    const latencyMs = optionalNumber(value.latencyMs);
+    if (typeof result.text !== 'string' || !Array.isArray(result.groundingChunks) || latencyMs === undefined) return null;
+    return {
+        result: {
+            text: result.text,
+            groundingChunks: result.groundingChunks.map(parseGroundingChunk),
+            groundingSupports: Array.isArray(result.groundingSupports) ? result.groundingSupports.map(parseGroundingSupport) : undefined,
+            usage: parseUsage(result.usage),
+            model: optionalString(result.model),
+        },
+        latencyMs,
+    };
+}
+
+/** Parses a recording, rejecting it as a whole if any response is malformed. */
+export function parseRecording(json: string): ResponseRecording {
+    const data = parseJson(json);
+    if (!isRecord(data) || data.version !== 1 || !isRecord(data.responses)) {
+        throw new Error(t('evaluation.notARecording'));
+    }
+    const responses: Record<string, RecordedResponse> = {};
+    for (const [question, value] of Object.entries(data.responses)) {
+        const response = parseRecordedResponse(value);
+        if (!response) throw new Error(t('evaluation.notARecording'));
+        responses[question] = response;
+    }
+    return {
+        version: 1,
+        recordedAt: optionalString(data.recordedAt) ?? '',
+        storeName: optionalString(data.storeName) ?? '',
+        responses,
+    };
+}
+
+const parseMetric = (value: unknown): number | null | undefined => value === null ? null : optionalNumber(value);
+
+function parseSummary(value: unknown): EvaluationSummary | null {
+    if (!isRecord(value)) return null;
+    const questions = optionalNumber(value.questions);
+    const errors = optionalNumber(value.errors);
+    const retrievalHitRate = parseMetric(value.retrievalHitRate);
+    const keywordCoverage = parseMetric(value.keywordCoverage);
+    const meanLatencyMs = parseMetric(value.meanLatencyMs);
+    const p95LatencyMs = parseMetric(value.p95LatencyMs);
+    if (questions === undefined || errors === undefined || retrievalHitRate === undefined || keywordCoverage === undefined
+        || meanLatencyMs === undefined || p95LatencyMs === undefined) return null;
+    return { questions, errors, retrievalHitRate, keywordCoverage, meanLatencyMs, p95LatencyMs };
+}
+
+function parseCase(value: unknown): EvaluationCase | null {
+    if (!isRecord(value) || typeof value.question !== 'string' || typeof value.answer !== 'string') return null;
+    const keywordCoverage = parseMetric(value.keywordCoverage);
+    const latencyMs = parseMetric(value.latencyMs);
+    const retrievalHit = typeof value.retrievalHit === 'boolean' ? value.retrievalHit : value.retrievalHit === null ? null : undefined;
+    if (keywordCoverage === undefined || latencyMs === undefined || retrievalHit === undefined) return null;
+    return {
+        question: value.question,
+        expectedDocument: optionalString(value.expectedDocument),
+        retrievedDocuments: toStringList(value.retrievedDocuments),
+        retrievalHit,
+        expectedKeywords: toStringList(value.expectedKeywords),
+        matchedKeywords: toStringList(value.matchedKeywords),
+        keywordCoverage,
+        latencyMs,
+        answer: value.answer,
+        error: optionalString(value.error),
+    };
+}
+
+export function parseReport(json: string): EvaluationReport {
+    const data = parseJson(json);
+    if (!isRecord(data) || data.version !== 1 || !Array.isArray(data.cases)) {
+        throw new Error(t('evaluation.notAReport'));
+    }
+    const summary = parseSummary(data.summary);
+    const cases = data.cases.map(parseCase);
+    const { backend, mode } = data;
+    if (!summary || cases.some(c => c === null) || (backend !== 'gemini' && backend !== 'local') || (mode !== 'live' && mode !== 'replay')) {
+        throw new Error(t('evaluation.notAReport'));
+    }
+    return {
+        version: 1,
+        goldenSet: optionalString(data.goldenSet) ?? '',
+        storeName: optionalString(data.storeName) ?? '',
+        backend,
+        model: optionalString(data.model),
+        mode,
+        startedAt: optionalString(data.startedAt) ?? '',
+        summary,
+        cases: cases.filter((c): c is EvaluationCase => c !== null),
+    };
+}
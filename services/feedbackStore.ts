@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// The feedback log lives in IndexedDB next to the saved conversations. Entries copy the question,
+// answer and sources, so they stay reviewable after the conversation or the store is deleted.
+
+import { FeedbackEntry } from '../types';
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+
+const DB_NAME = 'rag-feedback';
+const DB_VERSION = 1;
+const STORE = 'feedback';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+            db.createObjectStore(STORE, { keyPath: 'id' });
+        });
+    }
+    return dbPromise;
+}
+
+export function createFeedbackId(): string {
+    return `feedback-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Lists every rated answer, most recently rated first. */
+export async function listFeedback(): Promise<FeedbackEntry[]> {
+    const db = await getDb();
+    const entries = await requestToPromise<FeedbackEntry[]>(db.transaction(STORE).objectStore(STORE).getAll());
+    return entries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/** Creates or updates the entry of a rating; changing a rating keeps its original `createdAt`. */
+export async function saveFeedback(entry: Omit<FeedbackEntry, 'createdAt' | 'updatedAt'>): Promise<void> {
+    const db = await getDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const existing = await requestToPromise<FeedbackEntry | undefined>(store.get(entry.id));
+    const now = new Date().toISOString();
+    store.put({ ...entry, createdAt: existing?.createdAt || now, updatedAt: now });
+    await transactionDone(tx);
+}
+
+export async function deleteFeedback(id: string): Promise<void> {
+    const db = await getDb();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).delete(id);
+    await transactionDone(tx);
+}
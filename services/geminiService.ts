@@ -2,132 +2,389 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
-import { RagStore, Document, QueryResult, CustomMetadata } from '../types';
+import { GoogleGenAI, GenerateContentResponse, GenerateContentParameters, Content, FinishReason } from "@google/genai";
+import { RagStore, Document, QueryResult, CustomMetadata, GroundingChunk, GroundingSupport, ChatMessage, ConversationContextOptions, TokenUsage, ExampleQuestionGroup } from '../types';
+import { RagBackend, FileSearchOptions, UploadOptions, ExampleQuestionOptions, DEFAULT_CONTEXT_OPTIONS } from './ragBackend';
+import { RagError, classifyError, withRetry, delay } from './ragErrors';
+import { recordUsage, addUsage } from './usageTracker';
+import { DEFAULT_MODEL, getDefaultGenerationSettings } from './generationSettings';
+import { t } from '../utils/i18n';
+import { getMessageText } from '../utils/messageParts';
+import { parseExampleQuestionGroup } from '../utils/guards';
 
 let ai: GoogleGenAI;
 
 export function initialize(apiKey?: string) {
     const keyToUse = apiKey || process.env.API_KEY;
     if (!keyToUse) {
-        throw new Error("La Chiave API non è configurata. Forniscine una o imposta la variabile d'ambiente API_KEY.");
+        throw new Error(t('errors.apiKeyMissing'));
     }
     ai = new GoogleGenAI({ apiKey: keyToUse });
 }
 
-async function delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+/** Classifies the SDK error thrown by a call that must not be repeated automatically. */
+async function callOnce<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+        return await operation();
+    } catch (err) {
+        throw classifyError(err);
+    }
+}
+
+// Answers cut off by these finish reasons were withheld by the safety system.
+const BLOCKED_FINISH_REASONS = new Set<string>([
+    FinishReason.SAFETY, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT, FinishReason.SPII, FinishReason.RECITATION,
+]);
+
+function throwIfBlocked(response: GenerateContentResponse | undefined, text: string) {
+    if (response?.promptFeedback?.blockReason) {
+        throw new RagError('safety', response.promptFeedback.blockReasonMessage || undefined);
+    }
+    const finishReason = response?.candidates?.[0]?.finishReason;
+    if (!text && finishReason && BLOCKED_FINISH_REASONS.has(finishReason)) {
+        throw new RagError('safety');
+    }
+}
+
+/** Reads the token counts of a response and adds them to the daily usage of `model`. */
+function trackUsage(model: string, response: GenerateContentResponse | undefined): TokenUsage {
+    const metadata = response?.usageMetadata;
+    const usage: TokenUsage = {
+        promptTokens: metadata?.promptTokenCount ?? 0,
+        candidatesTokens: metadata?.candidatesTokenCount ?? 0,
+        toolUsePromptTokens: metadata?.toolUsePromptTokenCount ?? 0,
+        thoughtsTokens: metadata?.thoughtsTokenCount ?? 0,
+    };
+    recordUsage(model, usage);
+    return usage;
 }
 
+const OPERATION_POLL_INITIAL_MS = 2000;
+const OPERATION_POLL_MAX_MS = 15000;
+
 export async function createRagStore(displayName: string): Promise<string> {
-    if (!ai) throw new Error("Gemini AI non inizializzato");
-    const ragStore = await ai.fileSearchStores.create({ config: { displayName } });
+    if (!ai) throw new Error(t('errors.notInitialized'));
+    // Not retried: a request that timed out may still have created the store.
+    const ragStore = await callOnce(() => ai.fileSearchStores.create({ config: { displayName } }));
     if (!ragStore.name) {
-        throw new Error("Impossibile creare l'archivio RAG: nome mancante.");
+        throw new Error(t('errors.storeNameMissing'));
     }
     return ragStore.name;
 }
 
-export async function uploadToRagStore(ragStoreName: string, file: File): Promise<void> {
-    if (!ai) throw new Error("Gemini AI non inizializzato");
+export async function uploadToRagStore(ragStoreName: string, file: File, customMetadata: CustomMetadata[] = [], options: UploadOptions = {}): Promise<void> {
+    if (!ai) throw new Error(t('errors.notInitialized'));
+    const { abortSignal, onIndexing } = options;
     
-    let op = await ai.fileSearchStores.uploadToFileSearchStore({
+    // Retries of the upload itself are left to the ingestion queue, which tracks attempts per file.
+    let op = await callOnce(() => ai.fileSearchStores.uploadToFileSearchStore({
         fileSearchStoreName: ragStoreName,
-        file: file
-    });
+        file: file,
+        config: {
+            displayName: file.name,
+            // The API wraps string lists in a `StringList` message; `types.ts` models them as plain arrays.
+            customMetadata: customMetadata.length > 0
+                ? customMetadata.map(meta => ({
+                    key: meta.key,
+                    stringValue: meta.stringValue,
+                    stringListValue: meta.stringListValue ? { values: meta.stringListValue } : undefined,
+                    numericValue: meta.numericValue,
+                }))
+                : undefined,
+            abortSignal,
+        }
+    }));
+    onIndexing?.();
 
+    // Indexing large manuals takes minutes, so the polling interval backs off instead of staying fixed.
+    let pollInterval = OPERATION_POLL_INITIAL_MS;
     while (!op.done) {
-        await delay(3000);
-        op = await ai.operations.get({operation: op});
+        await delay(pollInterval, abortSignal);
+        pollInterval = Math.min(pollInterval * 2, OPERATION_POLL_MAX_MS);
+        const pending = op;
+        op = await withRetry(() => ai.operations.get({ operation: pending, config: { abortSignal } }), { abortSignal });
+    }
+    if (op.error) {
+        throw classifyError(new Error(t('errors.indexingFailed', { name: file.name, reason: String(op.error.message || JSON.stringify(op.error)) })));
     }
 }
 
-export async function fileSearch(ragStoreName: string, query: string): Promise<QueryResult> {
-    if (!ai) throw new Error("Gemini AI non inizializzato");
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: query + " NON CHIEDERE ALL'UTENTE DI LEGGERE IL MANUALE, individua le sezioni pertinenti nella risposta stessa.",
+export async function listRagStores(): Promise<RagStore[]> {
+    if (!ai) throw new Error(t('errors.notInitialized'));
+    return withRetry(async () => {
+        const pager = await ai.fileSearchStores.list({ config: { pageSize: 20 } });
+        const stores: RagStore[] = [];
+        for await (const store of pager) {
+            if (!store.name) continue;
+            stores.push({
+                name: store.name,
+                displayName: store.displayName || store.name,
+                createTime: store.createTime,
+                // Counts are int64 values, which the API serializes as strings.
+                documentCount: (['activeDocumentsCount', 'pendingDocumentsCount', 'failedDocumentsCount'] as const)
+                    .reduce((total, key) => total + Number(store[key] || 0), 0),
+            });
+        }
+        return stores;
+    });
+}
+
+export async function listDocuments(ragStoreName: string): Promise<Document[]> {
+    if (!ai) throw new Error(t('errors.notInitialized'));
+    return withRetry(async () => {
+        const pager = await ai.fileSearchStores.documents.list({ parent: ragStoreName, config: { pageSize: 20 } });
+        const documents: Document[] = [];
+        for await (const doc of pager) {
+            if (!doc.name) continue;
+            documents.push({
+                name: doc.name,
+                displayName: doc.displayName || doc.name,
+                customMetadata: doc.customMetadata?.map(meta => ({
+                    key: meta.key,
+                    stringValue: meta.stringValue,
+                    stringListValue: meta.stringListValue?.values,
+                    numericValue: meta.numericValue,
+                })),
+            });
+        }
+        return documents;
+    });
+}
+
+export async function deleteDocument(documentName: string): Promise<void> {
+    if (!ai) throw new Error(t('errors.notInitialized'));
+    await withRetry(() => ai.fileSearchStores.documents.delete({
+        name: documentName,
+        config: { force: true },
+    }));
+}
+
+// Rough heuristic (~4 characters per token) that is good enough for budgeting the history window.
+function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * Picks the most recent turns that fit both the turn and token budget. The window always
+ * starts on a user turn so the model never sees an answer without its question. Photos of
+ * earlier questions are not sent again; the answers about them carry what was seen.
+ */
+export function selectContextWindow(history: ChatMessage[], options: ConversationContextOptions): Content[] {
+    const turns = history.filter(message => !message.error && getMessageText(message).trim() !== '');
+    const window: Content[] = [];
+    let tokens = 0;
+    for (let i = turns.length - 1; i >= 0 && window.length < options.maxTurns; i--) {
+        const text = getMessageText(turns[i]);
+        tokens += estimateTokens(text);
+        if (tokens > options.maxTokens) break;
+        window.unshift({ role: turns[i].role, parts: [{ text }] });
+    }
+    while (window.length > 0 && window[0].role !== 'user') {
+        window.shift();
+    }
+    return window;
+}
+
+/**
+ * Rewrites a follow-up question into a standalone query, resolving references such as
+ * "it" or "that error" against the conversation so retrieval finds the right passages.
+ */
+export async function rewriteFollowUpQuery(contextWindow: Content[], query: string, model: string, abortSignal?: AbortSignal): Promise<{ query: string, usage?: TokenUsage }> {
+    if (!ai) throw new Error(t('errors.notInitialized'));
+    if (contextWindow.length === 0) return { query };
+
+    const transcript = contextWindow
+        .map(turn => `${turn.role === 'user' ? t('prompt.userRole') : t('prompt.assistantRole')}: ${(turn.parts || []).map(part => part.text).join('\n')}`)
+        .join('\n\n');
+    const response = await withRetry(() => ai.models.generateContent({
+        model,
+        contents: t('prompt.rewriteFollowUp', { transcript, query }),
+        config: { abortSignal },
+    }), { abortSignal });
+    return { query: response.text?.trim() || query, usage: trackUsage(model, response) };
+}
+
+/**
+ * Builds the File Search request shared by `fileSearch` and `fileSearchStream`: the selected
+ * history window followed by the (possibly rewritten) current query. `rewriteUsage` is the cost
+ * of that rewrite, which is charged to the answer.
+ */
+async function buildFileSearchRequest(ragStoreName: string, query: string, options: FileSearchOptions): Promise<{ request: GenerateContentParameters, rewriteUsage?: TokenUsage }> {
+    const context = options.context ?? DEFAULT_CONTEXT_OPTIONS;
+    const generation = options.generation ?? getDefaultGenerationSettings();
+    const contextWindow = selectContextWindow(options.history ?? [], context);
+    const rewrite = context.rewriteQuery
+        ? await rewriteFollowUpQuery(contextWindow, query, generation.model, options.abortSignal)
+        : { query };
+
+    const request: GenerateContentParameters = {
+        model: generation.model,
+        contents: [
+            ...contextWindow,
+            { role: 'user', parts: [{ text: rewrite.query }, ...(options.images ?? [])] },
+        ],
         config: {
+            abortSignal: options.abortSignal,
+            // The language instruction follows the interface, whatever language the instruction itself is in.
+            systemInstruction: [generation.systemInstruction.trim(), t('prompt.answerLanguage')].filter(Boolean).join('\n\n'),
+            temperature: generation.temperature,
+            maxOutputTokens: generation.maxOutputTokens,
             tools: [
                     {
                         fileSearch: {
                             fileSearchStoreNames: [ragStoreName],
+                            metadataFilter: options.metadataFilter || undefined,
                         }
                     }
                 ]
         }
-    });
+    };
+    return { request, rewriteUsage: rewrite.usage };
+}
 
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+function withRewriteUsage(usage: TokenUsage, rewriteUsage?: TokenUsage): TokenUsage {
+    return rewriteUsage ? addUsage(usage, rewriteUsage) : usage;
+}
+
+export async function fileSearch(ragStoreName: string, query: string, options: FileSearchOptions = {}): Promise<QueryResult> {
+    if (!ai) throw new Error(t('errors.notInitialized'));
+    const { request, rewriteUsage } = await buildFileSearchRequest(ragStoreName, query, options);
+    const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent(request), { abortSignal: options.abortSignal });
+    const usage = trackUsage(request.model, response);
+    throwIfBlocked(response, response.text || '');
+
+    const groundingMetadata = response.candidates?.[0]?.groundingMetadata;
     return {
         text: response.text,
-        groundingChunks: groundingChunks,
+        groundingChunks: groundingMetadata?.groundingChunks || [],
+        groundingSupports: groundingMetadata?.groundingSupports || [],
+        usage: withRewriteUsage(usage, rewriteUsage),
+        model: request.model,
     };
 }
 
-export async function generateExampleQuestions(ragStoreName: string): Promise<string[]> {
-    if (!ai) throw new Error("Gemini AI non inizializzato");
+/**
+ * Streaming variant of `fileSearch`. `onText` receives the accumulated answer after every chunk;
+ * grounding chunks are only attached once the final chunk has arrived. Aborting `options.abortSignal`
+ * rejects with the signal's reason, leaving the partial text to the caller.
+ */
+export async function fileSearchStream(
+    ragStoreName: string,
+    query: string,
+    onText: (text: string) => void,
+    options: FileSearchOptions = {},
+): Promise<QueryResult> {
+    if (!ai) throw new Error(t('errors.notInitialized'));
+    const abortSignal = options.abortSignal;
+    const { request, rewriteUsage } = await buildFileSearchRequest(ragStoreName, query, options);
+    // Only opening the stream is retried; once text has been shown, a failure is reported as is.
+    const stream = await withRetry(() => ai.models.generateContentStream(request), { abortSignal });
+
+    let text = '';
+    let groundingChunks: GroundingChunk[] = [];
+    let groundingSupports: GroundingSupport[] = [];
+    let lastChunk: GenerateContentResponse | undefined;
+    // Usage is reported on the final chunk(s) only.
+    let usageChunk: GenerateContentResponse | undefined;
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: "Ti vengono forniti alcuni manuali utente per alcuni prodotti. Scopri per quale prodotto è ogni manuale, basandoti sul contenuto della pagina di copertina. NON INDOVINARE O ALLUCINARE IL PRODOTTO. Quindi, per ogni prodotto, genera 4 brevi e pratiche domande di esempio che un utente potrebbe porre al riguardo in italiano. Restituisci le domande come un array JSON di oggetti. Ogni oggetto dovrebbe avere una chiave 'product' con il nome del prodotto come stringa, e una chiave 'questions' con un array di 4 stringhe di domande. Per esempio: ```json[{\"product\": \"Prodotto A\", \"questions\": [\"d1\", \"d2\"]}, {\"product\": \"Prodotto B\", \"questions\": [\"d3\", \"d4\"]}]```",
-            config: {
-                tools: [
-                    {
-                        fileSearch: {
-                            fileSearchStoreNames: [ragStoreName],
-                        }
-                    }
-                ]
-            }
-        });
-        
-        let jsonText = response.text.trim();
-
-        const jsonMatch = jsonText.match(/```json\n([\s\S]*?)\n```/);
-        if (jsonMatch && jsonMatch[1]) {
-            jsonText = jsonMatch[1];
-        } else {
-            const firstBracket = jsonText.indexOf('[');
-            const lastBracket = jsonText.lastIndexOf(']');
-            if (firstBracket !== -1 && lastBracket !== -1 && lastBracket > firstBracket) {
-                jsonText = jsonText.substring(firstBracket, lastBracket + 1);
-            }
-        }
-        
-        const parsedData = JSON.parse(jsonText);
-        
-        if (Array.isArray(parsedData)) {
-            if (parsedData.length === 0) {
-                return [];
+        for await (const chunk of stream) {
+            abortSignal?.throwIfAborted();
+            lastChunk = chunk;
+            if (chunk.usageMetadata) usageChunk = chunk;
+            if (chunk.text) {
+                text += chunk.text;
+                onText(text);
             }
-            const firstItem = parsedData[0];
-
-            // Handle new format: array of {product, questions[]}
-            if (typeof firstItem === 'object' && firstItem !== null && 'questions' in firstItem && Array.isArray(firstItem.questions)) {
-                return parsedData.flatMap(item => (item.questions || [])).filter(q => typeof q === 'string');
+            const groundingMetadata = chunk.candidates?.[0]?.groundingMetadata;
+            if (groundingMetadata?.groundingChunks?.length) {
+                groundingChunks = groundingMetadata.groundingChunks;
             }
-            
-            // Handle old format: array of strings
-            if (typeof firstItem === 'string') {
-                return parsedData.filter(q => typeof q === 'string');
+            if (groundingMetadata?.groundingSupports?.length) {
+                groundingSupports = groundingMetadata.groundingSupports;
             }
         }
-        
-        console.warn("Ricevuto formato inatteso per le domande di esempio:", parsedData);
-        return [];
-    } catch (error) {
-        console.error("Impossibile generare o analizzare le domande di esempio:", error);
-        return [];
+    } catch (err) {
+        if (abortSignal?.aborted) throw err;
+        throw classifyError(err);
     }
+    const usage = trackUsage(request.model, usageChunk);
+    abortSignal?.throwIfAborted();
+    throwIfBlocked(lastChunk, text);
+
+    return { text, groundingChunks, groundingSupports, usage: withRewriteUsage(usage, rewriteUsage), model: request.model };
+}
+
+// File Search cannot be combined with structured output on the 2.5 models, so the prompt asks
+// for JSON and the reply, possibly wrapped in a code fence or prose, is checked here.
+function parseExampleQuestions(text: string): ExampleQuestionGroup[] {
+    const invalid = () => new RagError('unknown', t('services.exampleQuestionsInvalid'));
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+    let jsonText = fenced ? fenced[1] : text;
+    const firstBracket = jsonText.indexOf('[');
+    const lastBracket = jsonText.lastIndexOf(']');
+    if (firstBracket !== -1 && lastBracket > firstBracket) jsonText = jsonText.slice(firstBracket, lastBracket + 1);
+
+    let data: unknown;
+    try {
+        data = JSON.parse(jsonText);
+    } catch (e) {
+        throw invalid();
+    }
+    if (!Array.isArray(data)) throw invalid();
+    return data.map((value: unknown): ExampleQuestionGroup => {
+        const group = parseExampleQuestionGroup(value);
+        if (!group) throw invalid();
+        return group;
+    });
 }
 
+export async function generateExampleQuestions(ragStoreName: string, options: ExampleQuestionOptions = {}): Promise<ExampleQuestionGroup[]> {
+    if (!ai) throw new Error(t('errors.notInitialized'));
+    const { model = DEFAULT_MODEL, exclude = [] } = options;
+    const prompt = exclude.length > 0
+        ? `${t('prompt.exampleQuestions')}\n\n${t('prompt.exampleQuestionsExclude', { questions: exclude.map(q => `- ${q}`).join('\n') })}`
+        : t('prompt.exampleQuestions');
+    const response = await withRetry(() => ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+            tools: [
+                {
+                    fileSearch: {
+                        fileSearchStoreNames: [ragStoreName],
+                    }
+                }
+            ]
+        }
+    }));
+    trackUsage(model, response);
+
+    return parseExampleQuestions(response.text || '')
+        .map(group => ({ ...group, questions: group.questions.filter(q => !exclude.includes(q)) }))
+        .filter(group => group.questions.length > 0);
+}
 
 export async function deleteRagStore(ragStoreName: string): Promise<void> {
-    if (!ai) throw new Error("Gemini AI non inizializzato");
+    if (!ai) throw new Error(t('errors.notInitialized'));
     // DO: Remove `(as any)` type assertion.
-    await ai.fileSearchStores.delete({
+    await withRetry(() => ai.fileSearchStores.delete({
         name: ragStoreName,
         config: { force: true },
-    });
-}
\ No newline at end of file
+    }));
+}
+
+export const geminiBackend: RagBackend = {
+    kind: 'gemini',
+    requiresApiKey: true,
+    supportsImages: true,
+    initialize,
+    createRagStore,
+    listRagStores,
+    deleteRagStore,
+    uploadToRagStore,
+    listDocuments,
+    deleteDocument,
+    fileSearch,
+    fileSearchStream,
+    generateExampleQuestions,
+};
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Generation settings are remembered per store, since each set of manuals may need a different
+// model or tone. Stores without saved settings use the defaults below.
+
+import { GenerationSettings } from '../types';
+import { t } from '../utils/i18n';
+import { isRecord, optionalNumber, optionalString } from '../utils/guards';
+
+const STORAGE_KEY = 'generationSettings';
+
+export const AVAILABLE_MODELS = ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'];
+
+export const DEFAULT_MODEL = AVAILABLE_MODELS[0];
+
+// A function rather than a constant so the default instruction follows the interface language.
+export function getDefaultGenerationSettings(): GenerationSettings {
+    return {
+        model: DEFAULT_MODEL,
+        systemInstruction: t('prompt.defaultSystemInstruction'),
+    };
+}
+
+function loadAll(): Record<string, unknown> {
+    try {
+        const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+        return isRecord(stored) ? stored : {};
+    } catch (e) {
+        return {};
+    }
+}
+
+// Saved settings may be hand-edited or corrupted; a malformed field falls back to its default
+// rather than reaching the request and failing every question.
+export function loadGenerationSettings(storeName: string): GenerationSettings {
+    const defaults = getDefaultGenerationSettings();
+    const stored = loadAll()[storeName];
+    if (!isRecord(stored)) return defaults;
+    const model = optionalString(stored.model);
+    const maxOutputTokens = optionalNumber(stored.maxOutputTokens);
+    return {
+        model: model && AVAILABLE_MODELS.includes(model) ? model : defaults.model,
+        temperature: optionalNumber(stored.temperature),
+        maxOutputTokens: maxOutputTokens !== undefined && Number.isInteger(maxOutputTokens) && maxOutputTokens >= 1 ? maxOutputTokens : undefined,
+        systemInstruction: optionalString(stored.systemInstruction) ?? defaults.systemInstruction,
+    };
+}
+
+export function saveGenerationSettings(storeName: string, settings: GenerationSettings): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadAll(), [storeName]: settings }));
+}
+
+export function deleteGenerationSettings(storeName: string): void {
+    const all = loadAll();
+    if (!(storeName in all)) return;
+    delete all[storeName];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+}
@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Upload queue used when a chat is started from a set of files. Files are ingested a few at a
+// time, transient failures are retried with exponential backoff, and one failed file never
+// discards the others: the caller gets the final status of every file.
+
+import { IngestionFileProgress } from '../types';
+import { RagBackend, RagBackendKind } from './ragBackend';
+import { classifyError, delay } from './ragErrors';
+import { hashFile, CONTENT_HASH_METADATA_KEY } from '../utils/fileValidation';
+import { t } from '../utils/i18n';
+import { isRecord, optionalNumber, optionalString } from '../utils/guards';
+
+export interface IngestionOptions {
+    concurrency?: number;
+    maxAttempts?: number;
+    /** Overall budget for the whole batch; files still pending when it runs out fail. */
+    timeoutMs?: number;
+    abortSignal?: AbortSignal;
+    /** SHA-256 of each file, recorded in the document's metadata for duplicate detection. */
+    contentHashes?: string[];
+    onProgress: (files: IngestionFileProgress[]) => void;
+}
+
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_TIMEOUT_MS = 30 * 60 * 1000;
+const RETRY_BASE_DELAY_MS = 2000;
+
+export async function ingestFiles(backend: RagBackend, ragStoreName: string, files: File[], options: IngestionOptions): Promise<IngestionFileProgress[]> {
+    const {
+        concurrency = DEFAULT_CONCURRENCY,
+        maxAttempts = DEFAULT_MAX_ATTEMPTS,
+        timeoutMs = DEFAULT_TIMEOUT_MS,
+        abortSignal,
+        contentHashes,
+        onProgress,
+    } = options;
+
+    // One controller covers both user cancellation and the overall timeout.
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort(new Error(t('services.uploadTimedOut')));
+    }, timeoutMs);
+    const onExternalAbort = () => controller.abort(abortSignal?.reason);
+    if (abortSignal?.aborted) onExternalAbort();
+    abortSignal?.addEventListener('abort', onExternalAbort, { once: true });
+
+    const progress: IngestionFileProgress[] = files.map(file => ({ name: file.name, size: file.size, status: 'queued', attempt: 0 }));
+    const update = (index: number, patch: Partial<IngestionFileProgress>) => {
+        progress[index] = { ...progress[index], ...patch };
+        onProgress(progress.slice());
+    };
+    const markStopped = (index: number) => update(index, timedOut
+        ? { status: 'failed', error: t('services.uploadTimedOut') }
+        : { status: 'cancelled' });
+
+    const ingestFile = async (index: number) => {
+        for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+            if (controller.signal.aborted) return markStopped(index);
+            update(index, { status: 'uploading', attempt, error: undefined });
+            try {
+                const contentHash = contentHashes?.[index];
+                const metadata = contentHash ? [{ key: CONTENT_HASH_METADATA_KEY, stringValue: contentHash }] : [];
+                await backend.uploadToRagStore(ragStoreName, files[index], metadata, {
+                    abortSignal: controller.signal,
+                    onIndexing: () => update(index, { status: 'indexing' }),
+                });
+                return update(index, { status: 'done' });
+            } catch (err) {
+                if (controller.signal.aborted) return markStopped(index);
+                const error = classifyError(err);
+                const message = error.message;
+                if (attempt === maxAttempts || !error.retryable) {
+                    return update(index, { status: 'failed', error: message });
+                }
+                update(index, { status: 'queued', error: t('services.retryingAfterError', { message }) });
+                try {
+                    await delay(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1) + Math.random() * 500, controller.signal);
+                } catch (e) {
+                    return markStopped(index);
+                }
+            }
+        }
+    };
+
+    let nextIndex = 0;
+    const worker = async () => {
+        while (nextIndex < files.length) {
+            await ingestFile(nextIndex++);
+        }
+    };
+
+    onProgress(progress.slice());
+    try {
+        await Promise.all(Array.from({ length: Math.min(concurrency, files.length) }, worker));
+    } finally {
+        clearTimeout(timer);
+        abortSignal?.removeEventListener('abort', onExternalAbort);
+    }
+    return progress;
+}
+
+// An ingestion job is recorded in localStorage while a chat-session store is being filled, so a
+// reload or crash mid-upload can resume into the same store instead of orphaning it.
+
+const INGESTION_JOB_KEY = 'ingestionJob';
+
+export interface IngestionJobFile {
+    name: string;
+    size: number;
+    sha256: string;
+    done: boolean;
+}
+
+export interface IngestionJob {
+    backendKind: RagBackendKind;
+    ragStoreName: string;
+    startedAt: string;
+    files: IngestionJobFile[];
+}
+
+export async function createIngestionJob(backendKind: RagBackendKind, ragStoreName: string, files: File[]): Promise<IngestionJob> {
+    return {
+        backendKind,
+        ragStoreName,
+        startedAt: new Date().toISOString(),
+        files: await Promise.all(files.map(async file => ({ name: file.name, size: file.size, sha256: await hashFile(file), done: false }))),
+    };
+}
+
+export function saveIngestionJob(job: IngestionJob): void {
+    localStorage.setItem(INGESTION_JOB_KEY, JSON.stringify(job));
+}
+
+function parseIngestionJobFile(value: unknown): IngestionJobFile | null {
+    if (!isRecord(value)) return null;
+    const name = optionalString(value.name);
+    const size = optionalNumber(value.size);
+    const sha256 = optionalString(value.sha256);
+    if (name === undefined || size === undefined || sha256 === undefined || typeof value.done !== 'boolean') return null;
+    return { name, size, sha256, done: value.done };
+}
+
+/** Reads the recorded job; a job that is not entirely well-formed is treated as absent. */
+export function loadIngestionJob(): IngestionJob | null {
+    let data: unknown;
+    try {
+        data = JSON.parse(localStorage.getItem(INGESTION_JOB_KEY) || 'null');
+    } catch (e) {
+        return null;
+    }
+    if (!isRecord(data) || (data.backendKind !== 'gemini' && data.backendKind !== 'local') || !Array.isArray(data.files)) return null;
+    const ragStoreName = optionalString(data.ragStoreName);
+    const startedAt = optionalString(data.startedAt);
+    const files = data.files.map(parseIngestionJobFile);
+    if (ragStoreName === undefined || startedAt === undefined || files.some(file => file === null)) return null;
+    return {
+        backendKind: data.backendKind,
+        ragStoreName,
+        startedAt,
+        files: files.filter((file): file is IngestionJobFile => file !== null),
+    };
+}
+
+export function clearIngestionJob(): void {
+    localStorage.removeItem(INGESTION_JOB_KEY);
+}
@@ -0,0 +1,379 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Offline RAG engine: documents are chunked and ranked with BM25 entirely in the browser and
+// persisted in IndexedDB. It never calls a model, so answers are the best-matching passages.
+
+import { RagStore, Document, QueryResult, CustomMetadata, GroundingChunk, GroundingSupport, ExampleQuestionGroup } from '../types';
+import { RagBackend, FileSearchOptions, UploadOptions, ExampleQuestionOptions } from './ragBackend';
+import { openDatabase, requestToPromise, transactionDone } from './indexedDb';
+import { extractPages } from './textExtraction';
+import { t } from '../utils/i18n';
+
+interface StoreRecord {
+    name: string;
+    displayName: string;
+    createTime: string;
+}
+
+interface DocumentRecord {
+    name: string;
+    storeName: string;
+    displayName: string;
+    customMetadata: CustomMetadata[];
+}
+
+interface ChunkRecord {
+    id?: number;
+    storeName: string;
+    documentName: string;
+    text: string;
+    pageNumber?: number;
+    termFrequencies: Record<string, number>;
+    length: number;
+}
+
+const DB_NAME = 'rag-local-engine';
+const DB_VERSION = 1;
+const CHUNK_SIZE = 1200;
+const TOP_K = 5;
+const ANSWER_PASSAGES = 3;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOP_WORDS = new Set([
+    // Italian
+    'il', 'lo', 'la', 'le', 'gli', 'un', 'una', 'uno', 'di', 'da', 'del', 'della', 'dei', 'delle', 'degli', 'al', 'alla', 'ai',
+    'alle', 'nel', 'nella', 'nei', 'con', 'per', 'tra', 'fra', 'che', 'chi', 'cui', 'non', 'come', 'dove', 'quando', 'cosa',
+    'sono', 'essere', 'posso', 'puo', 'si', 'se', 'ed', 'ma', 'anche', 'questo', 'questa', 'quale', 'quali', 'mio', 'mia',
+    // English
+    'the', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'with', 'is', 'are', 'be', 'it', 'this', 'that', 'how', 'what',
+    'can', 'do', 'does', 'my', 'from', 'by', 'at', 'as', 'if', 'not',
+]);
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+            db.createObjectStore('stores', { keyPath: 'name' });
+            const documents = db.createObjectStore('documents', { keyPath: 'name' });
+            documents.createIndex('storeName', 'storeName');
+            const chunks = db.createObjectStore('chunks', { keyPath: 'id', autoIncrement: true });
+            chunks.createIndex('storeName', 'storeName');
+            chunks.createIndex('documentName', 'documentName');
+        });
+    }
+    return dbPromise;
+}
+
+function randomId(): string {
+    return Math.random().toString(36).slice(2, 14);
+}
+
+function slugify(text: string): string {
+    return text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 27) || 'store';
+}
+
+export function tokenize(text: string): string[] {
+    return text
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .split(/[^a-z0-9]+/)
+        .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+function countTerms(tokens: string[]): Record<string, number> {
+    const frequencies: Record<string, number> = {};
+    for (const token of tokens) frequencies[token] = (frequencies[token] || 0) + 1;
+    return frequencies;
+}
+
+/** Splits text into chunks of roughly `CHUNK_SIZE` characters on paragraph, then sentence boundaries. */
+export function chunkText(text: string): string[] {
+    const pieces = text
+        .split(/\n\s*\n/)
+        .flatMap(paragraph => paragraph.length <= CHUNK_SIZE ? [paragraph] : paragraph.match(/[^.!?]+[.!?]*\s*/g) || [paragraph])
+        .map(piece => piece.trim())
+        .filter(piece => piece !== '');
+
+    const chunks: string[] = [];
+    let current = '';
+    for (const piece of pieces) {
+        if (current && current.length + piece.length + 2 > CHUNK_SIZE) {
+            chunks.push(current);
+            current = '';
+        }
+        current = current ? `${current}\n\n${piece}` : piece;
+        while (current.length > CHUNK_SIZE * 1.5) {
+            chunks.push(current.slice(0, CHUNK_SIZE));
+            current = current.slice(CHUNK_SIZE);
+        }
+    }
+    if (current) chunks.push(current);
+    return chunks;
+}
+
+function metadataValue(meta: CustomMetadata): string | number | string[] | undefined {
+    return meta.numericValue ?? meta.stringListValue ?? meta.stringValue;
+}
+
+function matchesCondition(metadata: CustomMetadata[], condition: string): boolean {
+    const parsed = condition.trim().match(/^([\w.-]+)\s*(=|!=|<=|>=|<|>)\s*(.+)$/);
+    if (!parsed) return true;
+    const [, key, operator, rawValue] = parsed;
+    const expected = rawValue.trim().replace(/^"(.*)"$/, '$1').replace(/\\"/g, '"');
+    const actual = metadataValue(metadata.find(meta => meta.key === key) || {});
+    if (actual === undefined) return operator === '!=';
+
+    const compare = (value: string | number): boolean => {
+        const numeric = typeof value === 'number' && !isNaN(Number(expected));
+        const left = numeric ? value : String(value);
+        const right = numeric ? Number(expected) : expected;
+        switch (operator) {
+            case '=': return left === right;
+            case '!=': return left !== right;
+            case '<': return left < right;
+            case '<=': return left <= right;
+            case '>': return left > right;
+            default: return left >= right;
+        }
+    };
+    return Array.isArray(actual) ? actual.some(compare) : compare(actual);
+}
+
+/** Evaluates the subset of AIP-160 the filter builder produces: conditions joined by AND/OR. */
+export function matchesMetadataFilter(metadata: CustomMetadata[], filter?: string): boolean {
+    if (!filter?.trim()) return true;
+    return filter.split(/\s+OR\s+/).some(group => group.split(/\s+AND\s+/).every(condition => matchesCondition(metadata, condition)));
+}
+
+interface ScoredChunk {
+    chunk: ChunkRecord;
+    score: number;
+}
+
+function rankChunks(chunks: ChunkRecord[], query: string): ScoredChunk[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (chunks.length === 0 || queryTerms.length === 0) return [];
+
+    const averageLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0) / chunks.length;
+    const documentFrequency = new Map<string, number>();
+    for (const term of queryTerms) {
+        documentFrequency.set(term, chunks.filter(chunk => chunk.termFrequencies[term]).length);
+    }
+
+    return chunks
+        .map(chunk => {
+            let score = 0;
+            for (const term of queryTerms) {
+                const tf = chunk.termFrequencies[term] || 0;
+                if (!tf) continue;
+                const df = documentFrequency.get(term) || 0;
+                const idf = Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+                score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * chunk.length / averageLength));
+            }
+            return { chunk, score };
+        })
+        .filter(result => result.score > 0)
+        .sort((a, b) => b.score - a.score);
+}
+
+async function getAll<T>(storeName: 'stores' | 'documents' | 'chunks', indexName?: string, key?: string): Promise<T[]> {
+    const db = await getDb();
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    const source = indexName ? store.index(indexName) : store;
+    return requestToPromise(source.getAll(key)) as Promise<T[]>;
+}
+
+export function initialize(_apiKey?: string) {
+    // Nothing to configure: the database is opened lazily on first use.
+}
+
+export async function createRagStore(displayName: string): Promise<string> {
+    const db = await getDb();
+    const record: StoreRecord = {
+        name: `localStores/${slugify(displayName)}-${randomId()}`,
+        displayName,
+        createTime: new Date().toISOString(),
+    };
+    const tx = db.transaction('stores', 'readwrite');
+    tx.objectStore('stores').add(record);
+    await transactionDone(tx);
+    return record.name;
+}
+
+export async function listRagStores(): Promise<RagStore[]> {
+    const stores = await getAll<StoreRecord>('stores');
+    const documents = await getAll<DocumentRecord>('documents');
+    return stores
+        .sort((a, b) => a.createTime.localeCompare(b.createTime))
+        .map(store => ({
+            name: store.name,
+            displayName: store.displayName,
+            createTime: store.createTime,
+            documentCount: documents.filter(doc => doc.storeName === store.name).length,
+        }));
+}
+
+export async function deleteRagStore(ragStoreName: string): Promise<void> {
+    const db = await getDb();
+    const tx = db.transaction(['stores', 'documents', 'chunks'], 'readwrite');
+    tx.objectStore('stores').delete(ragStoreName);
+    const documentKeys = await requestToPromise(tx.objectStore('documents').index('storeName').getAllKeys(ragStoreName));
+    documentKeys.forEach(key => tx.objectStore('documents').delete(key));
+    const chunkKeys = await requestToPromise(tx.objectStore('chunks').index('storeName').getAllKeys(ragStoreName));
+    chunkKeys.forEach(key => tx.objectStore('chunks').delete(key));
+    await transactionDone(tx);
+}
+
+export async function uploadToRagStore(ragStoreName: string, file: File, customMetadata: CustomMetadata[] = [], options: UploadOptions = {}): Promise<void> {
+    const pages = await extractPages(file);
+    options.abortSignal?.throwIfAborted();
+    options.onIndexing?.();
+    const document: DocumentRecord = {
+        name: `${ragStoreName}/documents/${slugify(file.name)}-${randomId()}`,
+        storeName: ragStoreName,
+        displayName: file.name,
+        customMetadata,
+    };
+    const chunks: ChunkRecord[] = pages.flatMap(page => chunkText(page.text).map(text => {
+        const tokens = tokenize(text);
+        return {
+            storeName: ragStoreName,
+            documentName: document.name,
+            text,
+            pageNumber: page.pageNumber,
+            termFrequencies: countTerms(tokens),
+            length: tokens.length,
+        };
+    }));
+
+    const db = await getDb();
+    const tx = db.transaction(['documents', 'chunks'], 'readwrite');
+    tx.objectStore('documents').add(document);
+    const chunkStore = tx.objectStore('chunks');
+    chunks.forEach(chunk => chunkStore.add(chunk));
+    await transactionDone(tx);
+}
+
+export async function listDocuments(ragStoreName: string): Promise<Document[]> {
+    const documents = await getAll<DocumentRecord>('documents', 'storeName', ragStoreName);
+    return documents.map(doc => ({ name: doc.name, displayName: doc.displayName, customMetadata: doc.customMetadata }));
+}
+
+export async function deleteDocument(documentName: string): Promise<void> {
+    const db = await getDb();
+    const tx = db.transaction(['documents', 'chunks'], 'readwrite');
+    tx.objectStore('documents').delete(documentName);
+    const chunkKeys = await requestToPromise(tx.objectStore('chunks').index('documentName').getAllKeys(documentName));
+    chunkKeys.forEach(key => tx.objectStore('chunks').delete(key));
+    await transactionDone(tx);
+}
+
+function excerpt(text: string, maxLength = 400): string {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength).replace(/\s+\S*$/, '')}…` : singleLine;
+}
+
+export async function fileSearch(ragStoreName: string, query: string, options: FileSearchOptions = {}): Promise<QueryResult> {
+    const [documents, chunks] = await Promise.all([
+        getAll<DocumentRecord>('documents', 'storeName', ragStoreName),
+        getAll<ChunkRecord>('chunks', 'storeName', ragStoreName),
+    ]);
+    options.abortSignal?.throwIfAborted();
+
+    const documentsByName = new Map(documents.map(doc => [doc.name, doc]));
+    const eligible = chunks.filter(chunk => matchesMetadataFilter(documentsByName.get(chunk.documentName)?.customMetadata || [], options.metadataFilter));
+    const ranked = rankChunks(eligible, query).slice(0, TOP_K);
+
+    const groundingChunks: GroundingChunk[] = ranked.map(({ chunk }) => ({
+        retrievedContext: {
+            text: chunk.text,
+            title: documentsByName.get(chunk.documentName)?.displayName,
+            documentName: chunk.documentName,
+            fileSearchStore: ragStoreName,
+            pageNumber: chunk.pageNumber,
+        },
+    }));
+
+    if (ranked.length === 0) {
+        return { text: t('services.localNoPassages'), groundingChunks };
+    }
+
+    const passages = ranked.slice(0, ANSWER_PASSAGES).map(({ chunk }, index) => {
+        const title = documentsByName.get(chunk.documentName)?.displayName || chunk.documentName;
+        const page = chunk.pageNumber ? t('services.localPage', { page: chunk.pageNumber }) : '';
+        return `${index + 1}. **${title}${page}**: ${excerpt(chunk.text)}`;
+    });
+    // Each listed passage is backed by exactly the chunk it was taken from.
+    const groundingSupports: GroundingSupport[] = passages.map((passage, index) => ({
+        segment: { text: passage },
+        groundingChunkIndices: [index],
+    }));
+    return {
+        text: t('services.localPassages', { passages: passages.join('\n') }),
+        groundingChunks,
+        groundingSupports,
+    };
+}
+
+// Local answers are computed in one go, so "streaming" delivers the whole text at once.
+export async function fileSearchStream(ragStoreName: string, query: string, onText: (text: string) => void, options: FileSearchOptions = {}): Promise<QueryResult> {
+    const result = await fileSearch(ragStoreName, query, options);
+    onText(result.text);
+    return result;
+}
+
+/**
+ * Suggests questions about the most distinctive terms (highest TF-IDF) of each document, one
+ * group per document; excluded questions are skipped so the next terms come up instead.
+ */
+export async function generateExampleQuestions(ragStoreName: string, options: ExampleQuestionOptions = {}): Promise<ExampleQuestionGroup[]> {
+    const exclude = options.exclude ?? [];
+    const [documents, chunks] = await Promise.all([
+        getAll<DocumentRecord>('documents', 'storeName', ragStoreName),
+        getAll<ChunkRecord>('chunks', 'storeName', ragStoreName),
+    ]);
+
+    const storeFrequency = new Map<string, number>();
+    for (const chunk of chunks) {
+        for (const term of Object.keys(chunk.termFrequencies)) storeFrequency.set(term, (storeFrequency.get(term) || 0) + 1);
+    }
+
+    return documents.map(doc => {
+        const termScores = new Map<string, number>();
+        for (const chunk of chunks.filter(c => c.documentName === doc.name)) {
+            for (const [term, tf] of Object.entries(chunk.termFrequencies)) {
+                if (term.length < 4 || /^\d+$/.test(term)) continue;
+                const idf = Math.log(chunks.length / (storeFrequency.get(term) || 1));
+                termScores.set(term, (termScores.get(term) || 0) + tf * idf);
+            }
+        }
+        const questions = Array.from(termScores.entries())
+            .sort((a, b) => b[1] - a[1])
+            .map(([term]) => t('services.localExampleQuestion', { term }))
+            .filter(question => !exclude.includes(question))
+            .slice(0, 4);
+        return { product: doc.displayName, questions };
+    }).filter(group => group.questions.length > 0);
+}
+
+export const localBackend: RagBackend = {
+    kind: 'local',
+    requiresApiKey: false,
+    supportsImages: false,
+    initialize,
+    createRagStore,
+    listRagStores,
+    deleteRagStore,
+    uploadToRagStore,
+    listDocuments,
+    deleteDocument,
+    fileSearch,
+    fileSearchStream,
+    generateExampleQuestions,
+};
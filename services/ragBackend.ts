@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { RagStore, Document, QueryResult, CustomMetadata, ChatMessage, ConversationContextOptions, GenerationSettings, ExampleQuestionGroup, ImagePart } from '../types';
+
+export type RagBackendKind = 'gemini' | 'local';
+
+export const DEFAULT_CONTEXT_OPTIONS: ConversationContextOptions = {
+    maxTurns: 6,
+    maxTokens: 4000,
+    rewriteQuery: false,
+};
+
+export interface FileSearchOptions {
+    /** AIP-160 expression over the documents' custom metadata, e.g. `brand = "LG" AND year >= 2023`. */
+    metadataFilter?: string;
+    /** Previous turns of the conversation, oldest first, excluding the current query. */
+    history?: ChatMessage[];
+    /** Photos attached to the query; only used by backends that `supportsImages`. */
+    images?: ImagePart[];
+    context?: ConversationContextOptions;
+    /** Model and generation parameters; ignored by backends that do not call a model. */
+    generation?: GenerationSettings;
+    abortSignal?: AbortSignal;
+}
+
+export interface ExampleQuestionOptions {
+    model?: string;
+    /** Questions already shown, so "more suggestions" returns different ones. */
+    exclude?: string[];
+}
+
+export interface UploadOptions {
+    abortSignal?: AbortSignal;
+    /** Reports when the file has been sent and the backend starts indexing it. */
+    onIndexing?: () => void;
+}
+
+/**
+ * Everything the app needs from a retrieval engine. Implementations must return the same
+ * `QueryResult`/`GroundingChunk` shapes so the UI does not care which one is active.
+ */
+export interface RagBackend {
+    kind: RagBackendKind;
+    /** Whether the backend needs a Gemini API key before `initialize` can succeed. */
+    requiresApiKey: boolean;
+    /** Whether questions can carry photos, e.g. of an appliance's display. */
+    supportsImages: boolean;
+    initialize(apiKey?: string): void;
+    createRagStore(displayName: string): Promise<string>;
+    listRagStores(): Promise<RagStore[]>;
+    deleteRagStore(ragStoreName: string): Promise<void>;
+    uploadToRagStore(ragStoreName: string, file: File, customMetadata?: CustomMetadata[], options?: UploadOptions): Promise<void>;
+    listDocuments(ragStoreName: string): Promise<Document[]>;
+    deleteDocument(documentName: string): Promise<void>;
+    fileSearch(ragStoreName: string, query: string, options?: FileSearchOptions): Promise<QueryResult>;
+    fileSearchStream(ragStoreName: string, query: string, onText: (text: string) => void, options?: FileSearchOptions): Promise<QueryResult>;
+    generateExampleQuestions(ragStoreName: string, options?: ExampleQuestionOptions): Promise<ExampleQuestionGroup[]>;
+}
@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Every failure that reaches the UI is a `RagError`, so screens can react to its kind (prompt
+// for a new key, offer a retry, recover from a deleted store) instead of matching on messages.
+
+import { ApiError } from '@google/genai';
+import { RagErrorKind } from '../types';
+import { t, MessageKey } from '../utils/i18n';
+
+const RETRYABLE_KINDS: RagErrorKind[] = ['quota', 'network', 'server'];
+
+const DEFAULT_MESSAGE_KEYS: Record<RagErrorKind, MessageKey> = {
+    auth: 'errors.auth',
+    quota: 'errors.quota',
+    notFound: 'errors.notFound',
+    safety: 'errors.safety',
+    network: 'errors.network',
+    server: 'errors.server',
+    cancelled: 'errors.cancelled',
+    unknown: 'errors.unknown',
+};
+
+export class RagError extends Error {
+    readonly kind: RagErrorKind;
+
+    constructor(kind: RagErrorKind, message = t(DEFAULT_MESSAGE_KEYS[kind]), options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'RagError';
+        this.kind = kind;
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE_KINDS.includes(this.kind);
+    }
+}
+
+function kindFromStatus(status: number, message: string): RagErrorKind | null {
+    if (status === 401 || status === 403) return 'auth';
+    // An invalid key is reported as a plain 400 INVALID_ARGUMENT.
+    if (status === 400 && /api key/i.test(message)) return 'auth';
+    if (status === 404) return 'notFound';
+    if (status === 408) return 'network';
+    if (status === 429) return 'quota';
+    if (status >= 500) return 'server';
+    return null;
+}
+
+function kindFromMessage(message: string): RagErrorKind {
+    if (/api key not valid|api_key_invalid|permission denied|unauthenticated/i.test(message)) return 'auth';
+    // AI Studio reports a key without access to the project this way.
+    if (/requested entity was not found/i.test(message)) return 'auth';
+    if (/not found|\b404\b/i.test(message)) return 'notFound';
+    if (/resource_exhausted|quota|rate limit|\b429\b/i.test(message)) return 'quota';
+    if (/failed to fetch|fetch failed|networkerror|network error|load failed|timed? ?out/i.test(message)) return 'network';
+    if (/unavailable|internal error|overloaded|deadline|\b50[0-4]\b/i.test(message)) return 'server';
+    return 'unknown';
+}
+
+/** Converts anything thrown by the SDK, `fetch` or the local engine into a `RagError`. */
+export function classifyError(err: unknown): RagError {
+    if (err instanceof RagError) return err;
+    if (err instanceof DOMException && err.name === 'AbortError') {
+        return new RagError('cancelled', undefined, { cause: err });
+    }
+    const message = err instanceof Error ? err.message : String(err);
+    const kind = (err instanceof ApiError ? kindFromStatus(err.status, message) : null) ?? kindFromMessage(message);
+    if (kind === 'network' && typeof navigator !== 'undefined' && !navigator.onLine) {
+        return new RagError('network', t('errors.offline'), { cause: err });
+    }
+    // Unclassified errors keep their own message, which is the most useful thing to show.
+    return new RagError(kind, kind === 'unknown' ? message : undefined, { cause: err });
+}
+
+export function delay(ms: number, abortSignal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        abortSignal?.throwIfAborted();
+        const timer = setTimeout(() => {
+            abortSignal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortSignal!.reason);
+        };
+        abortSignal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+export interface RetryOptions {
+    maxAttempts?: number;
+    baseDelayMs?: number;
+    abortSignal?: AbortSignal;
+}
+
+/**
+ * Runs `operation`, retrying quota, network and server errors with exponential backoff and
+ * jitter. Whatever is finally thrown is a classified `RagError`.
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+    const { maxAttempts = 3, baseDelayMs = 1000, abortSignal } = options;
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation();
+        } catch (err) {
+            const error = classifyError(err);
+            if (!error.retryable || attempt >= maxAttempts || abortSignal?.aborted) throw error;
+            await delay(baseDelayMs * 2 ** (attempt - 1) + Math.random() * 250, abortSignal);
+        }
+    }
+}
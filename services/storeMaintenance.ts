@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Clean-up of the throwaway stores created for "upload and chat" sessions. Those stores are
+// deleted when the chat ends, but sessions that are simply abandoned leave them behind and
+// count against the store quota.
+
+import { RagStore } from '../types';
+import { RagBackend } from './ragBackend';
+import { deleteConversationsForStore } from './conversationStore';
+import { deleteGenerationSettings } from './generationSettings';
+
+export const SESSION_STORE_PREFIX = 'chat-session-';
+
+const SESSION_STORE_TTL_KEY = 'sessionStoreTtlHours';
+
+export function createSessionStoreDisplayName(): string {
+    return `${SESSION_STORE_PREFIX}${Date.now()}`;
+}
+
+export function isSessionStore(store: RagStore): boolean {
+    return store.displayName.startsWith(SESSION_STORE_PREFIX);
+}
+
+/** Creation time of a session store, falling back to the timestamp embedded in its name. */
+export function getSessionStoreCreatedAt(store: RagStore): Date | null {
+    if (store.createTime) return new Date(store.createTime);
+    const timestamp = Number(store.displayName.slice(SESSION_STORE_PREFIX.length));
+    return Number.isFinite(timestamp) && timestamp > 0 ? new Date(timestamp) : null;
+}
+
+export async function listSessionStores(backend: RagBackend): Promise<RagStore[]> {
+    const stores = await backend.listRagStores();
+    return stores
+        .filter(isSessionStore)
+        .sort((a, b) => (getSessionStoreCreatedAt(a)?.getTime() ?? 0) - (getSessionStoreCreatedAt(b)?.getTime() ?? 0));
+}
+
+/** Deletes a store along with what the app keeps about it locally: conversations and generation settings. */
+export async function deleteStoreAndData(backend: RagBackend, storeName: string): Promise<void> {
+    await backend.deleteRagStore(storeName);
+    await deleteConversationsForStore(storeName);
+    deleteGenerationSettings(storeName);
+}
+
+/** Deletes the given stores one by one and returns the names of those that could not be deleted. */
+export async function deleteStores(backend: RagBackend, storeNames: string[]): Promise<string[]> {
+    const failed: string[] = [];
+    for (const storeName of storeNames) {
+        try {
+            await deleteStoreAndData(backend, storeName);
+        } catch (err) {
+            console.error(`Impossibile eliminare l'archivio ${storeName}`, err);
+            failed.push(storeName);
+        }
+    }
+    return failed;
+}
+
+export function loadSessionStoreTtlHours(): number | null {
+    const hours = Number(localStorage.getItem(SESSION_STORE_TTL_KEY));
+    return hours > 0 ? hours : null;
+}
+
+export function saveSessionStoreTtlHours(hours: number | null): void {
+    if (hours && hours > 0) {
+        localStorage.setItem(SESSION_STORE_TTL_KEY, String(hours));
+    } else {
+        localStorage.removeItem(SESSION_STORE_TTL_KEY);
+    }
+}
+
+/**
+ * Deletes session stores older than `ttlHours`, skipping `protectedStoreNames` (the open chat and
+ * an interrupted upload that may still be resumed). Returns the names of the deleted stores.
+ */
+export async function deleteExpiredSessionStores(backend: RagBackend, ttlHours: number, protectedStoreNames: string[] = []): Promise<string[]> {
+    const cutoff = Date.now() - ttlHours * 60 * 60 * 1000;
+    const expired = (await listSessionStores(backend))
+        .filter(store => !protectedStoreNames.includes(store.name))
+        .filter(store => {
+            const createdAt = getSessionStoreCreatedAt(store);
+            return createdAt !== null && createdAt.getTime() < cutoff;
+        })
+        .map(store => store.name);
+    const failed = await deleteStores(backend, expired);
+    return expired.filter(name => !failed.includes(name));
+}
@@ -0,0 +1,282 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Dependency-free text extraction for the local engine. It has to work on air-gapped machines,
+// so instead of pulling in pdf.js from a CDN it reads the PDF object graph directly. This copes
+// with the common case (Flate-compressed content streams, WinAnsi/UTF-16 strings) and simply
+// yields less text for PDFs that use custom font encodings or scanned pages.
+
+import { t } from '../utils/i18n';
+
+export interface ExtractedPage {
+    /** 1-based page number, or undefined when the source has no notion of pages. */
+    pageNumber?: number;
+    text: string;
+}
+
+interface PdfObject {
+    dict: string;
+    stream?: Uint8Array;
+}
+
+const winAnsiDecoder = new TextDecoder('windows-1252');
+
+function bytesToBinaryString(bytes: Uint8Array): string {
+    let result = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        result += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return result;
+}
+
+function binaryStringToBytes(text: string): Uint8Array {
+    const bytes = new Uint8Array(text.length);
+    for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+    return bytes;
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array | null> {
+    try {
+        const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+        return new Uint8Array(await new Response(stream).arrayBuffer());
+    } catch (e) {
+        return null;
+    }
+}
+
+async function decodeStream(obj: PdfObject): Promise<Uint8Array | null> {
+    if (!obj.stream) return null;
+    const filter = obj.dict.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] || '';
+    const filters = filter.match(/\/\w+/g) || [];
+    if (filters.length === 0) return obj.stream;
+    if (filters.length === 1 && filters[0] === '/FlateDecode') return inflate(obj.stream);
+    return null;
+}
+
+async function parsePdfObjects(bytes: Uint8Array): Promise<Map<number, PdfObject>> {
+    const source = bytesToBinaryString(bytes);
+    const objects = new Map<number, PdfObject>();
+    const objectPattern = /(\d+)\s+\d+\s+obj\b/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = objectPattern.exec(source)) !== null) {
+        const bodyStart = match.index + match[0].length;
+        const end = source.indexOf('endobj', bodyStart);
+        if (end === -1) break;
+        const body = source.slice(bodyStart, end);
+        const streamMatch = body.match(/stream\r?\n/);
+        if (streamMatch && streamMatch.index !== undefined) {
+            const dataStart = streamMatch.index + streamMatch[0].length;
+            const dataEnd = body.lastIndexOf('endstream');
+            objects.set(Number(match[1]), {
+                dict: body.slice(0, streamMatch.index),
+                stream: binaryStringToBytes(body.slice(dataStart, dataEnd === -1 ? undefined : dataEnd).replace(/\r?\n$/, '')),
+            });
+        } else {
+            objects.set(Number(match[1]), { dict: body });
+        }
+        objectPattern.lastIndex = end;
+    }
+
+    // PDF 1.5+ files keep most dictionaries (including pages) inside compressed object streams.
+    for (const obj of Array.from(objects.values())) {
+        if (!/\/Type\s*\/ObjStm\b/.test(obj.dict)) continue;
+        const data = await decodeStream(obj);
+        const first = Number(obj.dict.match(/\/First\s+(\d+)/)?.[1]);
+        const count = Number(obj.dict.match(/\/N\s+(\d+)/)?.[1]);
+        if (!data || isNaN(first) || isNaN(count)) continue;
+        const content = bytesToBinaryString(data);
+        const header = content.slice(0, first).trim().split(/\s+/).map(Number);
+        for (let i = 0; i < count; i++) {
+            const objectNumber = header[i * 2];
+            const start = first + header[i * 2 + 1];
+            const end = i + 1 < count ? first + header[(i + 1) * 2 + 1] : content.length;
+            if (!objects.has(objectNumber)) {
+                objects.set(objectNumber, { dict: content.slice(start, end) });
+            }
+        }
+    }
+    return objects;
+}
+
+function collectPages(objects: Map<number, PdfObject>): PdfObject[] {
+    const root = Array.from(objects.values()).find(obj => /\/Type\s*\/Pages\b/.test(obj.dict) && !/\/Parent\s+\d+/.test(obj.dict));
+    if (!root) return [];
+
+    const pages: PdfObject[] = [];
+    const visited = new Set<PdfObject>();
+    const visit = (node: PdfObject) => {
+        if (visited.has(node)) return;
+        visited.add(node);
+        if (/\/Type\s*\/Pages\b/.test(node.dict)) {
+            const kids = node.dict.match(/\/Kids\s*\[([^\]]*)\]/)?.[1] || '';
+            for (const ref of kids.matchAll(/(\d+)\s+\d+\s+R/g)) {
+                const kid = objects.get(Number(ref[1]));
+                if (kid) visit(kid);
+            }
+        } else if (/\/Type\s*\/Page\b/.test(node.dict)) {
+            pages.push(node);
+        }
+    };
+    visit(root);
+    return pages;
+}
+
+function decodeLiteralString(raw: string): string {
+    let bytes = '';
+    for (let i = 0; i < raw.length; i++) {
+        const ch = raw[i];
+        if (ch !== '\\') {
+            bytes += ch;
+            continue;
+        }
+        const next = raw[++i];
+        if (next === undefined) break;
+        if (/[0-7]/.test(next)) {
+            let octal = next;
+            while (octal.length < 3 && /[0-7]/.test(raw[i + 1] || '')) octal += raw[++i];
+            bytes += String.fromCharCode(parseInt(octal, 8) & 0xff);
+        } else if (next === 'n') bytes += '\n';
+        else if (next === 'r') bytes += '\r';
+        else if (next === 't') bytes += '\t';
+        else if (next === 'b') bytes += '\b';
+        else if (next === 'f') bytes += '\f';
+        else if (next === '\r' || next === '\n') {
+            if (next === '\r' && raw[i + 1] === '\n') i++;
+        } else bytes += next;
+    }
+    if (bytes.startsWith('\xfe\xff')) return decodeUtf16(bytes.slice(2));
+    return winAnsiDecoder.decode(binaryStringToBytes(bytes));
+}
+
+function decodeUtf16(bytes: string): string {
+    let result = '';
+    for (let i = 0; i + 1 < bytes.length; i += 2) {
+        result += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+    }
+    return result;
+}
+
+function decodeHexString(hex: string): string {
+    const clean = hex.replace(/\s+/g, '');
+    let bytes = '';
+    for (let i = 0; i < clean.length; i += 2) {
+        bytes += String.fromCharCode(parseInt(clean.slice(i, i + 2).padEnd(2, '0'), 16));
+    }
+    if (bytes.startsWith('\xfe\xff')) return decodeUtf16(bytes.slice(2));
+    // Two-byte glyph ids (Identity-H fonts) cannot be mapped without the font's CMap.
+    return /^[\x20-\x7e]*$/.test(bytes) ? bytes : '';
+}
+
+/** Walks a content stream and returns the text shown by Tj/TJ/'/" operators. */
+function extractContentText(content: string): string {
+    let text = '';
+    let operands: (string | number)[] = [];
+    let i = 0;
+
+    const pushText = (value: string) => { text += value; };
+
+    while (i < content.length) {
+        const ch = content[i];
+        if (ch === '(') {
+            let depth = 1;
+            let j = i + 1;
+            while (j < content.length && depth > 0) {
+                if (content[j] === '\\') j++;
+                else if (content[j] === '(') depth++;
+                else if (content[j] === ')') depth--;
+                j++;
+            }
+            operands.push(decodeLiteralString(content.slice(i + 1, j - 1)));
+            i = j;
+        } else if (ch === '<' && content[i + 1] !== '<') {
+            const end = content.indexOf('>', i);
+            operands.push(decodeHexString(content.slice(i + 1, end === -1 ? undefined : end)));
+            i = end === -1 ? content.length : end + 1;
+        } else if (ch === '[' || ch === ']' || /\s/.test(ch)) {
+            i++;
+        } else if (ch === '%') {
+            const end = content.indexOf('\n', i);
+            i = end === -1 ? content.length : end + 1;
+        } else {
+            let j = i;
+            while (j < content.length && !/[\s()<>\[\]\/%]/.test(content[j])) j++;
+            if (j === i) j++;
+            const token = content.slice(i, j);
+            i = j;
+            if (/^[-+]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+                operands.push(Number(token));
+                continue;
+            }
+            switch (token) {
+                case 'Tj':
+                    pushText(operands.filter((o): o is string => typeof o === 'string').join(''));
+                    break;
+                case 'TJ':
+                    // Large negative kerning inside a TJ array is how most generators encode a word space.
+                    for (const operand of operands) {
+                        if (typeof operand === 'string') pushText(operand);
+                        else if (operand < -200) pushText(' ');
+                    }
+                    break;
+                case "'":
+                case '"':
+                    pushText('\n' + operands.filter((o): o is string => typeof o === 'string').join(''));
+                    break;
+                case 'T*':
+                case 'TD':
+                case 'ET':
+                    pushText('\n');
+                    break;
+                case 'Td': {
+                    const ty = operands[operands.length - 1];
+                    pushText(typeof ty === 'number' && ty !== 0 ? '\n' : ' ');
+                    break;
+                }
+            }
+            operands = [];
+        }
+    }
+    // Control characters are usually ligature glyphs (fi, fl) from fonts without a usable encoding.
+    return text.replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '').replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+async function extractPdfPages(file: File): Promise<ExtractedPage[]> {
+    const objects = await parsePdfObjects(new Uint8Array(await file.arrayBuffer()));
+    const pages = collectPages(objects);
+
+    const pageTexts: ExtractedPage[] = [];
+    for (let index = 0; index < pages.length; index++) {
+        const contentsEntry = pages[index].dict.match(/\/Contents\s*(\[[^\]]*\]|\d+\s+\d+\s+R)/)?.[1] || '';
+        let text = '';
+        for (const ref of contentsEntry.matchAll(/(\d+)\s+\d+\s+R/g)) {
+            const stream = objects.get(Number(ref[1]));
+            const data = stream ? await decodeStream(stream) : null;
+            if (data) text += extractContentText(bytesToBinaryString(data)) + '\n';
+        }
+        pageTexts.push({ pageNumber: index + 1, text: text.trim() });
+    }
+
+    if (pageTexts.some(page => page.text !== '')) return pageTexts;
+
+    // No usable page tree: fall back to every stream that contains text operators, in file order.
+    let fallback = '';
+    for (const obj of objects.values()) {
+        const data = await decodeStream(obj);
+        if (!data) continue;
+        const content = bytesToBinaryString(data);
+        if (/\bBT\b/.test(content) && /\bET\b/.test(content)) fallback += extractContentText(content) + '\n';
+    }
+    return [{ text: fallback.trim() }];
+}
+
+export async function extractPages(file: File): Promise<ExtractedPage[]> {
+    const isPdf = file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+    const pages = isPdf ? await extractPdfPages(file) : [{ text: await file.text() }];
+    if (!pages.some(page => page.text.trim() !== '')) {
+        throw new Error(t('services.noExtractableText', { name: file.name }));
+    }
+    return pages;
+}
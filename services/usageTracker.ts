@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ChatMessage, TokenUsage } from '../types';
+import { t, formatNumber } from '../utils/i18n';
+import { isRecord, optionalNumber, parseUsage } from '../utils/guards';
+
+// Every Gemini call is added to a per-day, per-model total in localStorage, so a team sharing one
+// key can see what each day costs. Per-conversation totals come from the usage on each message.
+
+export interface ModelPrice {
+    // US dollars per million tokens.
+    inputPerMillion: number;
+    outputPerMillion: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// Usage of one day, keyed by model.
+export type DailyUsage = Record<string, TokenUsage>;
+
+const USAGE_STORAGE_KEY = 'tokenUsageByDay';
+const PRICES_STORAGE_KEY = 'tokenPrices';
+const BUDGET_STORAGE_KEY = 'dailyCostBudget';
+const USAGE_RETENTION_DAYS = 90;
+
+// Paid-tier list prices for prompts up to 200k tokens; editable because they change over time.
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+    'gemini-2.5-flash': { inputPerMillion: 0.30, outputPerMillion: 2.50 },
+    'gemini-2.5-flash-lite': { inputPerMillion: 0.10, outputPerMillion: 0.40 },
+    'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10.00 },
+};
+
+export const EMPTY_USAGE: TokenUsage = { promptTokens: 0, candidatesTokens: 0, toolUsePromptTokens: 0, thoughtsTokens: 0 };
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+    return {
+        promptTokens: a.promptTokens + b.promptTokens,
+        candidatesTokens: a.candidatesTokens + b.candidatesTokens,
+        toolUsePromptTokens: a.toolUsePromptTokens + b.toolUsePromptTokens,
+        thoughtsTokens: a.thoughtsTokens + b.thoughtsTokens,
+    };
+}
+
+export function totalTokens(usage: TokenUsage): number {
+    return usage.promptTokens + usage.candidatesTokens + usage.toolUsePromptTokens + usage.thoughtsTokens;
+}
+
+/** Estimated cost in US dollars, or null when the model has no entry in the price table. */
+export function estimateCost(usage: TokenUsage, model: string, prices: PriceTable): number | null {
+    const price = prices[model];
+    if (!price) return null;
+    const inputTokens = usage.promptTokens + usage.toolUsePromptTokens;
+    const outputTokens = usage.candidatesTokens + usage.thoughtsTokens;
+    return (inputTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1_000_000;
+}
+
+/** Sums the usage of a conversation's answers, grouped by the model that produced them. */
+export function usageOfMessages(messages: ChatMessage[]): DailyUsage {
+    const byModel: DailyUsage = {};
+    for (const message of messages) {
+        if (!message.usage) continue;
+        const model = message.model || t('services.unknownModel');
+        byModel[model] = addUsage(byModel[model] || EMPTY_USAGE, message.usage);
+    }
+    return byModel;
+}
+
+export interface UsageSummary {
+    tokens: number;
+    // Only covers models with a price; `hasUnpricedModels` says whether some usage was left out.
+    cost: number;
+    hasUnpricedModels: boolean;
+}
+
+export function summarizeUsage(byModel: DailyUsage, prices: PriceTable): UsageSummary {
+    let tokens = 0;
+    let cost = 0;
+    let hasUnpricedModels = false;
+    for (const [model, usage] of Object.entries(byModel)) {
+        tokens += totalTokens(usage);
+        const modelCost = estimateCost(usage, model, prices);
+        if (modelCost === null) hasUnpricedModels = true;
+        else cost += modelCost;
+    }
+    return { tokens, cost, hasUnpricedModels };
+}
+
+/** Local calendar day as YYYY-MM-DD, which also sorts chronologically. */
+function dayKey(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Stored usage and prices may be hand-edited or corrupted; malformed entries are dropped so
+// they cannot turn cost estimates, and with them the budget check, into NaN.
+function readStoredObject(key: string): Record<string, unknown> {
+    try {
+        const stored: unknown = JSON.parse(localStorage.getItem(key) || '{}');
+        return isRecord(stored) ? stored : {};
+    } catch (e) {
+        return {};
+    }
+}
+
+function loadUsageByDay(): Record<string, DailyUsage> {
+    const byDay: Record<string, DailyUsage> = {};
+    for (const [day, byModel] of Object.entries(readStoredObject(USAGE_STORAGE_KEY))) {
+        if (!isRecord(byModel)) continue;
+        byDay[day] = {};
+        for (const [model, value] of Object.entries(byModel)) {
+            const usage = parseUsage(value);
+            if (usage) byDay[day][model] = usage;
+        }
+    }
+    return byDay;
+}
+
+export function loadUsageForDay(date = new Date()): DailyUsage {
+    return loadUsageByDay()[dayKey(date)] || {};
+}
+
+type UsageListener = (today: DailyUsage) => void;
+const listeners = new Set<UsageListener>();
+
+export function subscribeToUsage(listener: UsageListener): () => void {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+}
+
+export function recordUsage(model: string, usage: TokenUsage): void {
+    if (totalTokens(usage) === 0) return;
+    const byDay = loadUsageByDay();
+    const today = dayKey(new Date());
+    byDay[today] = { ...byDay[today], [model]: addUsage(byDay[today]?.[model] || EMPTY_USAGE, usage) };
+
+    const cutoff = dayKey(new Date(Date.now() - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000));
+    for (const day of Object.keys(byDay)) {
+        if (day < cutoff) delete byDay[day];
+    }
+    localStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify(byDay));
+    listeners.forEach(listener => listener(byDay[today]));
+}
+
+function parsePrice(value: unknown): ModelPrice | null {
+    if (!isRecord(value)) return null;
+    const inputPerMillion = optionalNumber(value.inputPerMillion);
+    const outputPerMillion = optionalNumber(value.outputPerMillion);
+    if (inputPerMillion === undefined || outputPerMillion === undefined || inputPerMillion < 0 || outputPerMillion < 0) return null;
+    return { inputPerMillion, outputPerMillion };
+}
+
+export function loadPriceTable(): PriceTable {
+    const prices: PriceTable = { ...DEFAULT_PRICE_TABLE };
+    for (const [model, value] of Object.entries(readStoredObject(PRICES_STORAGE_KEY))) {
+        const price = parsePrice(value);
+        if (price) prices[model] = price;
+    }
+    return prices;
+}
+
+export function savePriceTable(prices: PriceTable): void {
+    localStorage.setItem(PRICES_STORAGE_KEY, JSON.stringify(prices));
+}
+
+/** The daily cost (US dollars) above which sending a question asks for confirmation; null when off. */
+export function loadDailyBudget(): number | null {
+    const stored = Number(localStorage.getItem(BUDGET_STORAGE_KEY));
+    return stored > 0 ? stored : null;
+}
+
+export function saveDailyBudget(budget: number | null): void {
+    if (budget && budget > 0) {
+        localStorage.setItem(BUDGET_STORAGE_KEY, String(budget));
+    } else {
+        localStorage.removeItem(BUDGET_STORAGE_KEY);
+    }
+}
+
+export function formatCost(cost: number): string {
+    return formatNumber(cost, { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: cost < 1 ? 4 : 2 });
+}
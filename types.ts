@@ -5,6 +5,9 @@
 export interface RagStore {
     name: string;
     displayName: string;
+    // ISO 8601 creation time, when the backend reports it.
+    createTime?: string;
+    documentCount?: number;
 }
 
 export interface CustomMetadata {
@@ -23,24 +26,198 @@ export interface Document {
 export interface GroundingChunk {
     retrievedContext?: {
         text?: string;
+        // Display name of the originating document.
+        title?: string;
+        uri?: string;
+        documentName?: string;
+        fileSearchStore?: string;
+        pageNumber?: number;
     };
 }
 
+// Ties a span of the answer to the grounding chunks that support it. Offsets are UTF-8 byte
+// offsets into the answer text, as returned by the API.
+export interface GroundingSupport {
+    segment?: {
+        startIndex?: number;
+        endIndex?: number;
+        text?: string;
+    };
+    groundingChunkIndices?: number[];
+}
+
 export interface QueryResult {
     text: string;
     groundingChunks: GroundingChunk[];
+    groundingSupports?: GroundingSupport[];
+    // Tokens billed for the answer, including any query rewrite; absent for the local backend.
+    usage?: TokenUsage;
+    model?: string;
+}
+
+// Suggested questions for one product found in a store's manuals.
+export interface ExampleQuestionGroup {
+    product: string;
+    questions: string[];
+}
+
+// Model and generation parameters used to answer questions over a store.
+export interface GenerationSettings {
+    model: string;
+    // Unset values leave the model's own default in place.
+    temperature?: number;
+    maxOutputTokens?: number;
+    systemInstruction: string;
+}
+
+// Token counts reported by the API for one or more model calls.
+export interface TokenUsage {
+    promptTokens: number;
+    candidatesTokens: number;
+    // Retrieved File Search passages fed back to the model, billed as input.
+    toolUsePromptTokens: number;
+    // Reasoning tokens, billed as output.
+    thoughtsTokens: number;
+}
+
+export interface ConversationContextOptions {
+    // Maximum number of previous messages sent along with a new question.
+    maxTurns: number;
+    // Approximate token budget for those messages.
+    maxTokens: number;
+    // Rewrite follow-ups into standalone questions before retrieval.
+    rewriteQuery: boolean;
+}
+
+export type IngestionFileStatus = 'queued' | 'uploading' | 'indexing' | 'done' | 'failed' | 'cancelled';
+
+export interface IngestionFileProgress {
+    name: string;
+    size: number;
+    status: IngestionFileStatus;
+    // 1-based attempt currently (or last) running; 0 while still queued.
+    attempt: number;
+    error?: string;
 }
 
 export enum AppStatus {
     Initializing,
     Welcome,
+    Library,
+    Maintenance,
+    Feedback,
+    Evaluation,
     Uploading,
     Chatting,
     Error,
 }
 
+export const RAG_ERROR_KINDS = ['auth', 'quota', 'notFound', 'safety', 'network', 'server', 'cancelled', 'unknown'] as const;
+
+export type RagErrorKind = typeof RAG_ERROR_KINDS[number];
+
+export interface TextPart {
+    text: string;
+}
+
+// An image attached to a question, base64-encoded inline data as the Gemini API takes it.
+export interface ImagePart {
+    inlineData: {
+        mimeType: string;
+        data: string;
+    };
+}
+
+export type MessagePart = TextPart | ImagePart;
+
 export interface ChatMessage {
     role: 'user' | 'model';
-    parts: { text: string }[];
+    // The text comes first; see utils/messageParts.ts for reading it.
+    parts: MessagePart[];
     groundingChunks?: GroundingChunk[];
+    groundingSupports?: GroundingSupport[];
+    // Set when the user stopped a streaming answer before it completed.
+    interrupted?: boolean;
+    // ISO 8601 time the message was created.
+    timestamp?: string;
+    usage?: TokenUsage;
+    // Model that produced the answer, used to price `usage`.
+    model?: string;
+    // Set on a model message whose answer could not be produced.
+    error?: {
+        kind: RagErrorKind;
+        message: string;
+    };
+    feedback?: MessageFeedback;
+}
+
+export interface ChatNode {
+    id: string;
+    // null for the first message of the conversation and its alternatives.
+    parentId: string | null;
+    message: ChatMessage;
+}
+
+// Every version of every message; see utils/chatTree.ts.
+export interface ChatTree {
+    // In creation order, so siblings are numbered from the oldest.
+    nodes: ChatNode[];
+    // Selected child of each node, keyed by node id ('' for the first message).
+    selectedChildIds: Record<string, string>;
+}
+
+export type AnswerRating = 'up' | 'down';
+
+// The user's rating of an answer; `id` is the key of its entry in the feedback log.
+export interface MessageFeedback {
+    id: string;
+    rating: AnswerRating;
+    comment?: string;
+    // The answer cited the wrong part of the manuals, whatever the text says.
+    wrongSource?: boolean;
 }
+
+// A rated answer kept for review, self-contained so it survives the conversation being deleted.
+export interface FeedbackEntry extends MessageFeedback {
+    createdAt: string;
+    updatedAt: string;
+    storeName: string;
+    conversationId: string | null;
+    question: string;
+    answer: string;
+    groundingChunks: GroundingChunk[];
+    model?: string;
+}
+
+export type FeedbackExportFormat = 'csv' | 'json';
+
+export type ConversationExportFormat = 'markdown' | 'html' | 'json';
+
+// Versioned JSON transcript. Bump `version` whenever the shape changes incompatibly.
+export interface ConversationExport {
+    version: 1;
+    exportedAt: string;
+    title: string;
+    storeName: string | null;
+    documents: string[];
+    // The messages shown when exported; `tree` also holds the edited and regenerated versions.
+    messages: ChatMessage[];
+    tree?: ChatTree;
+}
+
+// A chat kept in the conversation history of a RAG store.
+export interface SavedConversation {
+    id: string;
+    storeName: string;
+    title: string;
+    // Set once the user renames the conversation; until then the title follows the first question.
+    titleIsCustom?: boolean;
+    createdAt: string;
+    updatedAt: string;
+    // The active path of `tree`, kept alongside it for summaries. Conversations saved before
+    // branching existed have no tree.
+    messages: ChatMessage[];
+    tree?: ChatTree;
+}
+
+export type ConversationSummary = Omit<SavedConversation, 'messages' | 'tree'> & { messageCount: number, tokenCount: number };
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Conversations are trees: editing a question or regenerating an answer adds a sibling instead of
+// replacing the message, so every version stays reachable. What the chat shows, sends as context
+// and counts is the active path, from the first message down through the selected children.
+
+import { ChatMessage, ChatNode, ChatTree } from '../types';
+import { isRecord } from './guards';
+
+const ROOT_KEY = '';
+
+export const EMPTY_CHAT_TREE: ChatTree = { nodes: [], selectedChildIds: {} };
+
+export interface MessageBranch {
+    // Zero-based position of the message among its siblings, in creation order.
+    index: number;
+    count: number;
+}
+
+export function createChatNodeId(): string {
+    return `message-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Builds an unbranched tree, e.g. for conversations saved before branching existed. */
+export function createChatTree(messages: ChatMessage[]): ChatTree {
+    let tree = EMPTY_CHAT_TREE;
+    let parentId: string | null = null;
+    for (const message of messages) {
+        const id = createChatNodeId();
+        tree = addChatNode(tree, { id, parentId, message });
+        parentId = id;
+    }
+    return tree;
+}
+
+const childrenOf = (tree: ChatTree, parentId: string | null): ChatNode[] =>
+    tree.nodes.filter(node => node.parentId === parentId);
+
+/**
+ * Follows the selected child at each level; where none is selected, the newest one. A selected
+ * id with no node yet, such as an answer still being requested, ends the path.
+ */
+export function getActivePath(tree: ChatTree): ChatNode[] {
+    const path: ChatNode[] = [];
+    let parentId: string | null = null;
+    for (;;) {
+        const children = childrenOf(tree, parentId);
+        const selectedId: string | undefined = tree.selectedChildIds[parentId ?? ROOT_KEY];
+        const next = selectedId ? children.find(node => node.id === selectedId) : children[children.length - 1];
+        if (!next) return path;
+        path.push(next);
+        parentId = next.id;
+    }
+}
+
+export function getBranch(tree: ChatTree, node: ChatNode): MessageBranch {
+    const siblings = childrenOf(tree, node.parentId);
+    return { index: siblings.findIndex(sibling => sibling.id === node.id), count: siblings.length };
+}
+
+/** Adds `node` and makes it the selected child of its parent. */
+export function addChatNode(tree: ChatTree, node: ChatNode): ChatTree {
+    return selectChild({ ...tree, nodes: [...tree.nodes, node] }, node.parentId, node.id);
+}
+
+/** Selects `childId` under `parentId`, whether or not that child has been added yet. */
+export function selectChild(tree: ChatTree, parentId: string | null, childId: string): ChatTree {
+    return { ...tree, selectedChildIds: { ...tree.selectedChildIds, [parentId ?? ROOT_KEY]: childId } };
+}
+
+export function updateChatMessage(tree: ChatTree, id: string, update: (message: ChatMessage) => ChatMessage): ChatTree {
+    return { ...tree, nodes: tree.nodes.map(node => node.id === id ? { ...node, message: update(node.message) } : node) };
+}
+
+/** Selects the sibling `offset` places before or after `id`; the active path below it follows. */
+export function selectSibling(tree: ChatTree, id: string, offset: number): ChatTree {
+    const node = tree.nodes.find(candidate => candidate.id === id);
+    if (!node) return tree;
+    const siblings = childrenOf(tree, node.parentId);
+    const target = siblings[siblings.findIndex(sibling => sibling.id === id) + offset];
+    return target ? selectChild(tree, node.parentId, target.id) : tree;
+}
+
+// A tree read from an export whose structure has been checked but whose messages have not.
+export type UncheckedChatTree = Omit<ChatTree, 'nodes'> & { nodes: (Omit<ChatNode, 'message'> & { message: unknown })[] };
+
+/** Checks the structure of a tree read from an export, where nodes must refer to existing parents. */
+export function isChatTree(value: unknown): value is UncheckedChatTree {
+    if (!isRecord(value) || !Array.isArray(value.nodes)) return false;
+    const { selectedChildIds } = value;
+    if (!isRecord(selectedChildIds) || !Object.values(selectedChildIds).every(id => typeof id === 'string')) return false;
+    const ids = new Set<string>();
+    return value.nodes.every((node: unknown) => {
+        if (!isRecord(node) || typeof node.id !== 'string' || ids.has(node.id)) return false;
+        if (node.parentId !== null && !(typeof node.parentId === 'string' && ids.has(node.parentId))) return false;
+        ids.add(node.id);
+        return true;
+    });
+}
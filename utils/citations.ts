@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GroundingSupport } from '../types';
+
+// Private-use characters delimit citation markers so they survive markdown rendering untouched
+// and can never collide with model output. `renderMarkdown` turns them into clickable superscripts.
+export const CITATION_START = '\uE000';
+export const CITATION_END = '\uE001';
+export const CITATION_PATTERN = /\uE000([\d,]+)\uE001/g;
+
+/** Converts a UTF-8 byte offset, as used by the API's segments, into a string index. */
+function byteOffsetToIndex(text: string, byteOffset: number): number {
+    const bytes = new TextEncoder().encode(text);
+    return new TextDecoder().decode(bytes.slice(0, byteOffset)).length;
+}
+
+/** Returns the string index at which each support's citation marker should be placed. */
+function findSegmentEnd(text: string, support: GroundingSupport, searchFrom: number): number | null {
+    const segment = support.segment;
+    if (!segment) return null;
+    if (segment.text) {
+        const found = text.indexOf(segment.text, searchFrom);
+        if (found !== -1) return found + segment.text.length;
+        const anywhere = text.indexOf(segment.text);
+        if (anywhere !== -1) return anywhere + segment.text.length;
+    }
+    if (segment.endIndex !== undefined) {
+        return Math.min(byteOffsetToIndex(text, segment.endIndex), text.length);
+    }
+    return null;
+}
+
+/**
+ * Inserts a marker after every supported segment listing the (0-based) grounding chunk
+ * indices that back it. Supports ending at the same position are merged into one marker.
+ */
+export function insertCitationMarkers(text: string, supports: GroundingSupport[] = []): string {
+    const markers = new Map<number, Set<number>>();
+    let searchFrom = 0;
+    for (const support of supports) {
+        const indices = support.groundingChunkIndices || [];
+        if (indices.length === 0) continue;
+        const end = findSegmentEnd(text, support, searchFrom);
+        if (end === null) continue;
+        searchFrom = end;
+        const existing = markers.get(end) || new Set<number>();
+        indices.forEach(index => existing.add(index));
+        markers.set(end, existing);
+    }
+
+    let result = text;
+    for (const position of Array.from(markers.keys()).sort((a, b) => b - a)) {
+        const indices = Array.from(markers.get(position)!).sort((a, b) => a - b);
+        result = `${result.slice(0, position)}${CITATION_START}${indices.join(',')}${CITATION_END}${result.slice(position)}`;
+    }
+    return result;
+}
+
@@ -0,0 +1,220 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ChatMessage, ChatNode, ChatTree, ConversationExport, ConversationExportFormat, MessageFeedback, RAG_ERROR_KINDS, RagErrorKind } from '../types';
+import { insertCitationMarkers, CITATION_PATTERN } from './citations';
+import { renderMarkdown, escapeHtml } from './markdown';
+import { getSourceTitle, getSourceLocation, groupSourcesByDocument } from './sources';
+import { t, getLanguage, formatDateTime, MessageKey } from './i18n';
+import { downloadFile } from './download';
+import { getActivePath, getBranch, isChatTree, MessageBranch } from './chatTree';
+import { getMessageText, getMessageImages, toDataUrl, sanitizeParts, isTextPart } from './messageParts';
+import { isRecord, optionalString, parseGroundingChunk, parseGroundingSupport, parseUsage } from './guards';
+
+const ROLE_LABEL_KEYS: Record<ChatMessage['role'], MessageKey> = { user: 'export.you', model: 'export.model' };
+
+export function createConversationExport(title: string, storeName: string | null, documents: string[], tree: ChatTree): ConversationExport {
+    return {
+        version: 1,
+        exportedAt: new Date().toISOString(),
+        title,
+        storeName,
+        documents,
+        messages: getActivePath(tree).map(node => node.message),
+        tree,
+    };
+}
+
+// Markdown and HTML show the exported branch only, noting which version each edited message is.
+function branchesOf(conversation: ConversationExport): (MessageBranch | undefined)[] {
+    const tree = conversation.tree;
+    return tree ? getActivePath(tree).map(node => getBranch(tree, node)) : [];
+}
+
+function branchLabel(branch?: MessageBranch): string {
+    return branch && branch.count > 1 ? t('export.version', { index: branch.index + 1, count: branch.count }) : '';
+}
+
+function formatTimestamp(timestamp?: string): string {
+    return timestamp ? formatDateTime(timestamp) : '';
+}
+
+function textWithCitations(message: ChatMessage): string {
+    const text = getMessageText(message);
+    return message.groundingSupports?.length ? insertCitationMarkers(text, message.groundingSupports) : text;
+}
+
+function excerpt(text: string, maxLength = 500): string {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength)}…` : singleLine;
+}
+
+function toMarkdown(conversation: ConversationExport): string {
+    const footnotes: string[] = [];
+    const branches = branchesOf(conversation);
+    const body = conversation.messages.map((message, messageIndex) => {
+        // Footnote labels are unique per message and chunk so repeated citations share one note.
+        const label = (chunkIndex: number) => `m${messageIndex + 1}-${chunkIndex + 1}`;
+        const text = textWithCitations(message).replace(CITATION_PATTERN, (_, indices: string) =>
+            indices.split(',').map(index => `[^${label(Number(index))}]`).join('')
+        );
+        message.groundingChunks?.forEach((chunk, chunkIndex) => {
+            if (!chunk.retrievedContext?.text) return;
+            const location = getSourceLocation(chunk);
+            footnotes.push(`[^${label(chunkIndex)}]: **${getSourceTitle(chunk)}**${location ? ` (${location})` : ''}: ${excerpt(chunk.retrievedContext.text)}`);
+        });
+        const heading = [t(ROLE_LABEL_KEYS[message.role]), formatTimestamp(message.timestamp), branchLabel(branches[messageIndex])].filter(Boolean).join(' · ');
+        const images = getMessageImages(message).map(image => `![${t('export.image')}](${toDataUrl(image)})\n\n`).join('');
+        return `### ${heading}\n\n${images}${text}${message.interrupted ? `\n\n${t('export.interruptedMarkdown')}` : ''}`;
+    });
+
+    const header = [
+        `# ${conversation.title}`,
+        '',
+        t('export.exportedAt', { date: formatTimestamp(conversation.exportedAt) }),
+        conversation.storeName ? t('export.store', { name: `\`${conversation.storeName}\`` }) : '',
+        conversation.documents.length > 0 ? t('export.documents', { names: conversation.documents.join(', ') }) : '',
+    ].filter((line, index) => index < 2 || line !== '').join('\n');
+
+    return `${header}\n\n---\n\n${body.join('\n\n---\n\n')}\n${footnotes.length > 0 ? `\n---\n\n${footnotes.join('\n')}\n` : ''}`;
+}
+
+const HTML_STYLES = `
+body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #0f172a; line-height: 1.5; }
+header { border-bottom: 1px solid #cbd5e1; margin-bottom: 1.5rem; }
+.meta { color: #64748b; font-size: .875rem; }
+.message { padding: .75rem 1rem; border-radius: .75rem; margin: 1rem 0; }
+.user { background: #cffafe; margin-left: 4rem; }
+.model { background: #f1f5f9; margin-right: 4rem; }
+.role { font-weight: 600; font-size: .875rem; }
+.sources { font-size: .8rem; border-top: 1px solid #cbd5e1; margin-top: .75rem; padding-top: .5rem; }
+.sources blockquote { margin: .25rem 0 .5rem 1rem; color: #475569; }
+table { border-collapse: collapse; } th, td { border: 1px solid #cbd5e1; padding: .25rem .5rem; }
+pre { background: #e2e8f0; padding: .75rem; overflow-x: auto; }
+sup a { text-decoration: none; }
+.photo { display: block; max-width: 16rem; border-radius: .5rem; margin: .5rem 0; }
+`;
+
+function toHtml(conversation: ConversationExport): string {
+    const branches = branchesOf(conversation);
+    const messages = conversation.messages.map((message, messageIndex) => {
+        const anchor = (chunkIndex: number) => `source-${messageIndex + 1}-${chunkIndex + 1}`;
+        const body = renderMarkdown(textWithCitations(message), {
+            renderCitation: indices => indices.map(index => `<sup><a href="#${anchor(index)}">[${index + 1}]</a></sup>`).join(''),
+        });
+        const images = getMessageImages(message).map(image => `<img class="photo" src="${escapeHtml(toDataUrl(image))}" alt="${escapeHtml(t('export.image'))}" />`).join('');
+        const sources = groupSourcesByDocument(message.groundingChunks).map(group =>
+            `<p><strong>${escapeHtml(group.title)}</strong></p>` + group.sources.map(source =>
+                `<div id="${anchor(source.index)}">[${source.index + 1}]${source.location ? ` ${escapeHtml(source.location)}` : ''}<blockquote>${escapeHtml(excerpt(source.chunk.retrievedContext?.text || ''))}</blockquote></div>`
+            ).join('')
+        ).join('');
+        return `<section class="message ${message.role}">
+<div class="role">${t(ROLE_LABEL_KEYS[message.role])} <span class="meta">${escapeHtml([formatTimestamp(message.timestamp), branchLabel(branches[messageIndex])].filter(Boolean).join(' · '))}</span></div>
+${images}${body}${message.interrupted ? `<p class="meta"><em>${t('export.interrupted')}</em></p>` : ''}
+${sources ? `<div class="sources">${sources}</div>` : ''}
+</section>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="${getLanguage()}">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(conversation.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(conversation.title)}</h1>
+<p class="meta">${escapeHtml(t('export.exportedAt', { date: formatTimestamp(conversation.exportedAt) }))}${conversation.storeName ? ` · ${escapeHtml(t('export.store', { name: conversation.storeName }))}` : ''}</p>
+${conversation.documents.length > 0 ? `<p class="meta">${escapeHtml(t('export.documents', { names: conversation.documents.join(', ') }))}</p>` : ''}
+</header>
+${messages}
+</body>
+</html>
+`;
+}
+
+const FORMATS: Record<ConversationExportFormat, { extension: string, mimeType: string, serialize: (conversation: ConversationExport) => string }> = {
+    markdown: { extension: 'md', mimeType: 'text/markdown', serialize: toMarkdown },
+    html: { extension: 'html', mimeType: 'text/html', serialize: toHtml },
+    json: { extension: 'json', mimeType: 'application/json', serialize: conversation => JSON.stringify(conversation, null, 2) },
+};
+
+export function downloadConversation(conversation: ConversationExport, format: ConversationExportFormat): void {
+    const { extension, mimeType, serialize } = FORMATS[format];
+    const titleCleaned = conversation.title.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+    downloadFile(serialize(conversation), `${t('export.fileName', { title: titleCleaned })}.${extension}`, mimeType);
+}
+
+const isRagErrorKind = (value: unknown): value is RagErrorKind => RAG_ERROR_KINDS.some(kind => kind === value);
+
+function parseFeedback(value: unknown): MessageFeedback | undefined {
+    if (!isRecord(value) || typeof value.id !== 'string' || (value.rating !== 'up' && value.rating !== 'down')) return undefined;
+    return { id: value.id, rating: value.rating, comment: optionalString(value.comment), wrongSource: value.wrongSource === true || undefined };
+}
+
+/**
+ * Rebuilds a message read from an export or from storage, keeping only fields of the expected shape. Attached images
+ * end up in `src` attributes, so only well-formed image parts are kept. Returns null for anything
+ * that is not a message with text.
+ */
+export function parseChatMessage(value: unknown): ChatMessage | null {
+    if (!isRecord(value) || (value.role !== 'user' && value.role !== 'model') || !Array.isArray(value.parts)) return null;
+    const parts = sanitizeParts(value.parts);
+    if (!parts[0] || !isTextPart(parts[0])) return null;
+    const error = value.error;
+    return {
+        role: value.role,
+        parts,
+        groundingChunks: Array.isArray(value.groundingChunks) ? value.groundingChunks.map(parseGroundingChunk) : undefined,
+        groundingSupports: Array.isArray(value.groundingSupports) ? value.groundingSupports.map(parseGroundingSupport) : undefined,
+        interrupted: value.interrupted === true || undefined,
+        timestamp: optionalString(value.timestamp),
+        usage: parseUsage(value.usage),
+        model: optionalString(value.model),
+        error: isRecord(error) && isRagErrorKind(error.kind) && typeof error.message === 'string' ? { kind: error.kind, message: error.message } : undefined,
+        feedback: parseFeedback(value.feedback),
+    };
+}
+
+// Exports made before branching existed have no tree; a tree that does not hold together is dropped.
+function parseTree(value: unknown): ChatTree | undefined {
+    if (!isChatTree(value)) return undefined;
+    const nodes: ChatNode[] = [];
+    for (const node of value.nodes) {
+        const message = parseChatMessage(node.message);
+        if (!message) return undefined;
+        nodes.push({ id: node.id, parentId: node.parentId, message });
+    }
+    return { nodes, selectedChildIds: value.selectedChildIds };
+}
+
+/** Parses and validates a JSON export, throwing a user-facing error if it is not one. */
+export function parseConversationExport(json: string): ConversationExport {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch (e) {
+        throw new Error(t('export.invalidJson'));
+    }
+    if (!isRecord(data) || !Array.isArray(data.messages)) {
+        throw new Error(t('export.notAnExport'));
+    }
+    if (data.version !== 1) {
+        throw new Error(t('export.unsupportedVersion', { version: String(data.version) }));
+    }
+    const tree = parseTree(data.tree);
+    const messages: ChatMessage[] = tree
+        ? getActivePath(tree).map(node => node.message)
+        : data.messages.map(parseChatMessage).filter((message): message is ChatMessage => message !== null);
+    return {
+        version: 1,
+        exportedAt: optionalString(data.exportedAt) ?? new Date().toISOString(),
+        title: optionalString(data.title) ?? t('export.importedTitle'),
+        storeName: optionalString(data.storeName) ?? null,
+        documents: Array.isArray(data.documents) ? data.documents.filter((d): d is string => typeof d === 'string') : [],
+        messages,
+        tree,
+    };
+}
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { FeedbackEntry, FeedbackExportFormat } from '../types';
+import { getSourceTitle, getSourceLocation } from './sources';
+import { downloadFile } from './download';
+
+// Column names are fixed identifiers rather than translated labels, so spreadsheets and scripts
+// built on the export keep working whatever language the interface is in.
+const CSV_COLUMNS = ['createdAt', 'updatedAt', 'rating', 'wrongSource', 'comment', 'storeName', 'model', 'question', 'answer', 'sources'] as const;
+
+function describeSources(entry: FeedbackEntry): string {
+    return entry.groundingChunks.map((chunk, index) => {
+        const location = getSourceLocation(chunk);
+        return `[${index + 1}] ${getSourceTitle(chunk)}${location ? ` (${location})` : ''}`;
+    }).join('; ');
+}
+
+// Spreadsheets run cells starting with these as formulas; questions, comments and answers are
+// free text, so such values are prefixed with an apostrophe to keep them plain text.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvField(value: string): string {
+    const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+    return text !== value || /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(entries: FeedbackEntry[]): string {
+    const rows = entries.map(entry => {
+        const values: Record<typeof CSV_COLUMNS[number], string> = {
+            createdAt: entry.createdAt,
+            updatedAt: entry.updatedAt,
+            rating: entry.rating,
+            wrongSource: entry.wrongSource ? 'true' : 'false',
+            comment: entry.comment || '',
+            storeName: entry.storeName,
+            model: entry.model || '',
+            question: entry.question,
+            answer: entry.answer,
+            sources: describeSources(entry),
+        };
+        return CSV_COLUMNS.map(column => csvField(values[column])).join(',');
+    });
+    // CRLF line endings and a byte order mark let Excel open the file with the right encoding.
+    return `\uFEFF${[CSV_COLUMNS.join(','), ...rows].join('\r\n')}\r\n`;
+}
+
+const FORMATS: Record<FeedbackExportFormat, { extension: string, mimeType: string, serialize: (entries: FeedbackEntry[]) => string }> = {
+    csv: { extension: 'csv', mimeType: 'text/csv', serialize: toCsv },
+    json: { extension: 'json', mimeType: 'application/json', serialize: entries => JSON.stringify(entries, null, 2) },
+};
+
+export function downloadFeedback(entries: FeedbackEntry[], format: FeedbackExportFormat): void {
+    const { extension, mimeType, serialize } = FORMATS[format];
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(serialize(entries), `feedback_${date}.${extension}`, mimeType);
+}
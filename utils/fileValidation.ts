@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Document } from '../types';
+import { t } from './i18n';
+
+// Client-side checks run before any upload starts, so unsupported or duplicate files are
+// flagged next to the file instead of failing halfway through ingestion.
+
+const SUPPORTED_FILE_TYPES: { extension: string, mimeTypes: string[] }[] = [
+    { extension: '.pdf', mimeTypes: ['application/pdf'] },
+    { extension: '.txt', mimeTypes: ['text/plain'] },
+    { extension: '.md', mimeTypes: ['text/markdown', 'text/x-markdown'] },
+];
+
+export const ACCEPTED_FILE_TYPES = SUPPORTED_FILE_TYPES.map(type => type.extension).join(',');
+
+// File Search rejects documents larger than 100 MB.
+export const MAX_FILE_SIZE_BYTES = 100 * 1024 * 1024;
+
+/** Custom metadata key under which every uploaded document records its content hash. */
+export const CONTENT_HASH_METADATA_KEY = 'sha256';
+
+export interface FileCheck {
+    sha256?: string;
+    error?: string;
+}
+
+export function validateFile(file: File): string | null {
+    const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+    const type = SUPPORTED_FILE_TYPES.find(t => t.extension === extension);
+    // Browsers often report an empty MIME type for Markdown, so the extension decides when it is missing.
+    if (!type || (file.type !== '' && !type.mimeTypes.includes(file.type))) {
+        return t('services.unsupportedFormat', { type: file.type ? ` (${file.type})` : '' });
+    }
+    if (file.size === 0) {
+        return t('services.emptyFile');
+    }
+    if (file.size > MAX_FILE_SIZE_BYTES) {
+        return t('services.fileTooLarge', { size: MAX_FILE_SIZE_BYTES / (1024 * 1024) });
+    }
+    return null;
+}
+
+export async function hashFile(file: File): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/** Validates a file and, when it is acceptable, hashes its content. */
+export async function checkFile(file: File): Promise<FileCheck> {
+    const error = validateFile(file);
+    if (error) return { error };
+    try {
+        return { sha256: await hashFile(file) };
+    } catch (err) {
+        return { error: t('services.fileUnreadable', { message: err instanceof Error ? err.message : String(err) }) };
+    }
+}
+
+export function getContentHash(document: Document): string | undefined {
+    return document.customMetadata?.find(meta => meta.key === CONTENT_HASH_METADATA_KEY)?.stringValue;
+}
+
+export function findDocumentWithHash(documents: Document[], sha256: string): Document | undefined {
+    return documents.find(document => getContentHash(document) === sha256);
+}
+
+/**
+ * Flags content that is already in the store, or that an earlier file of the same selection
+ * already has, e.g. the same manual dropped twice under different names.
+ */
+export function findDuplicateIssue(sha256: string, existingDocuments: Document[], earlierFiles: { name: string, sha256?: string }[] = []): string | null {
+    const document = findDocumentWithHash(existingDocuments, sha256);
+    if (document) return t('services.duplicateInStore', { name: document.displayName });
+    const file = earlierFiles.find(other => other.sha256 === sha256);
+    return file ? t('services.duplicateOf', { name: file.name }) : null;
+}
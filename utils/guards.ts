@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Narrowing helpers for data read from files and storage, which is `unknown` until checked.
+
+import { ExampleQuestionGroup, GroundingChunk, GroundingSupport, TokenUsage } from '../types';
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const optionalString = (value: unknown): string | undefined => typeof value === 'string' ? value : undefined;
+
+export const optionalNumber = (value: unknown): number | undefined => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+export function parseGroundingChunk(value: unknown): GroundingChunk {
+    if (!isRecord(value) || !isRecord(value.retrievedContext)) return {};
+    const context = value.retrievedContext;
+    return {
+        retrievedContext: {
+            text: optionalString(context.text),
+            title: optionalString(context.title),
+            uri: optionalString(context.uri),
+            documentName: optionalString(context.documentName),
+            fileSearchStore: optionalString(context.fileSearchStore),
+            pageNumber: optionalNumber(context.pageNumber),
+        },
+    };
+}
+
+export function parseGroundingSupport(value: unknown): GroundingSupport {
+    if (!isRecord(value)) return {};
+    const segment = isRecord(value.segment) ? value.segment : null;
+    return {
+        segment: segment ? { startIndex: optionalNumber(segment.startIndex), endIndex: optionalNumber(segment.endIndex), text: optionalString(segment.text) } : undefined,
+        groundingChunkIndices: Array.isArray(value.groundingChunkIndices)
+            ? value.groundingChunkIndices.filter((index): index is number => Number.isInteger(index) && index >= 0)
+            : undefined,
+    };
+}
+
+export function parseUsage(value: unknown): TokenUsage | undefined {
+    if (!isRecord(value)) return undefined;
+    const [promptTokens, candidatesTokens, toolUsePromptTokens, thoughtsTokens] =
+        [value.promptTokens, value.candidatesTokens, value.toolUsePromptTokens, value.thoughtsTokens].map(count => optionalNumber(count) ?? 0);
+    return { promptTokens, candidatesTokens, toolUsePromptTokens, thoughtsTokens };
+}
+
+export function parseExampleQuestionGroup(value: unknown): ExampleQuestionGroup | null {
+    if (!isRecord(value) || typeof value.product !== 'string' || !Array.isArray(value.questions)) return null;
+    return {
+        product: value.product.trim(),
+        questions: value.questions.filter((question): question is string => typeof question === 'string' && question.trim() !== ''),
+    };
+}
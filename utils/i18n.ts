@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import it from '../locales/it';
+import en from '../locales/en';
+
+// UI strings live in per-language catalogs under `locales/`, keyed by the Italian catalog. The
+// current language is module state rather than React context so services (errors, prompts)
+// can translate too; App re-renders the whole tree when it changes.
+
+export type Language = 'it' | 'en';
+export type MessageKey = keyof typeof it;
+export type MessageParams = Record<string, string | number>;
+
+export const LANGUAGES: { code: Language, label: string, locale: string }[] = [
+    { code: 'it', label: 'Italiano', locale: 'it-IT' },
+    { code: 'en', label: 'English', locale: 'en-US' },
+];
+
+const CATALOGS: Record<Language, Record<MessageKey, string>> = { it, en };
+const STORAGE_KEY = 'uiLanguage';
+
+function detectLanguage(): Language {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (LANGUAGES.some(language => language.code === stored)) return stored as Language;
+    return navigator.language.toLowerCase().startsWith('it') ? 'it' : 'en';
+}
+
+let currentLanguage: Language = detectLanguage();
+document.documentElement.lang = currentLanguage;
+
+export function getLanguage(): Language {
+    return currentLanguage;
+}
+
+export function setLanguage(language: Language): void {
+    currentLanguage = language;
+    localStorage.setItem(STORAGE_KEY, language);
+    document.documentElement.lang = language;
+}
+
+export function getLocale(): string {
+    return LANGUAGES.find(language => language.code === currentLanguage)!.locale;
+}
+
+export function formatNumber(value: number, options?: Intl.NumberFormatOptions): string {
+    return value.toLocaleString(getLocale(), options);
+}
+
+export function formatDateTime(date: Date | string, options?: Intl.DateTimeFormatOptions): string {
+    return new Date(date).toLocaleString(getLocale(), options);
+}
+
+/** Joins items as a sentence, e.g. "a, b e c" or "a, b, and c". */
+export function formatList(items: string[]): string {
+    return new Intl.ListFormat(getLocale(), { type: 'conjunction' }).format(items);
+}
+
+/** Translates `key`, replacing `{name}` placeholders; numeric parameters are formatted for the locale. */
+export function t(key: MessageKey, params?: MessageParams): string {
+    const template = CATALOGS[currentLanguage][key] ?? it[key];
+    if (!params) return template;
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+        const value = params[name];
+        if (value === undefined) return match;
+        return typeof value === 'number' ? formatNumber(value) : value;
+    });
+}
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ImagePart } from '../types';
+import { t } from './i18n';
+
+// Phone photos are several megabytes; this is plenty to read a display or a warning light and
+// keeps requests and saved conversations small.
+const MAX_IMAGE_SIDE = 1536;
+const JPEG_QUALITY = 0.85;
+
+export async function loadImage(blob: Blob): Promise<ImageBitmap> {
+    try {
+        return await createImageBitmap(blob);
+    } catch (err) {
+        throw new Error(t('images.unreadable'));
+    }
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type = 'image/jpeg', quality = JPEG_QUALITY): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(t('images.unreadable'))), type, quality);
+    });
+}
+
+function blobToBase64(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => {
+            const dataUrl = reader.result as string;
+            resolve(dataUrl.slice(dataUrl.indexOf(',') + 1));
+        };
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+// Share of the (rotated) image trimmed from each side, from 0 to 1.
+export interface CropBox {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+}
+
+export const NO_CROP: CropBox = { top: 0, right: 0, bottom: 0, left: 0 };
+
+/** Turns a rotation and the crop drawn on the rotated image a quarter turn further. */
+export function rotateQuarter(rotation: Rotation, crop: CropBox, clockwise: boolean): { rotation: Rotation, crop: CropBox } {
+    return clockwise
+        ? { rotation: ((rotation + 90) % 360) as Rotation, crop: { top: crop.left, right: crop.top, bottom: crop.right, left: crop.bottom } }
+        : { rotation: ((rotation + 270) % 360) as Rotation, crop: { top: crop.right, right: crop.bottom, bottom: crop.left, left: crop.top } };
+}
+
+/** Rotates an image clockwise, crops it, and scales it down so its longer side is at most `maxSide`. */
+export async function transformImage(blob: Blob, rotation: Rotation, crop: CropBox, maxSide: number): Promise<HTMLCanvasElement> {
+    const image = await loadImage(blob);
+    const isSideways = rotation === 90 || rotation === 270;
+    const rotatedWidth = isSideways ? image.height : image.width;
+    const rotatedHeight = isSideways ? image.width : image.height;
+    const cropWidth = rotatedWidth * (1 - crop.left - crop.right);
+    const cropHeight = rotatedHeight * (1 - crop.top - crop.bottom);
+    const scale = Math.min(1, maxSide / Math.max(cropWidth, cropHeight));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(cropWidth * scale));
+    canvas.height = Math.max(1, Math.round(cropHeight * scale));
+    const context = canvas.getContext('2d')!;
+    context.scale(scale, scale);
+    context.translate(rotatedWidth * (0.5 - crop.left), rotatedHeight * (0.5 - crop.top));
+    context.rotate(rotation * Math.PI / 180);
+    context.drawImage(image, -image.width / 2, -image.height / 2);
+    image.close();
+    return canvas;
+}
+
+/** Reads a photo into an inline image part, scaled down and re-encoded as JPEG. */
+export async function imageToPart(blob: Blob): Promise<ImagePart> {
+    const canvas = await transformImage(blob, 0, NO_CROP, MAX_IMAGE_SIDE);
+    return { inlineData: { mimeType: 'image/jpeg', data: await blobToBase64(await canvasToBlob(canvas)) } };
+}
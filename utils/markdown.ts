@@ -0,0 +1,236 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CITATION_PATTERN } from './citations';
+
+// Markdown renderer for model answers and retrieved manual text. Everything is HTML-escaped
+// before any markup is produced, so the output is safe for `dangerouslySetInnerHTML`; only the
+// tags generated here (and links with an allow-listed scheme) ever reach the page.
+
+export interface MarkdownOptions {
+    /** Renders a citation marker inserted by `insertCitationMarkers`. Markers are dropped when omitted. */
+    renderCitation?: (chunkIndices: number[]) => string;
+}
+
+type ListType = 'ul' | 'ol';
+
+interface ListItem {
+    indent: number;
+    type: ListType;
+    content: string;
+}
+
+const FENCE = /^\s*(```+|~~~+)\s*([\w+#.-]*)\s*$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const BLOCKQUOTE = /^\s{0,3}>\s?(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const SAFE_URL = /^(https?:\/\/|mailto:|#|\/)/i;
+
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function renderInline(text: string, options: MarkdownOptions): string {
+    let html = escapeHtml(text);
+
+    // Code spans and generated link markup are set aside so the emphasis and citation passes
+    // never see them, e.g. underscores in a URL or a citation marker inside an `href`.
+    const protectedSpans: string[] = [];
+    const protect = (span: string) => {
+        protectedSpans.push(span);
+        return `\u0000${protectedSpans.length - 1}\u0000`;
+    };
+    const linkTag = (url: string) => `<a href="${url}" target="_blank" rel="noopener noreferrer" class="text-hitech-accent-hover underline">`;
+
+    html = html
+        .replace(/`([^`]+)`/g, (_, code: string) => protect(`<code class="bg-hitech-surface/50 px-1 py-0.5 rounded-sm font-mono text-sm">${code}</code>`))
+        .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (match, label: string, url: string) => {
+            const decodedUrl = url.replace(/&amp;/g, '&');
+            return SAFE_URL.test(decodedUrl) ? `${protect(linkTag(url))}${label}</a>` : label;
+        })
+        .replace(/&lt;(https?:\/\/[^\s]+?)&gt;/g, (_, url: string) => protect(`${linkTag(url)}${url}</a>`))
+        .replace(/\*\*(.+?)\*\*|__(.+?)__/g, '<strong>$1$2</strong>')
+        .replace(/(^|[^*])\*(?!\s)([^*]+?)\*(?!\*)/g, '$1<em>$2</em>')
+        // Underscores only count at word boundaries so identifiers like ERR_01_A stay intact.
+        .replace(/(^|[^\w])_(?!\s)([^_]+?)_(?!\w)/g, '$1<em>$2</em>')
+        .replace(/~~(.+?)~~/g, '<del>$1</del>');
+
+    html = html.replace(CITATION_PATTERN, (_, indices: string) =>
+        options.renderCitation ? options.renderCitation(indices.split(',').map(Number)) : ''
+    );
+    return html.replace(/\u0000(\d+)\u0000/g, (_, index: string) => protectedSpans[Number(index)]);
+}
+
+function splitTableRow(line: string): string[] {
+    return line
+        .trim()
+        .replace(/^\|/, '')
+        .replace(/(?<!\\)\|$/, '')
+        .split(/(?<!\\)\|/)
+        .map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function renderTable(header: string, separator: string, rows: string[], options: MarkdownOptions): string {
+    const alignments = splitTableRow(separator).map(cell => {
+        if (cell.startsWith(':') && cell.endsWith(':')) return 'text-center';
+        if (cell.endsWith(':')) return 'text-right';
+        return 'text-left';
+    });
+    const headerCells = splitTableRow(header);
+    const cell = (tag: 'th' | 'td', content: string, index: number) =>
+        `<${tag} class="border border-hitech-border px-3 py-1.5 ${alignments[index] || 'text-left'}${tag === 'th' ? ' font-semibold bg-hitech-surface-hover' : ''}">${renderInline(content, options)}</${tag}>`;
+
+    let html = '<div class="overflow-x-auto my-3"><table class="min-w-full text-sm border-collapse">';
+    html += `<thead><tr>${headerCells.map((content, index) => cell('th', content, index)).join('')}</tr></thead><tbody>`;
+    for (const row of rows) {
+        const cells = splitTableRow(row);
+        html += `<tr>${headerCells.map((_, index) => cell('td', cells[index] || '', index)).join('')}</tr>`;
+    }
+    return html + '</tbody></table></div>';
+}
+
+function renderList(items: ListItem[], options: MarkdownOptions): string {
+    const openTag = (type: ListType) => type === 'ol'
+        ? '<ol class="list-decimal pl-6 my-2 space-y-1">'
+        : '<ul class="list-disc pl-6 my-2 space-y-1">';
+
+    let html = '';
+    const stack: { indent: number, type: ListType }[] = [];
+    for (const item of items) {
+        let top = stack[stack.length - 1];
+        while (top && item.indent < top.indent) {
+            html += `</li></${top.type}>`;
+            stack.pop();
+            top = stack[stack.length - 1];
+        }
+        if (top && item.indent === top.indent && item.type !== top.type) {
+            html += `</li></${top.type}>`;
+            stack.pop();
+            top = stack[stack.length - 1];
+        }
+        if (!top || item.indent > top.indent) {
+            html += openTag(item.type);
+            stack.push({ indent: item.indent, type: item.type });
+        } else {
+            html += '</li>';
+        }
+        html += `<li>${renderInline(item.content, options)}`;
+    }
+    while (stack.length > 0) {
+        html += `</li></${stack.pop()!.type}>`;
+    }
+    return html;
+}
+
+function isBlockStart(line: string, nextLine: string | undefined): boolean {
+    return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || LIST_ITEM.test(line) || BLOCKQUOTE.test(line)
+        || (line.includes('|') && nextLine !== undefined && TABLE_SEPARATOR.test(nextLine));
+}
+
+function renderBlocks(lines: string[], options: MarkdownOptions): string {
+    let html = '';
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (line.trim() === '') {
+            i++;
+            continue;
+        }
+
+        const fence = line.match(FENCE);
+        if (fence) {
+            const code: string[] = [];
+            i++;
+            // An unterminated fence (e.g. while an answer is still streaming) runs to the end.
+            while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+                code.push(lines[i]);
+                i++;
+            }
+            i++;
+            const language = fence[2] ? ` data-language="${escapeHtml(fence[2])}"` : '';
+            html += `<pre class="bg-hitech-dark/60 border border-hitech-border rounded-md p-3 my-3 overflow-x-auto"><code class="font-mono text-sm"${language}>${escapeHtml(code.join('\n'))}</code></pre>`;
+            continue;
+        }
+
+        const heading = line.match(HEADING);
+        if (heading) {
+            const level = heading[1].length;
+            const size = level === 1 ? 'text-xl' : level === 2 ? 'text-lg' : 'text-base';
+            html += `<h${level} class="${size} font-bold mt-4 mb-2">${renderInline(heading[2], options)}</h${level}>`;
+            i++;
+            continue;
+        }
+
+        if (RULE.test(line)) {
+            html += '<hr class="my-4 border-hitech-border" />';
+            i++;
+            continue;
+        }
+
+        if (line.includes('|') && i + 1 < lines.length && TABLE_SEPARATOR.test(lines[i + 1])) {
+            const rows: string[] = [];
+            let j = i + 2;
+            while (j < lines.length && lines[j].includes('|') && lines[j].trim() !== '') {
+                rows.push(lines[j]);
+                j++;
+            }
+            html += renderTable(line, lines[i + 1], rows, options);
+            i = j;
+            continue;
+        }
+
+        if (BLOCKQUOTE.test(line)) {
+            const quoted: string[] = [];
+            while (i < lines.length && BLOCKQUOTE.test(lines[i])) {
+                quoted.push(lines[i].match(BLOCKQUOTE)![1]);
+                i++;
+            }
+            html += `<blockquote class="border-l-4 border-hitech-border pl-4 my-3 text-hitech-text-secondary">${renderBlocks(quoted, options)}</blockquote>`;
+            continue;
+        }
+
+        if (LIST_ITEM.test(line)) {
+            const items: ListItem[] = [];
+            while (i < lines.length) {
+                const item = lines[i].match(LIST_ITEM);
+                if (item) {
+                    items.push({ indent: item[1].replace(/\t/g, '    ').length, type: /\d/.test(item[2]) ? 'ol' : 'ul', content: item[3] });
+                } else if (lines[i].trim() !== '' && /^\s+/.test(lines[i]) && items.length > 0) {
+                    // Indented continuation of the previous item.
+                    items[items.length - 1].content += ` ${lines[i].trim()}`;
+                } else if (lines[i].trim() === '' && i + 1 < lines.length && LIST_ITEM.test(lines[i + 1])) {
+                    // A blank line between items keeps the list going.
+                } else {
+                    break;
+                }
+                i++;
+            }
+            html += renderList(items, options);
+            continue;
+        }
+
+        const paragraph: string[] = [];
+        while (i < lines.length && lines[i].trim() !== '' && (paragraph.length === 0 || !isBlockStart(lines[i], lines[i + 1]))) {
+            paragraph.push(lines[i]);
+            i++;
+        }
+        html += `<p class="my-2">${paragraph.map(text => renderInline(text, options)).join('<br/>')}</p>`;
+    }
+
+    return html;
+}
+
+export function renderMarkdown(text: string, options: MarkdownOptions = {}): string {
+    if (!text) return '';
+    return renderBlocks(text.replace(/\r\n?/g, '\n').split('\n'), options);
+}
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ChatMessage, ImagePart, MessagePart, TextPart } from '../types';
+import { isRecord } from './guards';
+
+const IMAGE_MIME_TYPE_PATTERN = /^image\/[a-z0-9.+-]+$/i;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+export const isTextPart = (part: unknown): part is TextPart => isRecord(part) && typeof part.text === 'string';
+
+export const isImagePart = (part: unknown): part is ImagePart =>
+    isRecord(part) && isRecord(part.inlineData)
+    && typeof part.inlineData.mimeType === 'string' && IMAGE_MIME_TYPE_PATTERN.test(part.inlineData.mimeType)
+    && typeof part.inlineData.data === 'string';
+
+export function getMessageText(message: ChatMessage): string {
+    return message.parts.filter(isTextPart).map(part => part.text).join('\n');
+}
+
+export function getMessageImages(message: ChatMessage): ImagePart[] {
+    return message.parts.filter(isImagePart);
+}
+
+export function toDataUrl(image: ImagePart): string {
+    return `data:${image.inlineData.mimeType};base64,${image.inlineData.data}`;
+}
+
+/** Keeps the parts of an imported message that can be shown safely, dropping anything else. */
+export function sanitizeParts(parts: unknown[]): MessagePart[] {
+    return parts.flatMap((part): MessagePart[] => {
+        if (isTextPart(part)) return [{ text: part.text }];
+        if (isImagePart(part) && BASE64_PATTERN.test(part.inlineData.data)) return [{ inlineData: { mimeType: part.inlineData.mimeType, data: part.inlineData.data } }];
+        return [];
+    });
+}
@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Writes a PDF with one JPEG per page. PDF embeds JPEG data as is (DCTDecode), so photographed
+// pages need neither re-encoding nor a PDF library, in keeping with services/textExtraction.ts.
+
+export interface PdfImagePage {
+    jpeg: Blob;
+    // Pixel size of the JPEG.
+    width: number;
+    height: number;
+}
+
+// Pages are A4 wide and as tall as the photo's proportions require.
+const PAGE_WIDTH_POINTS = 595.28;
+
+const formatPoints = (value: number) => value.toFixed(2);
+
+export async function createImagePdf(pages: PdfImagePage[]): Promise<Blob> {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    // Byte offset of every object, indexed by object number, for the cross-reference table.
+    const offsets: number[] = [];
+    let length = 0;
+    const write = (data: string | Uint8Array) => {
+        const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+    const beginObject = (id: number) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n`);
+    };
+
+    // Object 1 is the catalog, 2 the page tree, then each page takes three: page, image, content.
+    const pageIds = pages.map((_, index) => 3 + index * 3);
+    write('%PDF-1.4\n%âãÏÓ\n');
+    beginObject(1);
+    write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+    beginObject(2);
+    write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+    for (const [index, page] of pages.entries()) {
+        const pageId = pageIds[index];
+        const width = formatPoints(PAGE_WIDTH_POINTS);
+        const height = formatPoints(PAGE_WIDTH_POINTS * page.height / page.width);
+        beginObject(pageId);
+        write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 ${pageId + 1} 0 R >> >> /Contents ${pageId + 2} 0 R >>\nendobj\n`);
+
+        const jpeg = new Uint8Array(await page.jpeg.arrayBuffer());
+        beginObject(pageId + 1);
+        write(`<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`);
+        write(jpeg);
+        write('\nendstream\nendobj\n');
+
+        const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+        beginObject(pageId + 2);
+        write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+    }
+
+    const xrefOffset = length;
+    const size = offsets.length;
+    write(`xref\n0 ${size}\n0000000000 65535 f \n`);
+    write(offsets.slice(1).map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join(''));
+    write(`trailer\n<< /Size ${size} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+    return new Blob(chunks, { type: 'application/pdf' });
+}
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GroundingChunk } from '../types';
+import { t } from './i18n';
+
+export interface SourceEntry {
+    /** Position of the chunk in the answer's `groundingChunks`, which is what citations refer to. */
+    index: number;
+    chunk: GroundingChunk;
+    location?: string;
+}
+
+export interface SourceGroup {
+    title: string;
+    sources: SourceEntry[];
+}
+
+export function getSourceTitle(chunk: GroundingChunk): string {
+    const context = chunk.retrievedContext;
+    if (context?.title) return context.title;
+    const fromPath = (context?.documentName || context?.uri || '').split('/').pop();
+    return fromPath || t('services.unknownDocument');
+}
+
+/** Returns "p. N" when the page is known, otherwise the chunk's first markdown heading, if any. */
+export function getSourceLocation(chunk: GroundingChunk): string | undefined {
+    const context = chunk.retrievedContext;
+    if (context?.pageNumber) return `p. ${context.pageNumber}`;
+    const heading = context?.text?.match(/^\s*#{1,6}\s+(.+)$/m)?.[1]?.trim();
+    return heading ? `§ ${heading}` : undefined;
+}
+
+/** Groups the chunks that carry text by originating document, keeping first-seen order. */
+export function groupSourcesByDocument(chunks: GroundingChunk[] = []): SourceGroup[] {
+    const groups = new Map<string, SourceGroup>();
+    chunks.forEach((chunk, index) => {
+        if (!chunk.retrievedContext?.text) return;
+        const title = getSourceTitle(chunk);
+        const group = groups.get(title) || { title, sources: [] };
+        group.sources.push({ index, chunk, location: getSourceLocation(chunk) });
+        groups.set(title, group);
+    });
+    return Array.from(groups.values());
+}